@@ -1,151 +1,306 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { SignalInterval } from './types';
-import { textToIdealTiming } from './utils/morseUtils';
+import { AlphabetId, AttemptRecord, CopyRecord, InputSource, KeyCommand, KeyCommandAction, KeyerSettings, KeyingLevels, PaddleLog, PlaybackTrack, PracticeFlowSettings, PracticeLine, PracticeMode, SidetoneOptions, SignalInterval, TimingOptions, ToneDetectionConfig } from './types';
+import { DEFAULT_KEY_COMMANDS, DEFAULT_KEYER, DEFAULT_SIDETONE, DEFAULT_TIMING_OPTIONS, DEFAULT_TONE_DETECTION, EXTENDED_ALPHABETS } from './constants';
+import { detectCommand, textToIdealTiming, tokenizeText } from './utils/morseUtils';
+import { analyzeFist } from './utils/fistAnalysis';
+import { analyzePaddle } from './utils/paddleAnalysis';
+import { alignSignals } from './utils/signalAlignment';
+import { decodeSignals } from './utils/morseDecoder';
+import { diffSequences } from './utils/textDiff';
+import { estimateSpeed } from './utils/speedEstimate';
+import { aggregateCharacterStats, analyzeAttemptCharacters } from './utils/characterStats';
+import { generateDrill } from './utils/drillGenerator';
+import { buildCoachingInput } from './utils/coaching';
+import { aggregateReceiveStats } from './utils/receiveScoring';
+import { ECHO_ADVANCE_DELAY, judgeEcho, replyTimeout } from './utils/echoDrill';
+import { parsePracticeLines } from './utils/textLibrary';
+import { encodeWav } from './utils/wav';
+import { downloadBlob, timestampedFileName } from './utils/download';
+import { attemptFromHash, attemptToCsv, attemptToHash, attemptToJson, importAttempt, IMPORTED_SESSION_ID } from './utils/attemptExport';
+import { DEFAULT_HYSTERESIS } from './utils/keyingDetector';
 import { useAudioKeyer } from './hooks/useAudioKeyer';
+import { useDirectKeyer } from './hooks/useDirectKeyer';
+import { useSidetonePlayer } from './hooks/useSidetonePlayer';
+import { useCalibration } from './hooks/useCalibration';
+import { useTextLibrary } from './hooks/useTextLibrary';
+import { usePracticeFlow } from './hooks/usePracticeFlow';
+import { useEchoDrill } from './hooks/useEchoDrill';
+import { createSessionId, deleteAttempt, listAttempts, saveAttempt } from './services/historyStore';
+import { loadCopyHistory, saveCopyHistory } from './services/copyHistoryStore';
+import { analyzeAudioFile } from './services/audioFileAnalysis';
+import { KEY_PAD_ATTRIBUTE } from './services/keyInputDrivers';
 import Timeline from './components/Timeline';
-import { Keyboard, Volume2, ChevronLeft, ChevronRight, RotateCcw, ChevronUp, ChevronDown } from 'lucide-react';
-
-const DEFAULT_TEXT = `tnx for the call
-ant is 3el yagi
-at 55 feet
-up and down
-xray wont hurt
-kiss and tell
-easy as pie
-rag tag dog wag
-wx is cldy
-temp is 15C
-temp here is 70F
-make CW QSOs
-the oak tree
-hope to cu agn
-sun spots
-your RST is
-the tall tree
-best QSO ever
-cold ice rink
-120 volt amp
-rf coax loss
-been to the zoo?
-CWA has been fun
-rf burn
-know them well
-have a fun time
-a crew cut
-be safe and well
-name is rick
-I like SOTA
-head copy
-head send
-jump or duck
-one acre lot
-then we will
-been a long time
-know I can
-bet you will
-she runs fast
-rail road code
-work many QSOs
-as you wish
-turn the page
-come on over
-call me soon
-look over here
-must be kind
-time will pass
-like my home
-say your name
-want to play?
-ask me what?
-Its my turn
-play your hand
-this is good
-I like that
-too much
-just help
-read my lips
-fine by me
-its my idea
-A cold road
-once upon a time
-walk a mile
-hear them both
-main road
-turn it on
-slow down
-find work
-i am next
-walk with me
-open the door
-work to live
-live to work
-a live wire
-a left turn
-come over here
-fast or slow?
-give or take
-a big city
-sing my song
-they are late
-she is safe
-life goes on
-work from home
-make it real
-able to hear
-sure is cold
-sure is warm
-its the rule
-had an idea
-each is OK
-give it a shot
-lead on
-have an idea
-mark my word
-they want it all
-they were here
-when you want
-just in time
-hey jude
-get back
-i feel fine
-all you need
-dont let me down
-blue jay way
-from me to you
-when im 64
-best of my love`;
+import TimingCharts from './components/TimingCharts';
+import PracticeTextControls from './components/PracticeTextControls';
+import CoachPanel from './components/CoachPanel';
+import TextLibraryControls from './components/TextLibraryControls';
+import PracticeFlowControls from './components/PracticeFlowControls';
+import SessionSummary from './components/SessionSummary';
+import CopyPractice from './components/CopyPractice';
+import ReceiveStatsPanel from './components/ReceiveStatsPanel';
+import EchoDrillPanel from './components/EchoDrillPanel';
+import FistMetricsPanel from './components/FistMetricsPanel';
+import PaddleMetricsPanel from './components/PaddleMetricsPanel';
+import DecodedDiff from './components/DecodedDiff';
+import TimingControls from './components/TimingControls';
+import DetectionControls from './components/DetectionControls';
+import InputSourceSelect from './components/InputSourceSelect';
+import KeyerControls from './components/KeyerControls';
+import CalibrationControls from './components/CalibrationControls';
+import HistoryPanel from './components/HistoryPanel';
+import WeakCharsPanel from './components/WeakCharsPanel';
+import KeyCommandSettings from './components/KeyCommandSettings';
+import SidetoneControls from './components/SidetoneControls';
+import AudioFileControls from './components/AudioFileControls';
+import ExportControls from './components/ExportControls';
+import { Keyboard, Headphones, Volume2, ChevronLeft, ChevronRight, RotateCcw, ChevronUp, ChevronDown, Gauge, History, Target, X } from 'lucide-react';
+
+const MODE_TITLES: Record<PracticeMode, string> = {
+  send: 'Key the line and analyse your fist',
+  copy: 'Copy the line by ear and type it',
+  echo: 'Hear the hidden line, then send it back',
+};
+
+// The range the speed controls allow
+const clampWpm = (wpm: number) => Math.max(5, Math.min(40, wpm));
 
 const App: React.FC = () => {
   // --- State ---
-  const [inputText, setInputText] = useState(DEFAULT_TEXT);
-  const [lines, setLines] = useState<string[]>([]);
-  const [currentLineIndex, setCurrentLineIndex] = useState(0);
-  const [wpm, setWpm] = useState(15.7);
+  const textLibrary = useTextLibrary();
+  const inputText = textLibrary.activeSet.text;
+  const [lines, setLines] = useState<PracticeLine[]>([]);
+  const flow = usePracticeFlow(lines);
+  const echo = useEchoDrill();
+  const [currentLineIndex, setCurrentLineIndex] = useState(0); // Position in flow.order
+  const [userWpm, setWpm] = useState(15.7);
+  const [userTiming, setTiming] = useState<TimingOptions>(DEFAULT_TIMING_OPTIONS);
+  const [alphabet, setAlphabet] = useState<AlphabetId>('international');
   const [threshold, setThreshold] = useState(0.31); 
+  const [hysteresis, setHysteresis] = useState(DEFAULT_HYSTERESIS);
+  const [levels, setLevels] = useState<KeyingLevels | null>(null);
+  const [trackLevels, setTrackLevels] = useState(false);
+  const [inputSource, setInputSource] = useState<InputSource>('microphone');
+  const [keyer, setKeyer] = useState<KeyerSettings>(DEFAULT_KEYER);
+  const [paddleLog, setPaddleLog] = useState<PaddleLog | null>(null);
+  const [detection, setDetection] = useState<ToneDetectionConfig>(DEFAULT_TONE_DETECTION);
   const [userSignals, setUserSignals] = useState<SignalInterval[]>([]);
+  const [history, setHistory] = useState<AttemptRecord[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [reviewAttempt, setReviewAttempt] = useState<AttemptRecord | null>(null);
+  const [keyCommandsEnabled, setKeyCommandsEnabled] = useState(false);
+  const [keyCommands, setKeyCommands] = useState<KeyCommand[]>(DEFAULT_KEY_COMMANDS);
+  const [pendingCommand, setPendingCommand] = useState<KeyCommandAction | null>(null);
+  const [sidetone, setSidetone] = useState<SidetoneOptions>(DEFAULT_SIDETONE);
+  const [mode, setMode] = useState<PracticeMode>('send');
+  const [copyHistory, setCopyHistory] = useState<CopyRecord[]>(() => loadCopyHistory());
+  const [copyChecked, setCopyChecked] = useState(false); // The current line's copy has been scored
+
+  // One practice session per page load; every saved attempt is tagged with it
+  const sessionRef = useRef({ id: createSessionId(), startedAt: Date.now() });
+  // Signals of the last saved attempt, so the same attempt is never stored twice
+  const savedSignalsRef = useRef<SignalInterval[] | null>(null);
 
   // --- Effects ---
   useEffect(() => {
     // Parse input text into lines
-    const splitLines = inputText.split('\n').filter(l => l.trim().length > 0);
+    const splitLines = parsePracticeLines(inputText);
     setLines(splitLines);
     if (currentLineIndex >= splitLines.length) {
       setCurrentLineIndex(0);
     }
   }, [inputText]);
 
+  useEffect(() => {
+    listAttempts().then(setHistory);
+  }, []);
+
   // --- Helpers ---
-  const currentLineText = lines[currentLineIndex] || "";
+  const currentLine = flow.lineAt(currentLineIndex);
+  const currentLineText = currentLine?.text || "";
+
+  // Lines with "| wpm=..." settings override the speed while they are up; the user's own
+  // setting applies again on the lines without them
+  const lineWpm = currentLine?.wpm;
+  const lineEffectiveWpm = currentLine?.effectiveWpm;
+  const wpm = lineWpm !== undefined ? clampWpm(lineWpm) : userWpm;
+  const timing = React.useMemo(() =>
+    lineEffectiveWpm !== undefined ? { ...userTiming, effectiveWpm: Math.min(wpm, clampWpm(lineEffectiveWpm)) } : userTiming,
+  [userTiming, lineEffectiveWpm, wpm]);
+
+  // While a saved attempt is open, the timeline and analysis show it instead of the live line
+  const viewLineText = reviewAttempt ? reviewAttempt.lineText : currentLineText;
+  const viewWpm = reviewAttempt ? reviewAttempt.wpm : wpm;
+  const viewTiming = reviewAttempt ? reviewAttempt.timing : timing;
+  const viewAlphabet = reviewAttempt ? reviewAttempt.alphabet : alphabet;
+  const viewSignals = reviewAttempt ? reviewAttempt.signals : userSignals;
+  const isMicrophone = inputSource === 'microphone';
+  const viewPaddle = reviewAttempt ? reviewAttempt.paddle ?? null : isMicrophone ? null : paddleLog;
   
   const idealSignals = React.useMemo(() => 
-    textToIdealTiming(currentLineText, wpm), 
-  [currentLineText, wpm]);
+    textToIdealTiming(viewLineText, viewWpm, viewTiming, viewAlphabet), 
+  [viewLineText, viewWpm, viewTiming, viewAlphabet]);
+
+  const alignment = React.useMemo(() =>
+    alignSignals(idealSignals, viewSignals, viewWpm),
+  [idealSignals, viewSignals, viewWpm]);
+
+  const metrics = React.useMemo(() =>
+    analyzeFist(idealSignals, viewSignals, viewWpm, alignment),
+  [idealSignals, viewSignals, viewWpm, alignment]);
+
+  const paddleMetrics = React.useMemo(() =>
+    analyzePaddle(idealSignals, viewSignals, viewPaddle, viewWpm, alignment),
+  [idealSignals, viewSignals, viewPaddle, viewWpm, alignment]);
+
+  const decoded = React.useMemo(() =>
+    decodeSignals(viewSignals, viewWpm, viewAlphabet),
+  [viewSignals, viewWpm, viewAlphabet]);
+
+  const measuredSpeed = React.useMemo(() =>
+    estimateSpeed(viewSignals, viewWpm),
+  [viewSignals, viewWpm]);
+
+  // Compared by code, so a prosign matches the punctuation it shares a code with
+  const decodedDiff = React.useMemo(() =>
+    decoded.chars.length > 0
+      ? diffSequences(tokenizeText(viewLineText, viewAlphabet), decoded.chars, (a, b) => a.code === b.code)
+      : [],
+  [viewLineText, decoded, viewAlphabet]);
+
+  const coachingInput = React.useMemo(() =>
+    metrics ? buildCoachingInput(idealSignals, viewWpm, metrics, decodedDiff, measuredSpeed) : null,
+  [idealSignals, viewWpm, metrics, decodedDiff, measuredSpeed]);
+
+  // The session the timing charts aggregate over: the reviewed attempt's, or the live one
+  const viewSessionAttempts = React.useMemo(() => {
+    const sessionId = reviewAttempt ? reviewAttempt.sessionId : sessionRef.current.id;
+    return history.filter(a => a.sessionId === sessionId);
+  }, [history, reviewAttempt]);
+
+  // --- History ---
+  // The live attempt as a history record
+  const buildLiveRecord = useCallback((): AttemptRecord => {
+    const ideal = textToIdealTiming(currentLineText, wpm, timing, alphabet);
+    return {
+      sessionId: sessionRef.current.id,
+      sessionStartedAt: sessionRef.current.startedAt,
+      timestamp: Date.now(),
+      lineText: currentLineText,
+      wpm,
+      timing,
+      alphabet,
+      threshold,
+      signals: userSignals,
+      metrics: analyzeFist(ideal, userSignals, wpm),
+      decodedText: decodeSignals(userSignals, wpm, alphabet).text,
+      ...(!isMicrophone && paddleLog ? { paddle: paddleLog } : {})
+    };
+  }, [userSignals, currentLineText, wpm, timing, alphabet, threshold, isMicrophone, paddleLog]);
+
+  // Stores the live attempt (if anything was keyed and it isn't stored yet)
+  const commitAttempt = useCallback(() => {
+    if (savedSignalsRef.current === userSignals || !userSignals.some(s => s.state === 'on')) return;
+    savedSignalsRef.current = userSignals;
+    const live = buildLiveRecord();
+    // Kept with the attempt, so the weakness stats don't decode the whole history again
+    const record = { ...live, characters: analyzeAttemptCharacters(live) };
+    flow.recordResult(record.lineText, record.metrics?.score ?? 0);
+    saveAttempt(record).then(saved => {
+      if (saved) setHistory(prev => [...prev, saved]);
+    });
+  }, [userSignals, buildLiveRecord, flow.recordResult]);
+
+  const characterStats = React.useMemo(() => aggregateCharacterStats(history), [history]);
+  const receiveStats = React.useMemo(() => aggregateReceiveStats(copyHistory), [copyHistory]);
+
+  // Keep the attempt in progress and start from the top of whatever text comes next
+  const beforeTextChange = useCallback(() => {
+    commitAttempt();
+    setReviewAttempt(null);
+    setCurrentLineIndex(0);
+    flow.dismissSummary();
+  }, [commitAttempt, flow.dismissSummary]);
+
+  // Generated text goes into the library's "Generated" set
+  const loadSourceText = useCallback((text: string) => {
+    beforeTextChange();
+    textLibrary.loadGenerated(text);
+  }, [beforeTextChange, textLibrary.loadGenerated]);
+
+  const handleSelectTextSet = useCallback((id: string) => {
+    beforeTextChange();
+    textLibrary.selectSet(id);
+  }, [beforeTextChange, textLibrary.selectSet]);
+
+  const handleAddTextSet = useCallback((name: string, text: string) => {
+    beforeTextChange();
+    textLibrary.addSet(name, text);
+  }, [beforeTextChange, textLibrary.addSet]);
+
+  const handleDeleteTextSet = useCallback((id: string) => {
+    if (id === textLibrary.activeSet.id) beforeTextChange();
+    textLibrary.deleteSet(id);
+  }, [beforeTextChange, textLibrary.activeSet.id, textLibrary.deleteSet]);
+
+  const handleImportTextSet = useCallback(async (file: File) => {
+    await textLibrary.importFile(file);
+    beforeTextChange();
+  }, [beforeTextChange, textLibrary.importFile]);
+
+  // Replace the source text with lines aimed at the weakest characters so far
+  const handleGenerateDrill = useCallback(() => {
+    const drill = generateDrill(characterStats, { seed: Date.now() });
+    if (drill) loadSourceText(drill);
+  }, [characterStats, loadSourceText]);
+
+  const handleDeleteAttempt = useCallback((attempt: AttemptRecord) => {
+    if (attempt.id === undefined) return;
+    deleteAttempt(attempt.id).then(ok => {
+      if (!ok) return;
+      setHistory(prev => prev.filter(a => a.id !== attempt.id));
+      setReviewAttempt(prev => (prev?.id === attempt.id ? null : prev));
+    });
+  }, []);
 
   // --- Callback ---
   const handleSignalChange = useCallback((signals: SignalInterval[]) => {
     setUserSignals(signals);
   }, []);
 
+  // The keyers report their silence timeout from inside their loop, before the final signals
+  // have rendered, so the practice flow reacts to it on the next render
+  const [autoStopPending, setAutoStopPending] = useState(false);
+  const handleAutoStop = useCallback(() => setAutoStopPending(true), []);
+
+  // Calibration and noise tracking both move the thresholds
+  const handleLevelsChange = useCallback((next: KeyingLevels) => {
+    setLevels(next);
+    setThreshold(next.threshold);
+    setHysteresis(next.hysteresis);
+  }, []);
+
+  const audioKeyer = useAudioKeyer({ 
+    threshold, 
+    hysteresis,
+    detection,
+    levels,
+    trackLevels,
+    onLevelsChange: handleLevelsChange,
+    onSignalChange: handleSignalChange,
+    onAutoStop: handleAutoStop
+  });
+
+  const directKeyer = useDirectKeyer({
+    source: inputSource === 'microphone' ? 'keyboard' : inputSource,
+    sidetone,
+    keyer,
+    wpm,
+    onSignalChange: handleSignalChange,
+    onPaddleLogChange: setPaddleLog,
+    onAutoStop: handleAutoStop
+  });
+
+  // Everything below keys off whichever source is selected
   const { 
     isListening, 
     currentLevel, 
@@ -155,10 +310,158 @@ const App: React.FC = () => {
     isSignalOn,
     activeSignalStart,
     getCurrentTime
-  } = useAudioKeyer({ 
-    threshold, 
-    onSignalChange: handleSignalChange 
+  } = isMicrophone ? audioKeyer : directKeyer;
+  const { lockedPitch, getRecording, hasRecording } = audioKeyer;
+
+  const handleInputSourceChange = useCallback((source: InputSource) => {
+    if (isListening) stopListening();
+    setInputSource(source);
+  }, [isListening, stopListening]);
+
+  const player = useSidetonePlayer(sidetone);
+  const { play: playSignals, stop: stopPlayback } = player;
+
+  // The speaker would feed straight back into the microphone, so listening stops while we play
+  const handlePlay = useCallback((track: PlaybackTrack) => {
+    if (isListening) stopListening();
+    playSignals(track === 'ideal' ? idealSignals : viewSignals, track).catch(e => {
+      console.error("Error playing sidetone:", e);
+    });
+  }, [isListening, stopListening, playSignals, idealSignals, viewSignals]);
+
+  // Copy mode plays the line instead of listening for it, so the keyer stays off
+  const handleModeChange = useCallback((next: PracticeMode) => {
+    if (next === mode) return;
+    commitAttempt();
+    setReviewAttempt(null);
+    stopPlayback();
+    if (isListening) stopListening();
+    resetSignals();
+    echo.reset();
+    setMode(next);
+  }, [mode, commitAttempt, stopPlayback, isListening, stopListening, resetSignals, echo.reset]);
+
+  const handleCopyCheck = useCallback((typed: string, plays: number, score: number) => {
+    const record: CopyRecord = {
+      timestamp: Date.now(),
+      lineText: currentLineText,
+      typed,
+      wpm,
+      timing,
+      alphabet,
+      plays,
+      score,
+    };
+    flow.recordResult(currentLineText, score);
+    setCopyHistory(prev => saveCopyHistory([...prev, record]));
+    setCopyChecked(true);
+  }, [currentLineText, wpm, timing, alphabet, flow.recordResult]);
+
+  const handleClearCopyHistory = useCallback(() => {
+    setCopyHistory(saveCopyHistory([]));
+  }, []);
+
+  // Don't keep playing a line we've navigated away from
+  useEffect(() => {
+    stopPlayback();
+  }, [currentLineIndex, reviewAttempt, stopPlayback]);
+
+  // A recording is analyzed as an attempt on the current line, replacing the live one
+  const handleAnalyzeFile = useCallback(async (file: File) => {
+    commitAttempt();
+    setReviewAttempt(null);
+    stopPlayback();
+    if (isListening) stopListening();
+    const signals = await analyzeAudioFile(file, threshold, hysteresis, detection);
+    resetSignals();
+    setPaddleLog(null);
+    setUserSignals(signals);
+  }, [commitAttempt, stopPlayback, isListening, stopListening, threshold, hysteresis, detection, resetSignals]);
+
+  const handleSaveRecording = useCallback(() => {
+    const recording = getRecording();
+    if (!recording) return;
+    downloadBlob(encodeWav(recording.samples, recording.sampleRate), timestampedFileName('wav'));
+  }, [getRecording]);
+
+  // --- Export / Import ---
+  // Exports whatever the timeline shows: the attempt under review, or the live one
+  const exportRecord = useCallback(() => reviewAttempt ?? buildLiveRecord(), [reviewAttempt, buildLiveRecord]);
+
+  const handleExportJson = useCallback(() => {
+    const json = attemptToJson(exportRecord(), idealSignals);
+    downloadBlob(new Blob([json], { type: 'application/json' }), timestampedFileName('json'));
+  }, [exportRecord, idealSignals]);
+
+  const handleExportCsv = useCallback(() => {
+    const csv = attemptToCsv(exportRecord(), idealSignals);
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), timestampedFileName('csv'));
+  }, [exportRecord, idealSignals]);
+
+  const handleCopyLink = useCallback(async () => {
+    const { origin, pathname, search } = window.location;
+    await navigator.clipboard.writeText(`${origin}${pathname}${search}#${attemptToHash(exportRecord())}`);
+  }, [exportRecord]);
+
+  // An imported attempt opens for review, like one from the history
+  const openImported = useCallback((record: AttemptRecord) => {
+    commitAttempt();
+    stopPlayback();
+    if (isListening) stopListening();
+    setReviewAttempt(record);
+  }, [commitAttempt, stopPlayback, isListening, stopListening]);
+
+  const handleImport = useCallback(async (file: File) => {
+    openImported(importAttempt(await file.text()));
+  }, [openImported]);
+
+  // Shared links carry the attempt in the hash; it's removed once opened so a reload starts live
+  const openLinkRef = useRef(openImported);
+  useEffect(() => {
+    openLinkRef.current = openImported;
+  }, [openImported]);
+
+  useEffect(() => {
+    const openFromHash = () => {
+      try {
+        const record = attemptFromHash(window.location.hash);
+        if (!record) return;
+        openLinkRef.current(record);
+        window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      } catch (e) {
+        console.error("Error opening shared attempt:", e);
+      }
+    };
+    openFromHash();
+    window.addEventListener('hashchange', openFromHash);
+    return () => window.removeEventListener('hashchange', openFromHash);
+  }, []);
+
+  const calibration = useCalibration({
+    isListening: audioKeyer.isListening,
+    startListening: audioKeyer.startListening,
+    resetSignals: audioKeyer.resetSignals,
+    getRecording,
+    detection,
+    lockedPitch,
+    onComplete: handleLevelsChange
   });
+  const { start: startCalibration } = calibration;
+
+  const handleCalibrate = useCallback(() => {
+    commitAttempt();
+    setReviewAttempt(null);
+    stopPlayback();
+    startCalibration();
+  }, [commitAttempt, stopPlayback, startCalibration]);
+
+  // Keep the attempt when the keyer stops (silence timeout or Stop). Only the stop itself
+  // commits, not every later change to the signals while stopped.
+  const wasListeningRef = useRef(false);
+  useEffect(() => {
+    if (wasListeningRef.current && !isListening) commitAttempt();
+    wasListeningRef.current = isListening;
+  }, [isListening, commitAttempt]);
 
   // When line changes, reset the keyer signals automatically
   useEffect(() => {
@@ -166,31 +469,103 @@ const App: React.FC = () => {
      // We don't necessarily stop listening here, just clear signals for the new line
   }, [currentLineIndex, resetSignals]);
 
+  // Saved and imported attempts are sending attempts, so opening one goes back to send mode
+  useEffect(() => {
+    if (reviewAttempt) setMode('send');
+  }, [reviewAttempt]);
+
+  // A line still sounding would give away the next one, and the new line starts out unchecked
+  useEffect(() => {
+    setCopyChecked(false);
+    if (mode === 'copy') stopPlayback();
+  }, [currentLineIndex, currentLineText, alphabet, mode, stopPlayback]);
+
   const handleRestart = useCallback(() => {
-    // Restart current attempt: clear signals, ensure listening
+    // Restart current attempt: save it, clear signals, ensure listening
+    if (mode === 'copy') return;
+    if (mode === 'echo') {
+      echo.cue();
+      return;
+    }
+    commitAttempt();
+    setReviewAttempt(null);
+    stopPlayback();
     resetSignals();
     if (!isListening) {
       startListening();
     }
-  }, [isListening, resetSignals, startListening]);
+  }, [mode, isListening, commitAttempt, stopPlayback, resetSignals, startListening, echo.cue]);
 
   const handlePrevLine = useCallback(() => {
     if (currentLineIndex > 0) {
+      commitAttempt();
+      setReviewAttempt(null);
       setCurrentLineIndex(prev => prev - 1);
       setUserSignals([]);
       resetSignals();
-      if (!isListening) startListening();
+      if (mode === 'echo') echo.cue();
+      else if (!isListening && mode === 'send') startListening();
     }
-  }, [currentLineIndex, isListening, resetSignals, startListening]);
+  }, [currentLineIndex, isListening, mode, commitAttempt, resetSignals, startListening, echo.cue]);
+
+  // The live attempt counts before it is committed, so Next unlocks as soon as it passes
+  const currentLinePassed = flow.isPassed(currentLineText) ||
+    (!reviewAttempt && metrics !== null && metrics.score >= flow.settings.passScore);
+  const canAdvance = !flow.settings.repeatUntilPass || currentLinePassed;
+  const currentLineResult = reviewAttempt ? undefined : flow.results.get(currentLineText);
+
+  // Copying by ear or echoing: the source text and line position would give the line away until it is checked
+  const isLineHidden = (mode === 'copy' && !copyChecked) || (mode === 'echo' && echo.phase !== 'judged');
 
   const handleNextLine = useCallback(() => {
+    if (!canAdvance) return;
     if (currentLineIndex < lines.length - 1) {
+      commitAttempt();
+      setReviewAttempt(null);
       setCurrentLineIndex(prev => prev + 1);
       setUserSignals([]);
       resetSignals();
-      if (!isListening) startListening();
+      if (mode === 'echo') echo.cue();
+      else if (!isListening && mode === 'send') startListening();
+    } else if (lines.length > 0) {
+      // Past the last line: the session is done
+      commitAttempt();
+      setReviewAttempt(null);
+      if (isListening) stopListening();
+      flow.finish();
+    }
+  }, [canAdvance, currentLineIndex, lines.length, isListening, mode, commitAttempt, resetSignals, startListening, stopListening, flow.finish, echo.cue]);
+
+  const handlePracticeAgain = useCallback(() => {
+    flow.restart();
+    setReviewAttempt(null);
+    setCurrentLineIndex(0);
+    setUserSignals([]);
+    resetSignals();
+  }, [flow.restart, resetSignals]);
+
+  // A new order starts the session over from its first line
+  const handleFlowSettingsChange = useCallback((next: PracticeFlowSettings) => {
+    if (next.order !== flow.settings.order) {
+      commitAttempt();
+      setReviewAttempt(null);
+      setCurrentLineIndex(0);
+    }
+    flow.setSettings(next);
+  }, [flow.settings.order, flow.setSettings, commitAttempt]);
+
+  // Auto-advance: a passing attempt moves on; with repeat-until-pass a failing one starts over
+  useEffect(() => {
+    if (!autoStopPending) return;
+    setAutoStopPending(false);
+    if (mode === 'echo') {
+      if (echo.phase === 'reply') echo.setPhase('judging');
+      return;
     }
-  }, [currentLineIndex, lines.length, isListening, resetSignals, startListening]);
+    if (!flow.settings.autoAdvance || reviewAttempt || !metrics) return;
+    if (metrics.score >= flow.settings.passScore) handleNextLine();
+    else if (flow.settings.repeatUntilPass) handleRestart();
+  }, [autoStopPending, mode, echo.phase, echo.setPhase, flow.settings, reviewAttempt, metrics, handleNextLine, handleRestart]);
 
   // --- Keyboard Navigation ---
   // Store handlers in a ref to avoid dependency cycle / stale closure issues in the event listener
@@ -199,6 +574,136 @@ const App: React.FC = () => {
     handlersRef.current = { handlePrevLine, handleNextLine, handleRestart };
   }, [handlePrevLine, handleNextLine, handleRestart]);
 
+  // --- Echo Drill ---
+  // Each call runs cue -> playing -> reply -> judging -> judged. The keyer stays off while
+  // the line plays (the speaker would feed straight into the microphone).
+  const cueHeardRef = useRef(false);
+  const echoTimeout = React.useMemo(() => replyTimeout(idealSignals), [idealSignals]);
+
+  useEffect(() => {
+    if (mode !== 'echo' || echo.phase !== 'cue') return;
+    // A speed step lands first; the effect runs again once the ideal timing has caught up
+    if (echo.rampedWpm !== null) {
+      setWpm(echo.rampedWpm);
+      echo.clearRampedWpm();
+      return;
+    }
+    commitAttempt();
+    setReviewAttempt(null);
+    if (isListening) stopListening();
+    setUserSignals([]);
+    resetSignals();
+    cueHeardRef.current = false;
+    // A line without marks has nothing to hear, so the reply opens straight away
+    if (!idealSignals.some(s => s.state === 'on' && s.duration > 0)) {
+      echo.setPhase('reply');
+      startListening();
+      return;
+    }
+    echo.setPhase('playing');
+    playSignals(idealSignals, 'ideal').catch(e => {
+      console.error("Error playing the echo call:", e);
+      // Only if nothing else has moved the drill on in the meantime
+      echo.setPhase(phase => (phase === 'playing' ? 'failed' : phase));
+    });
+  }, [mode, echo.phase, echo.setPhase, echo.rampedWpm, echo.clearRampedWpm, commitAttempt, isListening, stopListening, startListening, resetSignals, playSignals, idealSignals]);
+
+  // Playback starts asynchronously, so the reply only opens once the cue has been heard to the end
+  useEffect(() => {
+    if (mode !== 'echo' || echo.phase !== 'playing') return;
+    if (player.isPlaying) {
+      cueHeardRef.current = true;
+    } else if (cueHeardRef.current) {
+      echo.setPhase('reply');
+      startListening();
+    }
+  }, [mode, echo.phase, echo.setPhase, player.isPlaying, startListening]);
+
+  // The reply is over once the key has stayed up past the timeout after its last element
+  const echoCheckRef = useRef<() => void>(() => {});
+  useEffect(() => {
+    echoCheckRef.current = () => {
+      if (isSignalOn) return;
+      const last = userSignals[userSignals.length - 1];
+      if (!last || last.state !== 'on') return;
+      if (getCurrentTime() - (last.startTime + last.duration) >= echoTimeout) echo.setPhase('judging');
+    };
+  });
+
+  useEffect(() => {
+    if (mode !== 'echo' || echo.phase !== 'reply' || !isListening) return;
+    const id = window.setInterval(() => echoCheckRef.current(), 200);
+    return () => window.clearInterval(id);
+  }, [mode, echo.phase, isListening]);
+
+  // Judged on the render after the reply ends, so the decode and metrics include its last element
+  useEffect(() => {
+    if (mode !== 'echo' || echo.phase !== 'judging') return;
+    // Stopping commits the attempt (with its final gap) on the next render
+    if (isListening) stopListening();
+    else commitAttempt();
+    echo.record(judgeEcho(decodedDiff, metrics, flow.settings.passScore), wpm);
+  }, [mode, echo.phase, echo.record, isListening, stopListening, commitAttempt, decodedDiff, metrics, flow.settings.passScore, wpm]);
+
+  // Auto-advance: a passing reply moves on; with repeat-until-pass a failing one hears the call again
+  useEffect(() => {
+    if (mode !== 'echo' || echo.phase !== 'judged' || !echo.result || !flow.settings.autoAdvance) return;
+    const passed = echo.result.passed;
+    if (!passed && !flow.settings.repeatUntilPass) return;
+    const id = window.setTimeout(() => {
+      if (passed) handlersRef.current.handleNextLine();
+      else echo.cue();
+    }, ECHO_ADVANCE_DELAY);
+    return () => window.clearTimeout(id);
+  }, [mode, echo.phase, echo.result, echo.cue, flow.settings]);
+
+  // --- Key Commands ---
+  // A command keyed after the line is stripped from the attempt, then the matching
+  // navigation handler runs on the next render (so it sees the stripped signals)
+  const commandCheckRef = useRef<() => void>(() => {});
+  useEffect(() => {
+    commandCheckRef.current = () => {
+      if (isSignalOn || pendingCommand || reviewAttempt) return;
+      const last = userSignals[userSignals.length - 1];
+      if (!last || last.state !== 'on') return;
+
+      const silenceStart = last.startTime + last.duration;
+      const signals: SignalInterval[] = [
+        ...userSignals,
+        { startTime: silenceStart, duration: getCurrentTime() - silenceStart, state: 'off' }
+      ];
+      const detected = detectCommand(signals, wpm, keyCommands, { alphabet, expectedText: currentLineText });
+      if (!detected) return;
+
+      // A command with nowhere to go stays part of the attempt instead of being stripped for nothing.
+      // Next is judged on the attempt without the command, as handleNextLine will see it.
+      const { action } = detected.command;
+      if (action === 'prev' && currentLineIndex === 0) return;
+      if (action === 'next' && flow.settings.repeatUntilPass && !flow.isPassed(currentLineText) &&
+          (analyzeFist(idealSignals, detected.signals, wpm)?.score ?? 0) < flow.settings.passScore) return;
+
+      setUserSignals(detected.signals);
+      setPendingCommand(detected.command.action);
+    };
+  });
+
+  useEffect(() => {
+    if (!isListening || !keyCommandsEnabled) return;
+    const id = window.setInterval(() => commandCheckRef.current(), 200);
+    return () => window.clearInterval(id);
+  }, [isListening, keyCommandsEnabled]);
+
+  useEffect(() => {
+    if (!pendingCommand) return;
+    setPendingCommand(null);
+    const { handlePrevLine, handleNextLine, handleRestart } = handlersRef.current;
+    switch (pendingCommand) {
+      case 'next': handleNextLine(); break;
+      case 'prev': handlePrevLine(); break;
+      case 'restart': handleRestart(); break;
+    }
+  }, [pendingCommand]);
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
         const target = e.target as HTMLElement;
@@ -241,11 +746,27 @@ const App: React.FC = () => {
   }, []);
 
   const updateWpm = (newWpm: number) => {
-    setWpm(Math.max(5, Math.min(40, Number(newWpm.toFixed(1)))));
+    setWpm(clampWpm(Number(newWpm.toFixed(1))));
+  };
+
+  // The line's own effective speed stays out of the user's setting
+  const handleTimingChange = (next: TimingOptions) => {
+    setTiming(lineEffectiveWpm !== undefined ? { ...next, effectiveWpm: userTiming.effectiveWpm } : next);
+  };
+
+  // Re-target the ideal timing to the speed actually sent, so the comparison shows
+  // the shape of the fist rather than just the speed mismatch
+  const handleUseMeasuredSpeed = () => {
+    if (!measuredSpeed) return;
+    updateWpm(measuredSpeed.characterWpm);
+    if (timing.effectiveWpm !== null) {
+      const effective = Math.min(measuredSpeed.effectiveWpm, measuredSpeed.characterWpm);
+      setTiming(prev => ({ ...prev, effectiveWpm: Math.max(5, Number(effective.toFixed(1))) }));
+    }
   };
   
   // Construct the active signal object for visualization
-  const activeSignal = isListening && activeSignalStart !== null ? {
+  const activeSignal = isListening && !reviewAttempt && activeSignalStart !== null ? {
       state: isSignalOn ? 'on' as const : 'off' as const,
       startTime: activeSignalStart,
       currentTime: getCurrentTime()
@@ -255,6 +776,8 @@ const App: React.FC = () => {
   const maxThresholdDisplay = 0.5;
   const signalPercent = Math.min((currentLevel / maxThresholdDisplay) * 100, 100);
   const thresholdPercent = Math.min((threshold / maxThresholdDisplay) * 100, 100);
+  const offThresholdPercent = Math.min((threshold * hysteresis / maxThresholdDisplay) * 100, 100);
+  const noiseFloorPercent = levels ? Math.min((levels.noiseFloor / maxThresholdDisplay) * 100, 100) : null;
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100 p-4 flex flex-col items-center">
@@ -272,13 +795,40 @@ const App: React.FC = () => {
         
         {/* Top Right Controls */}
         <div className="flex flex-wrap justify-center gap-6 items-center bg-slate-900/50 p-3 rounded-xl border border-slate-800">
+            {/* Send (key the line) or copy (type what is played) */}
+            <div className="flex flex-col gap-1">
+                <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase">
+                    <Headphones className="w-3 h-3" />
+                    <span>Mode</span>
+                </div>
+                <div className="flex rounded-lg border border-slate-700 overflow-hidden text-xs">
+                    {(Object.keys(MODE_TITLES) as PracticeMode[]).map(m => (
+                        <button
+                            key={m}
+                            onClick={() => handleModeChange(m)}
+                            className={`px-3 py-1.5 capitalize transition-colors ${
+                                mode === m ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'
+                            }`}
+                            title={MODE_TITLES[m]}
+                        >
+                            {m}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="w-px h-8 bg-slate-800 hidden sm:block"></div>
+
             {/* Speed Control */}
             <div className="flex flex-col gap-1">
                  <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase">
                     <Keyboard className="w-3 h-3" />
                     <span>Speed (WPM)</span>
                 </div>
-                <div className="flex items-center gap-3">
+                <div
+                    className="flex items-center gap-3"
+                    title={lineWpm !== undefined ? `This line sets its own speed (wpm=${lineWpm})` : undefined}
+                >
                     <div className="flex items-center bg-slate-800 rounded-lg border border-slate-700">
                         <input 
                             type="number" 
@@ -286,19 +836,22 @@ const App: React.FC = () => {
                             max="40" 
                             step="0.1" 
                             value={wpm}
+                            disabled={lineWpm !== undefined}
                             onChange={(e) => setWpm(parseFloat(e.target.value))}
-                            className="w-16 bg-transparent text-white text-sm px-2 py-1 focus:outline-none text-center font-mono [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                            className="w-16 bg-transparent text-white text-sm px-2 py-1 focus:outline-none text-center font-mono disabled:opacity-40 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
                         />
                         <div className="flex flex-col border-l border-slate-700">
                             <button 
                                 onClick={() => updateWpm(wpm + 0.1)}
-                                className="px-1 hover:bg-slate-700 text-slate-400 hover:text-blue-400 transition-colors h-4 flex items-center justify-center border-b border-slate-700"
+                                disabled={lineWpm !== undefined}
+                                className="px-1 hover:bg-slate-700 disabled:opacity-40 text-slate-400 hover:text-blue-400 transition-colors h-4 flex items-center justify-center border-b border-slate-700"
                             >
                                 <ChevronUp className="w-3 h-3" />
                             </button>
                             <button 
                                 onClick={() => updateWpm(wpm - 0.1)}
-                                className="px-1 hover:bg-slate-700 text-slate-400 hover:text-blue-400 transition-colors h-4 flex items-center justify-center"
+                                disabled={lineWpm !== undefined}
+                                className="px-1 hover:bg-slate-700 disabled:opacity-40 text-slate-400 hover:text-blue-400 transition-colors h-4 flex items-center justify-center"
                             >
                                 <ChevronDown className="w-3 h-3" />
                             </button>
@@ -311,57 +864,122 @@ const App: React.FC = () => {
                         max="40" 
                         step="0.1" 
                         value={wpm}
+                        disabled={lineWpm !== undefined}
                         onChange={(e) => setWpm(parseFloat(e.target.value))}
-                        className="w-24 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500 hidden sm:block"
+                        className="w-24 h-2 disabled:opacity-40 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500 hidden sm:block"
                         title="Coarse adjustment"
                     />
                 </div>
+                {measuredSpeed && (
+                    <div className="flex items-center gap-2 text-[10px] font-mono text-slate-400">
+                        <Gauge className="w-3 h-3 text-slate-500" />
+                        <span title="Character speed from your dit, dah and element gap lengths">
+                            char {measuredSpeed.characterWpm.toFixed(1)}
+                        </span>
+                        <span title="Effective speed including your letter and word spacing">
+                            eff {measuredSpeed.effectiveWpm.toFixed(1)}
+                        </span>
+                        <button
+                            onClick={handleUseMeasuredSpeed}
+                            disabled={lineWpm !== undefined}
+                            className="px-1.5 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-40 text-blue-400 border border-slate-700 transition-colors"
+                            title="Set the speed to your measured character speed"
+                        >
+                            Use
+                        </button>
+                    </div>
+                )}
             </div>
 
             <div className="w-px h-8 bg-slate-800 hidden sm:block"></div>
 
-            {/* Threshold Control with Integrated Meter */}
-            <div className="flex flex-col gap-1">
-                <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase">
-                    <Volume2 className="w-3 h-3" />
-                    <span>Threshold: {threshold.toFixed(3)}</span>
-                </div>
-                <div className="relative w-40 h-8 flex items-center">
-                    {/* Meter Background */}
-                    <div className="absolute inset-0 bg-slate-800 rounded-lg overflow-hidden border border-slate-700">
-                         {/* Signal Level */}
-                         <div 
-                             className={`h-full transition-all duration-75 ease-out ${currentLevel > threshold ? 'bg-green-500' : 'bg-green-800/60'}`}
-                             style={{ width: `${signalPercent}%` }}
-                         />
-                    </div>
-                    
-                    {/* Range Input (Slider) */}
-                    <input 
-                        type="range" 
-                        min="0.001" 
-                        max={maxThresholdDisplay} 
-                        step="0.001" 
-                        value={threshold}
-                        onChange={(e) => setThreshold(parseFloat(e.target.value))}
-                        className="relative w-full h-full appearance-none bg-transparent cursor-pointer z-10
-                            focus:outline-none
-                            [&::-webkit-slider-thumb]:appearance-none
-                            [&::-webkit-slider-thumb]:w-1.5
-                            [&::-webkit-slider-thumb]:h-8
-                            [&::-webkit-slider-thumb]:bg-blue-400
-                            [&::-webkit-slider-thumb]:rounded-sm
-                            [&::-webkit-slider-thumb]:shadow-lg
-                            [&::-moz-range-thumb]:w-1.5
-                            [&::-moz-range-thumb]:h-8
-                            [&::-moz-range-thumb]:bg-blue-400
-                            [&::-moz-range-thumb]:border-none
-                            [&::-moz-range-thumb]:rounded-sm
-                        "
-                        title="Adjust noise threshold"
+            {/* Farnsworth / Weight Controls */}
+            <TimingControls wpm={wpm} options={timing} onChange={handleTimingChange} />
+
+            <div className="w-px h-8 bg-slate-800 hidden sm:block"></div>
+
+            {/* Line order, repeat and auto-advance */}
+            <PracticeFlowControls settings={flow.settings} onChange={handleFlowSettingsChange} />
+
+            <div className="w-px h-8 bg-slate-800 hidden sm:block"></div>
+
+            {/* Input Source */}
+            <InputSourceSelect source={inputSource} onChange={handleInputSourceChange} />
+
+            {!isMicrophone && <KeyerControls settings={keyer} onChange={setKeyer} />}
+
+            {/* Level detection only applies to the microphone */}
+            {isMicrophone && (
+                <>
+                    <div className="w-px h-8 bg-slate-800 hidden sm:block"></div>
+
+                    {/* Tone / Broadband Detection */}
+                    <DetectionControls
+                        config={detection}
+                        lockedPitch={lockedPitch}
+                        isListening={isListening}
+                        onChange={setDetection}
                     />
-                </div>
-            </div>
+
+                    <div className="w-px h-8 bg-slate-800 hidden sm:block"></div>
+
+                    {/* Threshold Control with Integrated Meter */}
+                    <div className="flex flex-col gap-1">
+                        <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase">
+                            <Volume2 className="w-3 h-3" />
+                            <span>Threshold: {threshold.toFixed(3)}</span>
+                        </div>
+                        <div className="relative w-40 h-8 flex items-center">
+                            {/* Meter Background */}
+                            <div className="absolute inset-0 bg-slate-800 rounded-lg overflow-hidden border border-slate-700">
+                                 {/* Signal Level */}
+                                 <div 
+                                     className={`h-full transition-all duration-75 ease-out ${currentLevel > threshold ? 'bg-green-500' : 'bg-green-800/60'}`}
+                                     style={{ width: `${signalPercent}%` }}
+                                 />
+                                 {/* Noise floor and the on/off hysteresis levels */}
+                                 {noiseFloorPercent !== null && (
+                                     <div className="absolute inset-y-0 w-px bg-slate-400/70" style={{ left: `${noiseFloorPercent}%` }} title="Noise floor" />
+                                 )}
+                                 <div className="absolute inset-y-0 w-px bg-yellow-400/80" style={{ left: `${offThresholdPercent}%` }} title="Off level" />
+                                 <div className="absolute inset-y-0 w-px bg-blue-400/80" style={{ left: `${thresholdPercent}%` }} title="On level" />
+                            </div>
+                    
+                            {/* Range Input (Slider) */}
+                            <input 
+                                type="range" 
+                                min="0.001" 
+                                max={maxThresholdDisplay} 
+                                step="0.001" 
+                                value={threshold}
+                                onChange={(e) => setThreshold(parseFloat(e.target.value))}
+                                className="relative w-full h-full appearance-none bg-transparent cursor-pointer z-10
+                                    focus:outline-none
+                                    [&::-webkit-slider-thumb]:appearance-none
+                                    [&::-webkit-slider-thumb]:w-1.5
+                                    [&::-webkit-slider-thumb]:h-8
+                                    [&::-webkit-slider-thumb]:bg-blue-400
+                                    [&::-webkit-slider-thumb]:rounded-sm
+                                    [&::-webkit-slider-thumb]:shadow-lg
+                                    [&::-moz-range-thumb]:w-1.5
+                                    [&::-moz-range-thumb]:h-8
+                                    [&::-moz-range-thumb]:bg-blue-400
+                                    [&::-moz-range-thumb]:border-none
+                                    [&::-moz-range-thumb]:rounded-sm
+                                "
+                                title="Adjust noise threshold"
+                            />
+                        </div>
+                        <CalibrationControls
+                            phase={calibration.phase}
+                            trackLevels={trackLevels}
+                            onCalibrate={handleCalibrate}
+                            onCancel={calibration.cancel}
+                            onTrackLevelsChange={setTrackLevels}
+                        />
+                    </div>
+                </>
+            )}
         </div>
       </header>
 
@@ -373,37 +991,158 @@ const App: React.FC = () => {
             <section className="col-span-1 bg-slate-900/50 border border-slate-800 rounded-xl p-4 backdrop-blur-sm h-full flex flex-col">
                 <div className="flex justify-between items-center mb-2">
                     <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Source Text</label>
+                    <button
+                        onClick={handleGenerateDrill}
+                        disabled={characterStats.chars.length === 0}
+                        className="ml-auto mr-2 flex items-center gap-1 px-2 py-0.5 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-40 border border-slate-700 text-xs text-slate-300 transition-colors"
+                        title="Generate practice lines weighted toward your weakest characters"
+                    >
+                        <Target className="w-3 h-3" />
+                        <span>Drill</span>
+                    </button>
+                    <select
+                        value={alphabet}
+                        onChange={(e) => setAlphabet(e.target.value as AlphabetId)}
+                        className="bg-slate-800 border border-slate-700 rounded text-slate-300 text-xs px-1 py-0.5 focus:outline-none"
+                        title="Extra characters on top of the international set. Prosigns: <AR>, <SK>, <BT>, <KN>..."
+                    >
+                        <option value="international">International</option>
+                        {(Object.keys(EXTENDED_ALPHABETS) as Array<keyof typeof EXTENDED_ALPHABETS>).map(id => (
+                            <option key={id} value={id}>{EXTENDED_ALPHABETS[id].label}</option>
+                        ))}
+                    </select>
                 </div>
-                <textarea
-                    value={inputText}
-                    onChange={(e) => setInputText(e.target.value)}
-                    className="w-full flex-1 bg-slate-950 border border-slate-700 rounded-lg p-3 font-mono text-xs text-slate-300 focus:ring-1 focus:ring-blue-500 outline-none resize-none"
-                    placeholder="Enter text..."
+                <TextLibraryControls
+                    sets={textLibrary.sets}
+                    activeSet={textLibrary.activeSet}
+                    onSelect={handleSelectTextSet}
+                    onAdd={handleAddTextSet}
+                    onRename={textLibrary.renameSet}
+                    onDelete={handleDeleteTextSet}
+                    onImport={handleImportTextSet}
                 />
+                <PracticeTextControls onGenerate={loadSourceText} />
+                {isLineHidden ? (
+                    <div className="w-full flex-1 flex items-center justify-center bg-slate-950 border border-slate-700 rounded-lg p-3 text-xs text-slate-500 text-center">
+                        Text hidden until this line has been checked
+                    </div>
+                ) : (
+                    <textarea
+                        value={inputText}
+                        onChange={(e) => textLibrary.updateActiveText(e.target.value)}
+                        className="w-full flex-1 bg-slate-950 border border-slate-700 rounded-lg p-3 font-mono text-xs text-slate-300 focus:ring-1 focus:ring-blue-500 outline-none resize-none"
+                        placeholder="One line per attempt. # starts a comment; end a line with &quot;| wpm=20&quot; to set its speed."
+                    />
+                )}
             </section>
 
             <section className="col-span-1 md:col-span-2 flex flex-col justify-center items-center bg-slate-900 rounded-xl border border-slate-700 p-6 relative overflow-hidden min-h-[160px]">
-                <div className="absolute top-2 right-4 text-xs text-slate-500">
-                    Line {currentLineIndex + 1}/{lines.length}
-                </div>
-                <div className="text-center">
-                    <p className="text-4xl md:text-5xl font-mono tracking-widest text-white drop-shadow-lg break-all">
-                        {currentLineText}
-                    </p>
-                </div>
+                {flow.isFinished && (
+                    <SessionSummary summary={flow.summary} onRestart={handlePracticeAgain} onClose={flow.dismissSummary} />
+                )}
+                {!isLineHidden && (
+                    <div className="absolute top-2 right-4 text-xs text-slate-500">
+                        Line {currentLineIndex + 1}/{lines.length}
+                        {currentLineResult && (
+                            <span className={`ml-2 ${currentLineResult.passed ? 'text-green-400' : 'text-slate-400'}`} title="Best score on this line this session">
+                                best {currentLineResult.bestScore}
+                            </span>
+                        )}
+                    </div>
+                )}
+                {reviewAttempt && (
+                    <div className="absolute top-2 left-4 flex items-center gap-2 text-xs text-blue-400">
+                        <History className="w-3 h-3" />
+                        <span>
+                            Reviewing {reviewAttempt.sessionId === IMPORTED_SESSION_ID ? 'imported ' : ''}attempt
+                            from {new Date(reviewAttempt.timestamp).toLocaleString()}
+                        </span>
+                        <button
+                            onClick={() => setReviewAttempt(null)}
+                            className="p-0.5 rounded hover:bg-slate-800 text-slate-400 hover:text-white"
+                            title="Back to live"
+                        >
+                            <X className="w-3 h-3" />
+                        </button>
+                    </div>
+                )}
+                {mode === 'copy' ? (
+                    <CopyPractice
+                        lineText={currentLineText}
+                        alphabet={alphabet}
+                        isPlaying={player.isPlaying}
+                        onPlay={() => handlePlay('ideal')}
+                        onStop={stopPlayback}
+                        onCheck={handleCopyCheck}
+                        onNext={handleNextLine}
+                    />
+                ) : mode === 'echo' ? (
+                    <EchoDrillPanel
+                        lineText={currentLineText}
+                        phase={echo.phase}
+                        result={echo.result}
+                        diff={decodedDiff}
+                        streak={echo.streak}
+                        settings={echo.settings}
+                        wpm={echo.rampedWpm ?? wpm}
+                        passScore={flow.settings.passScore}
+                        onCue={echo.cue}
+                        onSettingsChange={echo.setSettings}
+                    />
+                ) : (
+                    <div className="text-center flex flex-col gap-4">
+                        <p className="text-4xl md:text-5xl font-mono tracking-widest text-white drop-shadow-lg break-all">
+                            {viewLineText}
+                        </p>
+                        <DecodedDiff ops={decodedDiff} />
+                    </div>
+                )}
             </section>
         </div>
 
-        {/* Visualization */}
-        <section className="w-full bg-slate-900 rounded-xl p-4 border border-slate-800 shadow-2xl overflow-hidden min-h-[200px]">
-            <Timeline 
-                idealSignals={idealSignals} 
-                userSignals={userSignals} 
-                wpm={wpm}
-                isListening={isListening}
-                activeSignal={activeSignal}
-            />
-        </section>
+        {/* Receive errors take the place of the sending analysis in copy mode */}
+        {mode === 'copy' && (
+            <section className="w-full bg-slate-900 rounded-xl p-4 border border-slate-800">
+                <ReceiveStatsPanel stats={receiveStats} records={copyHistory} onClear={handleClearCopyHistory} />
+            </section>
+        )}
+
+        {/* In the echo drill the analysis would give the line away, so it waits for the judgement */}
+        {(mode === 'send' || (mode === 'echo' && echo.phase === 'judged')) && (
+            <>
+                {/* Visualization */}
+                <section className="w-full bg-slate-900 rounded-xl p-4 border border-slate-800 shadow-2xl overflow-hidden min-h-[200px]">
+                    <Timeline 
+                        idealSignals={idealSignals} 
+                        userSignals={viewSignals} 
+                        wpm={viewWpm}
+                        isListening={isListening && !reviewAttempt}
+                        activeSignal={activeSignal}
+                        playhead={player.playingTrack && player.playbackTime !== null
+                            ? { time: player.playbackTime, track: player.playingTrack }
+                            : undefined}
+                    />
+                </section>
+
+                {/* Timing Distribution */}
+                <section className="w-full bg-slate-900 rounded-xl p-4 border border-slate-800">
+                    <TimingCharts signals={viewSignals} wpm={viewWpm} sessionAttempts={viewSessionAttempts} />
+                </section>
+
+                {/* Fist Analysis */}
+                <section className="w-full bg-slate-900 rounded-xl p-4 border border-slate-800">
+                    <FistMetricsPanel metrics={metrics} keyerGenerated={viewPaddle !== null} />
+                    {paddleMetrics && (
+                        <div className="mt-4 pt-4 border-t border-slate-800">
+                            <PaddleMetricsPanel metrics={paddleMetrics} />
+                        </div>
+                    )}
+                    <div className="mt-4 pt-4 border-t border-slate-800">
+                        <CoachPanel input={coachingInput} />
+                    </div>
+                </section>
+            </>
+        )}
 
         {/* Controls */}
         <div className="flex flex-col items-center gap-2 pb-8">
@@ -417,34 +1156,118 @@ const App: React.FC = () => {
                     <ChevronLeft className="w-5 h-5" />
                 </button>
 
-                <button 
-                    onClick={handleRestart}
-                    className={`flex items-center gap-2 px-8 py-3 rounded-full font-bold shadow-lg transition-all transform hover:-translate-y-0.5 ${
-                        isListening 
-                        ? 'bg-slate-700 hover:bg-slate-600 text-white' 
-                        : 'bg-green-600 hover:bg-green-500 text-white hover:shadow-green-500/20'
-                    }`}
-                    title="Restart Recording (Up/Down Arrow)"
-                >
-                    <RotateCcw className="w-5 h-5" />
-                    <span>{isListening ? 'Restart' : 'Start'}</span>
-                </button>
+                {mode === 'send' && (
+                    <button 
+                        onClick={handleRestart}
+                        className={`flex items-center gap-2 px-8 py-3 rounded-full font-bold shadow-lg transition-all transform hover:-translate-y-0.5 ${
+                            isListening 
+                            ? 'bg-slate-700 hover:bg-slate-600 text-white' 
+                            : 'bg-green-600 hover:bg-green-500 text-white hover:shadow-green-500/20'
+                        }`}
+                        title="Restart Recording (Up/Down Arrow)"
+                    >
+                        <RotateCcw className="w-5 h-5" />
+                        <span>{isListening ? 'Restart' : 'Start'}</span>
+                    </button>
+                )}
 
                 <button 
                     onClick={handleNextLine}
-                    disabled={currentLineIndex >= lines.length - 1}
+                    disabled={lines.length === 0 || !canAdvance}
                     className="p-3 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-300 rounded-full font-semibold transition-all border border-slate-700"
-                    title="Next Line (Right Arrow)"
+                    title={!canAdvance
+                        ? `Score ${flow.settings.passScore} or more to move on`
+                        : currentLineIndex >= lines.length - 1 ? 'Finish session (Right Arrow)' : 'Next Line (Right Arrow)'}
                 >
                     <ChevronRight className="w-5 h-5" />
                 </button>
             </section>
             
+            {/* Direct key: lights while the key is down; with keyboard / mouse it is also the key itself */}
+            {mode !== 'copy' && !isMicrophone && (
+                <div
+                    {...(inputSource === 'keyboard' ? { [KEY_PAD_ATTRIBUTE]: true } : {})}
+                    className={`select-none w-48 py-3 rounded-xl border text-center text-xs font-bold uppercase transition-colors ${
+                        isSignalOn ? 'bg-green-500 border-green-400 text-slate-950' : 'bg-slate-800 border-slate-700 text-slate-400'
+                    } ${inputSource === 'keyboard' ? 'cursor-pointer' : ''}`}
+                >
+                    {!isListening
+                        ? mode === 'echo' ? 'Wait for the call' : 'Press Start to key'
+                        : inputSource !== 'keyboard'
+                            ? 'Key'
+                            : keyer.mode === 'straight'
+                                ? 'Key: space or click here'
+                                : 'Paddles: [ ] / Ctrl or left/right click'}
+                </div>
+            )}
+
             <p className="text-slate-500 text-xs font-mono">
-                (use keyboard left/right, down for restart)
+                {mode === 'copy'
+                    ? '(Enter plays, checks, then moves on)'
+                    : `(use keyboard left/right, down for ${mode === 'echo' ? 'the call again' : 'restart'})`}
             </p>
+
+            <SidetoneControls
+                options={sidetone}
+                playingTrack={player.playingTrack}
+                canPlayUser={viewSignals.some(s => s.state === 'on')}
+                onChange={setSidetone}
+                onPlay={handlePlay}
+                onStop={stopPlayback}
+            />
+
+            {mode !== 'copy' && (
+                <>
+                    <AudioFileControls
+                        canSaveRecording={!reviewAttempt && userSignals.some(s => s.state === 'on') && hasRecording()}
+                        onAnalyzeFile={handleAnalyzeFile}
+                        onSaveRecording={handleSaveRecording}
+                    />
+
+                    <ExportControls
+                        canExport={viewSignals.some(s => s.state === 'on')}
+                        onExportJson={handleExportJson}
+                        onExportCsv={handleExportCsv}
+                        onCopyLink={handleCopyLink}
+                        onImport={handleImport}
+                    />
+                </>
+            )}
+
+            <KeyCommandSettings
+                enabled={keyCommandsEnabled}
+                commands={keyCommands}
+                onEnabledChange={setKeyCommandsEnabled}
+                onCommandsChange={setKeyCommands}
+            />
+
+            <button
+                onClick={() => setShowHistory(prev => !prev)}
+                className={`flex items-center gap-2 px-3 py-1 rounded-full text-xs border transition-colors ${
+                    showHistory ? 'bg-slate-700 border-slate-600 text-white' : 'bg-slate-900 border-slate-800 text-slate-400 hover:text-white'
+                }`}
+            >
+                <History className="w-3 h-3" />
+                <span>{showHistory ? 'Hide history' : 'Show history'} ({history.length})</span>
+            </button>
         </div>
 
+        {/* History */}
+        {showHistory && (
+            <section className="w-full bg-slate-900 rounded-xl p-4 border border-slate-800 mb-8">
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <HistoryPanel
+                        attempts={history}
+                        currentSessionId={sessionRef.current.id}
+                        reviewingId={reviewAttempt?.id}
+                        onOpen={setReviewAttempt}
+                        onDelete={handleDeleteAttempt}
+                    />
+                    <WeakCharsPanel stats={characterStats} onGenerateDrill={handleGenerateDrill} />
+                </div>
+            </section>
+        )}
+
       </main>
     </div>
   );
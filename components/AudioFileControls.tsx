@@ -0,0 +1,65 @@
+import React, { useRef, useState } from 'react';
+import { Download, FileAudio, Loader2 } from 'lucide-react';
+
+interface AudioFileControlsProps {
+  canSaveRecording: boolean;
+  onAnalyzeFile: (file: File) => Promise<void>;
+  onSaveRecording: () => void;
+}
+
+const buttonClass = "flex items-center gap-1 px-3 py-1 rounded-full border bg-slate-900 border-slate-800 text-slate-400 hover:text-white transition-colors disabled:opacity-40";
+
+const AudioFileControls: React.FC<AudioFileControlsProps> = ({ canSaveRecording, onAnalyzeFile, onSaveRecording }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsAnalyzing(true);
+    setError(null);
+    try {
+      await onAnalyzeFile(file);
+    } catch (e) {
+      console.error("Error analyzing audio file:", e);
+      setError(`Could not decode ${file.name}`);
+    } finally {
+      setIsAnalyzing(false);
+      // Allow picking the same file again
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 text-xs text-slate-400">
+      <input
+        ref={inputRef}
+        type="file"
+        accept="audio/*,.wav,.mp3,.ogg"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={isAnalyzing}
+        className={buttonClass}
+        title="Run a WAV, MP3 or OGG recording through the keying detector as an attempt on this line"
+      >
+        {isAnalyzing ? <Loader2 className="w-3 h-3 animate-spin" /> : <FileAudio className="w-3 h-3" />}
+        <span>Analyze file</span>
+      </button>
+      <button
+        onClick={onSaveRecording}
+        disabled={!canSaveRecording}
+        className={buttonClass}
+        title="Download the raw microphone audio of this attempt"
+      >
+        <Download className="w-3 h-3" />
+        <span>Save WAV</span>
+      </button>
+      {error && <span className="text-red-400">{error}</span>}
+    </div>
+  );
+};
+
+export default AudioFileControls;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Crosshair, X } from 'lucide-react';
+import { CalibrationPhase } from '../types';
+
+interface CalibrationControlsProps {
+  phase: CalibrationPhase;
+  trackLevels: boolean;
+  onCalibrate: () => void;
+  onCancel: () => void;
+  onTrackLevelsChange: (enabled: boolean) => void;
+}
+
+const PHASE_TEXT: Record<CalibrationPhase, string | null> = {
+  idle: null,
+  noise: 'Quiet please…',
+  tone: 'Send a few long dahs…',
+  done: 'Calibrated',
+  failed: 'Tone too weak, try again',
+};
+
+const CalibrationControls: React.FC<CalibrationControlsProps> = ({ phase, trackLevels, onCalibrate, onCancel, onTrackLevelsChange }) => {
+  const isCalibrating = phase === 'noise' || phase === 'tone';
+  const text = PHASE_TEXT[phase];
+
+  return (
+    <div className="flex items-center gap-2 text-[10px] text-slate-400">
+      {isCalibrating ? (
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1 px-1.5 rounded bg-slate-800 hover:bg-slate-700 border border-slate-700 transition-colors"
+        >
+          <X className="w-3 h-3" />
+          <span>Cancel</span>
+        </button>
+      ) : (
+        <button
+          onClick={onCalibrate}
+          className="flex items-center gap-1 px-1.5 rounded bg-slate-800 hover:bg-slate-700 text-blue-400 border border-slate-700 transition-colors"
+          title="Measure the noise floor, then your tone, and set the thresholds from them"
+        >
+          <Crosshair className="w-3 h-3" />
+          <span>Calibrate</span>
+        </button>
+      )}
+      <label className="flex items-center gap-1 cursor-pointer" title="Keep adjusting the thresholds to slow changes in noise and tone level">
+        <input
+          type="checkbox"
+          checked={trackLevels}
+          onChange={(e) => onTrackLevelsChange(e.target.checked)}
+          className="accent-blue-500"
+        />
+        <span>Track</span>
+      </label>
+      {text && (
+        <span className={phase === 'failed' ? 'text-red-400' : isCalibrating ? 'text-yellow-400' : 'text-green-400'}>{text}</span>
+      )}
+    </div>
+  );
+};
+
+export default CalibrationControls;
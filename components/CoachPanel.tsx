@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GraduationCap, Loader2 } from 'lucide-react';
+import { CoachingInput, CoachingTip, CoachingTopic } from '../types';
+import { COACHING_PROVIDERS } from '../services/coachingProviders';
+
+interface CoachPanelProps {
+  input: CoachingInput | null; // null until there is an analysed attempt
+}
+
+const TOPIC_COLORS: Record<CoachingTopic, string> = {
+  decoding: 'bg-red-500',
+  spacing: 'bg-amber-500',
+  ratio: 'bg-blue-500',
+  consistency: 'bg-purple-500',
+  speed: 'bg-cyan-500',
+  general: 'bg-slate-500',
+};
+
+const CoachPanel: React.FC<CoachPanelProps> = ({ input }) => {
+  const [providerId, setProviderId] = useState('local');
+  const [tips, setTips] = useState<CoachingTip[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped for every request and every new attempt, so a late reply can tell it is stale
+  const requestRef = useRef(0);
+
+  const providers = COACHING_PROVIDERS.filter(p => p.isAvailable());
+  const provider = providers.find(p => p.id === providerId) ?? providers[0];
+  // The local rules are instant and free, so they follow every attempt; remote ones wait for a click
+  const isAutomatic = provider.id === 'local';
+
+  const requestAdvice = async () => {
+    if (!input) return;
+    const request = ++requestRef.current;
+    setError(null);
+    setIsBusy(true);
+    try {
+      const advice = await provider.coach(input);
+      if (request === requestRef.current) setTips(advice);
+    } catch (e) {
+      console.error("Error getting coaching advice:", e);
+      if (request === requestRef.current) setError(e instanceof Error ? e.message : 'Coaching failed');
+    } finally {
+      if (request === requestRef.current) setIsBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    // Advice still on its way is for the previous attempt
+    requestRef.current++;
+    setIsBusy(false);
+    setTips([]);
+    setError(null);
+    if (isAutomatic && input) requestAdvice();
+  }, [input, provider]);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase">
+        <GraduationCap className="w-3 h-3" />
+        <span>Coach</span>
+        <div className="ml-auto flex items-center gap-2 normal-case font-normal">
+          {providers.length > 1 && (
+            <select
+              value={provider.id}
+              onChange={(e) => setProviderId(e.target.value)}
+              className="bg-slate-800 border border-slate-700 rounded text-slate-300 text-xs px-1 py-0.5 focus:outline-none"
+              title="Built-in rules work offline; Gemini sends these metrics to the language model"
+            >
+              {providers.map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+          )}
+          {!isAutomatic && (
+            <button
+              onClick={requestAdvice}
+              disabled={!input || isBusy}
+              className="flex items-center gap-1 px-2 py-0.5 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-40 border border-slate-700 text-xs text-slate-300 transition-colors"
+            >
+              {isBusy && <Loader2 className="w-3 h-3 animate-spin" />}
+              <span>Ask</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!input ? (
+        <div className="text-slate-500 text-sm">Send the line to get advice on your sending.</div>
+      ) : (
+        <ul className="flex flex-col gap-1.5">
+          {tips.map((tip, i) => (
+            <li key={i} className="flex items-start gap-2 text-sm text-slate-300">
+              <span className={`mt-1.5 w-1.5 h-1.5 rounded-full shrink-0 ${TOPIC_COLORS[tip.topic]}`} title={tip.topic} />
+              <span>{tip.text}</span>
+            </li>
+          ))}
+          {tips.length === 0 && !isBusy && !error && !isAutomatic && (
+            <li className="text-slate-500 text-sm">Ask {provider.label} for advice on this attempt.</li>
+          )}
+        </ul>
+      )}
+      {error && <div className="text-xs text-red-400">{error}</div>}
+    </div>
+  );
+};
+
+export default CoachPanel;
@@ -0,0 +1,133 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, CornerDownLeft, Play, Square } from 'lucide-react';
+import { AlphabetId, DiffOp, MorseChar } from '../types';
+import { copyScore, diffCopy } from '../utils/receiveScoring';
+import DecodedDiff from './DecodedDiff';
+
+interface CopyPracticeProps {
+  lineText: string;
+  alphabet: AlphabetId;
+  isPlaying: boolean;
+  onPlay: () => void;
+  onStop: () => void;
+  onCheck: (typed: string, plays: number, score: number) => void;
+  onNext: () => void;
+}
+
+interface CopyResult {
+  ops: DiffOp<MorseChar>[];
+  score: number;
+}
+
+/**
+ * Receive practice on the active line: the line stays hidden while it is played (as often
+ * as asked for), then the typed copy is checked character by character and the line shown.
+ * Enter checks, and after checking moves on to the next line.
+ */
+const CopyPractice: React.FC<CopyPracticeProps> = ({ lineText, alphabet, isPlaying, onPlay, onStop, onCheck, onNext }) => {
+  const [typed, setTyped] = useState('');
+  const [plays, setPlays] = useState(0);
+  const [result, setResult] = useState<CopyResult | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // A new line starts a fresh copy
+  useEffect(() => {
+    setTyped('');
+    setPlays(0);
+    setResult(null);
+    inputRef.current?.focus();
+  }, [lineText, alphabet]);
+
+  const play = () => {
+    setPlays(p => p + 1);
+    onPlay();
+    inputRef.current?.focus();
+  };
+
+  const check = () => {
+    if (result) return;
+    onStop();
+    const ops = diffCopy(lineText, typed, alphabet);
+    const score = copyScore(ops);
+    setResult({ ops, score });
+    onCheck(typed, plays, score);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    if (result) onNext();
+    else if (typed.trim()) check();
+    else play();
+  };
+
+  return (
+    <div className="w-full flex flex-col items-center gap-4">
+      {result ? (
+        <p className="text-4xl md:text-5xl font-mono tracking-widest text-white drop-shadow-lg break-all">{lineText}</p>
+      ) : (
+        <p className="text-4xl md:text-5xl font-mono tracking-widest text-slate-700 select-none" title="Hidden until you check your copy">
+          {'?'.repeat(Math.min(lineText.length, 12))}
+        </p>
+      )}
+
+      <div className="flex items-center gap-2 w-full max-w-xl">
+        <button
+          onClick={isPlaying ? onStop : play}
+          className={`flex items-center gap-1 px-3 py-2 rounded-lg border text-sm font-semibold transition-colors ${
+            isPlaying ? 'bg-slate-700 border-slate-600 text-white' : 'bg-blue-600 hover:bg-blue-500 border-blue-500 text-white'
+          }`}
+          title={plays === 0 ? 'Play the line (Enter in an empty box)' : 'Play it again'}
+        >
+          {isPlaying ? <Square className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          <span>{plays === 0 ? 'Play' : 'Again'}</span>
+        </button>
+        <input
+          ref={inputRef}
+          type="text"
+          value={typed}
+          onChange={(e) => setTyped(e.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={result !== null}
+          placeholder="Type what you hear..."
+          spellCheck={false}
+          autoComplete="off"
+          className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 font-mono text-lg text-white uppercase tracking-widest focus:ring-1 focus:ring-blue-500 outline-none disabled:opacity-60"
+        />
+        {result ? (
+          <button
+            onClick={onNext}
+            className="flex items-center gap-1 px-3 py-2 rounded-lg bg-green-600 hover:bg-green-500 text-white text-sm font-semibold transition-colors"
+            title="Next line (Enter)"
+          >
+            <CornerDownLeft className="w-4 h-4" />
+            <span>Next</span>
+          </button>
+        ) : (
+          <button
+            onClick={check}
+            disabled={!typed.trim()}
+            className="flex items-center gap-1 px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-40 border border-slate-700 text-slate-200 text-sm font-semibold transition-colors"
+            title="Check your copy (Enter)"
+          >
+            <Check className="w-4 h-4" />
+            <span>Check</span>
+          </button>
+        )}
+      </div>
+
+      <div className="text-xs text-slate-500">
+        {plays > 0 && <span>Played {plays}×</span>}
+        {result && (
+          <span className={`ml-3 font-bold ${result.score >= 90 ? 'text-green-400' : result.score >= 70 ? 'text-yellow-400' : 'text-red-400'}`}>
+            {result.score}% copied
+          </span>
+        )}
+      </div>
+
+      {result && <DecodedDiff ops={result.ops} actualVerb="typed" />}
+    </div>
+  );
+};
+
+export default CopyPractice;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { DiffOp, MorseChar } from '../types';
+
+interface DecodedDiffProps {
+  ops: DiffOp<MorseChar>[];
+  actualVerb?: string; // How the other side was produced, for the tooltips
+}
+
+// Renders a non-breaking space for word breaks so they keep their width
+const show = (c: MorseChar | undefined) => (c?.char === ' ' ? '\u00a0' : c?.char);
+
+const DecodedDiff: React.FC<DecodedDiffProps> = ({ ops, actualVerb = 'sent' }) => {
+  if (ops.length === 0) return null;
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <p className="text-2xl md:text-3xl font-mono tracking-widest break-all">
+        {ops.map((op, i) => {
+          switch (op.type) {
+            case 'match':
+              // Same code, so show the expected spelling (e.g. <AR> rather than +)
+              return <span key={i} className="text-green-400">{show(op.expected)}</span>;
+            case 'wrong':
+              return (
+                <span key={i} className="text-red-400 bg-red-500/10 rounded" title={`Expected "${op.expected?.char}" (${op.expected?.code}), ${actualVerb} ${op.actual?.code}`}>
+                  {show(op.actual)}
+                </span>
+              );
+            case 'missing':
+              return (
+                <span key={i} className="text-slate-600 underline decoration-dashed" title={`Missing "${op.expected?.char}"`}>
+                  {op.expected?.char === ' ' ? '_' : op.expected?.char}
+                </span>
+              );
+            case 'extra':
+              return (
+                <span key={i} className="text-amber-400 bg-amber-500/10 rounded line-through" title={`Extra (${op.actual?.code})`}>
+                  {op.actual?.char === ' ' ? '_' : op.actual?.char}
+                </span>
+              );
+          }
+        })}
+      </p>
+      <div className="flex gap-4 text-[10px] uppercase text-slate-500">
+        <span className="text-green-400">Correct</span>
+        <span className="text-red-400">Wrong</span>
+        <span className="text-slate-500 underline decoration-dashed">Missing</span>
+        <span className="text-amber-400 line-through">Extra</span>
+      </div>
+    </div>
+  );
+};
+
+export default DecodedDiff;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { AudioWaveform } from 'lucide-react';
+import { DetectionMode, ToneDetectionConfig } from '../types';
+
+interface DetectionControlsProps {
+  config: ToneDetectionConfig;
+  lockedPitch: number | null;
+  isListening: boolean;
+  onChange: (config: ToneDetectionConfig) => void;
+}
+
+const inputClass = "w-14 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm px-2 py-1 focus:outline-none text-center font-mono [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none disabled:opacity-40";
+
+const DetectionControls: React.FC<DetectionControlsProps> = ({ config, lockedPitch, isListening, onChange }) => {
+  const update = (patch: Partial<ToneDetectionConfig>) => onChange({ ...config, ...patch });
+
+  const parse = (value: string, min: number, max: number, fallback: number) => {
+    const v = parseFloat(value);
+    return Number.isFinite(v) ? Math.max(min, Math.min(max, v)) : fallback;
+  };
+
+  const toneMode = config.mode === 'tone';
+
+  // What the detector is listening to right now
+  const status = !toneMode
+    ? 'any sound'
+    : lockedPitch !== null
+      ? `locked ${lockedPitch} Hz`
+      : config.autoPitch && isListening ? 'searching…' : null;
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase">
+        <AudioWaveform className="w-3 h-3" />
+        <span>Detection</span>
+        {status && <span className="normal-case font-mono font-normal text-[10px] text-slate-500">{status}</span>}
+      </div>
+      <div className="flex items-center gap-3 text-[10px] text-slate-500 uppercase">
+        <label className="flex flex-col gap-0.5" title="Tone listens only around the sidetone pitch, so noise and speech don't key it">
+          <span>Mode</span>
+          <select
+            value={config.mode}
+            onChange={(e) => update({ mode: e.target.value as DetectionMode })}
+            className="bg-slate-800 border border-slate-700 rounded-lg text-white text-xs px-1 py-1.5 focus:outline-none"
+          >
+            <option value="tone">Tone</option>
+            <option value="broadband">Broadband</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-0.5" title="Sidetone pitch. With Auto, used only if no tone is found.">
+          <span className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={config.autoPitch}
+              disabled={!toneMode}
+              onChange={(e) => update({ autoPitch: e.target.checked })}
+              className="accent-blue-500"
+            />
+            Auto Hz
+          </span>
+          <input
+            type="number"
+            min="300"
+            max="1500"
+            step="10"
+            value={config.pitch}
+            disabled={!toneMode}
+            onChange={(e) => update({ pitch: parse(e.target.value, 300, 1500, config.pitch) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-0.5" title="Filter bandwidth. Narrower rejects more noise but rounds off fast keying.">
+          <span>BW Hz</span>
+          <input
+            type="number"
+            min="20"
+            max="500"
+            step="10"
+            value={config.bandwidth}
+            disabled={!toneMode}
+            onChange={(e) => update({ bandwidth: parse(e.target.value, 20, 500, config.bandwidth) })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default DetectionControls;
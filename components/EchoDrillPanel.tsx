@@ -0,0 +1,140 @@
+import React from 'react';
+import { CheckCircle2, Play, Radio, XCircle } from 'lucide-react';
+import { DiffOp, EchoDrillSettings, EchoPhase, EchoResult, MorseChar } from '../types';
+import DecodedDiff from './DecodedDiff';
+
+interface EchoDrillPanelProps {
+  lineText: string;
+  phase: EchoPhase;
+  result: EchoResult | null;
+  diff: DiffOp<MorseChar>[];
+  streak: number;
+  settings: EchoDrillSettings;
+  wpm: number;
+  passScore: number;
+  onCue: () => void;
+  onSettingsChange: (settings: EchoDrillSettings) => void;
+}
+
+const PHASE_LABELS: Record<EchoPhase, string> = {
+  idle: 'Press Go, listen, then send back what you heard',
+  cue: 'Listen...',
+  playing: 'Listen...',
+  reply: 'Your turn: send it back',
+  judging: 'Checking...',
+  judged: '',
+  failed: "The line couldn't be played; press Again to retry",
+};
+
+const inputClass = "w-12 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm px-2 py-1 focus:outline-none text-center font-mono [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none";
+
+// The active line in the echo drill: hidden until the reply has been judged
+const EchoDrillPanel: React.FC<EchoDrillPanelProps> = ({
+  lineText, phase, result, diff, streak, settings, wpm, passScore, onCue, onSettingsChange
+}) => {
+  const update = (patch: Partial<EchoDrillSettings>) => onSettingsChange({ ...settings, ...patch });
+  const isBusy = phase === 'cue' || phase === 'playing';
+  const nextWpm = Math.min(settings.maxWpm, wpm + settings.rampStep);
+
+  return (
+    <div className="w-full flex flex-col items-center gap-4">
+      {result ? (
+        <p className="text-4xl md:text-5xl font-mono tracking-widest text-white drop-shadow-lg break-all">{lineText}</p>
+      ) : (
+        <p className="text-4xl md:text-5xl font-mono tracking-widest text-slate-700 select-none" title="Hidden until your reply is checked">
+          {'?'.repeat(Math.min(lineText.length, 12))}
+        </p>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={onCue}
+          disabled={isBusy || lineText.length === 0}
+          className="flex items-center gap-1 px-4 py-2 rounded-full bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-sm font-semibold transition-colors"
+          title="Play the line, then listen for your reply (Up/Down Arrow)"
+        >
+          <Play className="w-4 h-4" />
+          <span>{phase === 'idle' ? 'Go' : 'Again'}</span>
+        </button>
+        {result ? (
+          <div className="flex items-center gap-3 text-sm">
+            <span className={`flex items-center gap-1 font-semibold ${result.copied ? 'text-green-400' : 'text-red-400'}`}>
+              {result.copied ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+              {result.copied ? 'Copied' : 'Miscopied'}
+            </span>
+            <span
+              className={`font-mono ${result.timingScore >= passScore ? 'text-green-400' : 'text-yellow-400'}`}
+              title={`Timing score of your reply; ${passScore} or more passes`}
+            >
+              timing {result.timingScore}
+            </span>
+          </div>
+        ) : (
+          <span className={`flex items-center gap-2 text-sm ${phase === 'failed' ? 'text-red-400' : 'text-slate-400'}`}>
+            {phase === 'reply' && <Radio className="w-4 h-4 text-green-400 animate-pulse" />}
+            {PHASE_LABELS[phase]}
+          </span>
+        )}
+      </div>
+
+      {result && <DecodedDiff ops={diff} />}
+
+      <div className="flex items-center gap-4 text-[10px] text-slate-500 uppercase">
+        <span
+          className="flex items-center gap-1 normal-case text-xs"
+          title={`Pass ${settings.rampAfter} in a row to go up to ${nextWpm.toFixed(1)} WPM`}
+        >
+          {Array.from({ length: settings.rampAfter }, (_, i) => (
+            <span key={i} className={`w-2 h-2 rounded-full ${i < streak ? 'bg-green-400' : 'bg-slate-700'}`} />
+          ))}
+          <span className="ml-1 font-mono text-slate-400">{wpm.toFixed(1)} WPM</span>
+        </span>
+        <label className="flex items-center gap-1" title="Passing replies in a row before the speed goes up">
+          <span>Ramp after</span>
+          <input
+            type="number"
+            min="1"
+            max="10"
+            value={settings.rampAfter}
+            onChange={(e) => {
+              const v = parseInt(e.target.value, 10);
+              if (Number.isFinite(v)) update({ rampAfter: Math.max(1, Math.min(10, v)) });
+            }}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-1" title="WPM added at each step">
+          <span>Step</span>
+          <input
+            type="number"
+            min="0.5"
+            max="5"
+            step="0.5"
+            value={settings.rampStep}
+            onChange={(e) => {
+              const v = parseFloat(e.target.value);
+              if (Number.isFinite(v)) update({ rampStep: Math.max(0.5, Math.min(5, v)) });
+            }}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-1" title="The speed stops going up here">
+          <span>Max</span>
+          <input
+            type="number"
+            min="5"
+            max="40"
+            value={settings.maxWpm}
+            onChange={(e) => {
+              const v = parseFloat(e.target.value);
+              if (Number.isFinite(v)) update({ maxWpm: Math.max(5, Math.min(40, v)) });
+            }}
+            className={inputClass}
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default EchoDrillPanel;
@@ -0,0 +1,97 @@
+import React, { useRef, useState } from 'react';
+import { Check, FileJson, FileSpreadsheet, Link, Upload } from 'lucide-react';
+
+interface ExportControlsProps {
+  canExport: boolean;
+  onExportJson: () => void;
+  onExportCsv: () => void;
+  onCopyLink: () => Promise<void>;
+  onImport: (file: File) => Promise<void>;
+}
+
+const buttonClass = "flex items-center gap-1 px-3 py-1 rounded-full border bg-slate-900 border-slate-800 text-slate-400 hover:text-white transition-colors disabled:opacity-40";
+
+// How long the "copied" tick stays on the link button (ms)
+const COPIED_MS = 2000;
+
+const ExportControls: React.FC<ExportControlsProps> = ({ canExport, onExportJson, onExportCsv, onCopyLink, onImport }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCopy = async () => {
+    setError(null);
+    try {
+      await onCopyLink();
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), COPIED_MS);
+    } catch (e) {
+      console.error("Error copying link:", e);
+      setError('Could not copy the link');
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      await onImport(file);
+    } catch (e) {
+      console.error("Error importing attempt:", e);
+      setError(`Could not import ${file.name}: ${e instanceof Error ? e.message : 'unknown format'}`);
+    } finally {
+      // Allow picking the same file again
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 text-xs text-slate-400">
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,.csv,application/json,text/csv"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      <button
+        onClick={onExportJson}
+        disabled={!canExport}
+        className={buttonClass}
+        title="Download this attempt with its ideal timing, settings and metrics as JSON"
+      >
+        <FileJson className="w-3 h-3" />
+        <span>JSON</span>
+      </button>
+      <button
+        onClick={onExportCsv}
+        disabled={!canExport}
+        className={buttonClass}
+        title="Download the ideal and keyed intervals as CSV, with the settings and scores in # rows"
+      >
+        <FileSpreadsheet className="w-3 h-3" />
+        <span>CSV</span>
+      </button>
+      <button
+        onClick={handleCopy}
+        disabled={!canExport}
+        className={buttonClass}
+        title="Copy a link that opens this attempt in any browser"
+      >
+        {copied ? <Check className="w-3 h-3 text-green-400" /> : <Link className="w-3 h-3" />}
+        <span>{copied ? 'Copied' : 'Copy link'}</span>
+      </button>
+      <button
+        onClick={() => inputRef.current?.click()}
+        className={buttonClass}
+        title="Open an exported JSON or CSV attempt for review"
+      >
+        <Upload className="w-3 h-3" />
+        <span>Import</span>
+      </button>
+      {error && <span className="text-red-400">{error}</span>}
+    </div>
+  );
+};
+
+export default ExportControls;
@@ -0,0 +1,149 @@
+import React from 'react';
+import { Activity } from 'lucide-react';
+import { ElementKind, FistMetrics, TimingRatios } from '../types';
+import { ErrorSeverity, errorSeverity } from '../utils/fistAnalysis';
+
+interface FistMetricsPanelProps {
+  metrics: FistMetrics | null;
+  keyerGenerated?: boolean; // Marks and element gaps came from the software keyer
+}
+
+// What the keyer times by itself; only the gaps between letters and words are the operator's
+const KEYER_KINDS: ElementKind[] = ['dit', 'dah', 'intra'];
+
+const KIND_LABELS: Record<ElementKind, string> = {
+  dit: 'Dit',
+  dah: 'Dah',
+  intra: 'Element gap',
+  char: 'Letter gap',
+  word: 'Word gap',
+};
+
+const RATIO_LABELS: Record<keyof TimingRatios, string> = {
+  dah: 'Dah / Dit',
+  intra: 'Element gap / Dit',
+  char: 'Letter gap / Dit',
+  word: 'Word gap / Dit',
+};
+
+const scoreColor = (score: number) => {
+  if (score >= 80) return 'text-green-400';
+  if (score >= 60) return 'text-yellow-400';
+  return 'text-red-400';
+};
+
+const SEVERITY_CLASSES: Record<ErrorSeverity, string> = {
+  good: 'bg-green-500',
+  fair: 'bg-yellow-500',
+  poor: 'bg-red-500',
+};
+
+const errorColor = (errorUnits: number) => SEVERITY_CLASSES[errorSeverity(errorUnits)];
+
+const ms = (seconds: number) => `${Math.round(seconds * 1000)}`;
+
+const FistMetricsPanel: React.FC<FistMetricsPanelProps> = ({ metrics, keyerGenerated = false }) => {
+  if (!metrics) {
+    return (
+      <div className="text-slate-500 text-sm text-center py-4">
+        Send the line to see your fist analysis.
+      </div>
+    );
+  }
+
+  const ratioKeys = Object.keys(RATIO_LABELS) as Array<keyof TimingRatios>;
+  const kinds = Object.keys(KIND_LABELS) as ElementKind[];
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase">
+        <Activity className="w-3 h-3" />
+        <span>Fist Analysis</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-3">
+        {/* Overall score */}
+        <div className="col-span-2 bg-slate-950 border border-slate-800 rounded-lg p-3 flex flex-col items-center justify-center">
+          <span className={`text-4xl font-bold font-mono ${scoreColor(metrics.score)}`}>{metrics.score}</span>
+          <span className="text-xs text-slate-500 uppercase mt-1">Score</span>
+          <div className="flex gap-3 mt-2 text-[10px] text-slate-400 font-mono">
+            <span title="Dah and gap ratios against the ideal">R {metrics.ratioScore}</span>
+            <span title="Spread of each element class">C {metrics.consistencyScore}</span>
+            <span title="Deviation of each element from its ideal length">A {metrics.accuracyScore}</span>
+          </div>
+        </div>
+
+        {/* Ratios */}
+        {ratioKeys.map(key => {
+          const actual = metrics.ratios[key];
+          const target = metrics.idealRatios[key];
+          return (
+            <div key={key} className="bg-slate-950 border border-slate-800 rounded-lg p-3 flex flex-col items-center justify-center">
+              <span className="text-2xl font-mono text-white">{actual !== null ? actual.toFixed(2) : '–'}</span>
+              <span className="text-[10px] text-slate-500 uppercase mt-1 text-center">{RATIO_LABELS[key]}</span>
+              <span className="text-[10px] text-slate-600 font-mono">ideal {target !== null ? target.toFixed(2) : '–'}</span>
+            </div>
+          );
+        })}
+
+        {/* Mean error */}
+        <div className="col-span-2 bg-slate-950 border border-slate-800 rounded-lg p-3 flex flex-col items-center justify-center">
+          <span className="text-2xl font-mono text-white">{metrics.meanAbsErrorUnits.toFixed(2)}</span>
+          <span className="text-[10px] text-slate-500 uppercase mt-1">Mean error (dit units)</span>
+          <span className="text-[10px] text-slate-600 font-mono">your dit {ms(metrics.unit)} ms</span>
+          {(metrics.missingMarks > 0 || metrics.extraMarks > 0) && (
+            <span className="text-[10px] text-amber-400 font-mono">
+              {metrics.missingMarks} dropped · {metrics.extraMarks} extra
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Consistency table */}
+      <table className="w-full text-xs font-mono text-slate-300">
+        <thead>
+          <tr className="text-slate-500 uppercase text-[10px]">
+            <th className="text-left font-semibold py-1">Element</th>
+            <th className="text-right font-semibold">Count</th>
+            <th className="text-right font-semibold">Mean (ms)</th>
+            <th className="text-right font-semibold">Ideal (ms)</th>
+            <th className="text-right font-semibold">Std dev (ms)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {kinds.filter(kind => metrics.stats[kind].count > 0).map(kind => (
+            <tr key={kind} className="border-t border-slate-800">
+              <td className="py-1">
+                {KIND_LABELS[kind]}
+                {keyerGenerated && KEYER_KINDS.includes(kind) && (
+                  <span className="ml-2 text-[9px] uppercase text-slate-500" title="Timed by the keyer, not by you">keyer</span>
+                )}
+              </td>
+              <td className="text-right">{metrics.stats[kind].count}</td>
+              <td className="text-right">{ms(metrics.stats[kind].mean)}</td>
+              <td className="text-right text-slate-500">{ms(metrics.idealStats[kind].mean)}</td>
+              <td className="text-right">{ms(metrics.stats[kind].stdDev)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* Per-element errors */}
+      <div>
+        <div className="text-[10px] text-slate-500 uppercase mb-1">Per-element error</div>
+        <div className="flex gap-px items-end h-10 overflow-x-auto bg-slate-950 border border-slate-800 rounded p-1">
+          {metrics.elements.map((e, i) => (
+            <div
+              key={i}
+              className={`w-1.5 flex-shrink-0 ${errorColor(e.errorUnits)} ${e.kind === 'dit' || e.kind === 'dah' ? '' : 'opacity-50'}`}
+              style={{ height: `${Math.min(100, 10 + Math.abs(e.errorUnits) * 45)}%` }}
+              title={`${KIND_LABELS[e.kind]}: ${ms(e.userDuration)} ms (ideal ${ms(e.idealDuration)} ms, ${e.error >= 0 ? '+' : ''}${e.errorUnits.toFixed(2)} dit)`}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FistMetricsPanel;
@@ -0,0 +1,122 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Eye, History, Trash2 } from 'lucide-react';
+import { AttemptRecord } from '../types';
+import ProgressChart from './ProgressChart';
+
+interface HistoryPanelProps {
+  attempts: AttemptRecord[];
+  currentSessionId: string;
+  reviewingId?: number;
+  onOpen: (attempt: AttemptRecord) => void;
+  onDelete: (attempt: AttemptRecord) => void;
+}
+
+interface SessionSummary {
+  sessionId: string;
+  startedAt: number;
+  attempts: AttemptRecord[];
+  meanScore: number | null;
+  bestScore: number | null;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, {
+  month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
+});
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString(undefined, {
+  hour: '2-digit', minute: '2-digit', second: '2-digit'
+});
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ attempts, currentSessionId, reviewingId, onOpen, onDelete }) => {
+  const [expanded, setExpanded] = useState<string | null>(currentSessionId);
+
+  // Newest session first, attempts within a session in the order they were sent
+  const sessions = useMemo<SessionSummary[]>(() => {
+    const bySession = new Map<string, AttemptRecord[]>();
+    attempts.forEach(a => {
+      const list = bySession.get(a.sessionId) ?? [];
+      list.push(a);
+      bySession.set(a.sessionId, list);
+    });
+
+    return Array.from(bySession.entries())
+      .map(([sessionId, list]) => {
+        const scores = list.filter(a => a.metrics !== null).map(a => a.metrics!.score);
+        return {
+          sessionId,
+          startedAt: list[0].sessionStartedAt,
+          attempts: list,
+          meanScore: scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : null,
+          bestScore: scores.length > 0 ? Math.max(...scores) : null,
+        };
+      })
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }, [attempts]);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase">
+        <History className="w-3 h-3" />
+        <span>History</span>
+      </div>
+
+      <ProgressChart attempts={attempts} />
+
+      <div className="flex flex-col gap-1 max-h-96 overflow-y-auto">
+        {sessions.length === 0 && (
+          <div className="text-slate-500 text-sm text-center py-2">Attempts are saved when you restart or change lines.</div>
+        )}
+        {sessions.map(session => {
+          const isOpen = expanded === session.sessionId;
+          return (
+            <div key={session.sessionId} className="border border-slate-800 rounded-lg">
+              <button
+                onClick={() => setExpanded(isOpen ? null : session.sessionId)}
+                className="w-full flex items-center gap-3 px-3 py-2 text-left text-sm hover:bg-slate-800/50 transition-colors"
+              >
+                {isOpen ? <ChevronDown className="w-4 h-4 text-slate-500" /> : <ChevronRight className="w-4 h-4 text-slate-500" />}
+                <span className="text-slate-200">{formatDate(session.startedAt)}</span>
+                {session.sessionId === currentSessionId && (
+                  <span className="text-[10px] uppercase text-green-400">Current</span>
+                )}
+                <span className="ml-auto text-xs text-slate-400 font-mono">
+                  {session.attempts.length} attempts
+                  {session.meanScore !== null && ` · avg ${session.meanScore.toFixed(0)} · best ${session.bestScore}`}
+                </span>
+              </button>
+
+              {isOpen && (
+                <table className="w-full text-xs font-mono text-slate-300">
+                  <tbody>
+                    {session.attempts.map(a => (
+                      <tr
+                        key={a.id}
+                        className={`border-t border-slate-800 ${a.id === reviewingId ? 'bg-blue-500/10' : ''}`}
+                      >
+                        <td className="px-3 py-1 text-slate-500">{formatTime(a.timestamp)}</td>
+                        <td className="py-1 truncate max-w-xs">{a.lineText}</td>
+                        <td className="py-1 text-slate-500">{a.decodedText}</td>
+                        <td className="py-1 text-right">{a.wpm.toFixed(1)} wpm</td>
+                        <td className="py-1 text-right w-12">{a.metrics ? a.metrics.score : '–'}</td>
+                        <td className="py-1 pr-3 text-right w-16">
+                          <button onClick={() => onOpen(a)} className="p-1 text-slate-400 hover:text-blue-400" title="Open in timeline">
+                            <Eye className="w-3.5 h-3.5" />
+                          </button>
+                          <button onClick={() => onDelete(a)} className="p-1 text-slate-400 hover:text-red-400" title="Delete attempt">
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
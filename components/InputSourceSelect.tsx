@@ -0,0 +1,39 @@
+import React from 'react';
+import { Cable } from 'lucide-react';
+import { InputSource } from '../types';
+
+interface InputSourceSelectProps {
+  source: InputSource;
+  onChange: (source: InputSource) => void;
+}
+
+const SOURCE_LABELS: Record<InputSource, string> = {
+  microphone: 'Microphone',
+  keyboard: 'Keyboard / mouse',
+  midi: 'MIDI',
+  serial: 'Serial (CTS/DSR)',
+  gamepad: 'Gamepad',
+};
+
+const InputSourceSelect: React.FC<InputSourceSelectProps> = ({ source, onChange }) => {
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase">
+        <Cable className="w-3 h-3" />
+        <span>Input</span>
+      </div>
+      <select
+        value={source}
+        onChange={(e) => onChange(e.target.value as InputSource)}
+        className="bg-slate-800 border border-slate-700 rounded-lg text-white text-xs px-1 py-1.5 focus:outline-none"
+        title="Listen to a sidetone through the microphone, or read a key wired to the computer"
+      >
+        {(Object.keys(SOURCE_LABELS) as InputSource[]).map(id => (
+          <option key={id} value={id}>{SOURCE_LABELS[id]}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default InputSourceSelect;
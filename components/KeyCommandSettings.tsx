@@ -0,0 +1,52 @@
+import React from 'react';
+import { Radio } from 'lucide-react';
+import { KeyCommand, KeyCommandAction } from '../types';
+
+interface KeyCommandSettingsProps {
+  enabled: boolean;
+  commands: KeyCommand[];
+  onEnabledChange: (enabled: boolean) => void;
+  onCommandsChange: (commands: KeyCommand[]) => void;
+}
+
+const ACTION_LABELS: Record<KeyCommandAction, string> = {
+  next: 'Next',
+  prev: 'Prev',
+  restart: 'Restart',
+};
+
+const KeyCommandSettings: React.FC<KeyCommandSettingsProps> = ({ enabled, commands, onEnabledChange, onCommandsChange }) => {
+  const updateSequence = (action: KeyCommandAction, sequence: string) => {
+    onCommandsChange(commands.map(c => (c.action === action ? { ...c, sequence } : c)));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 text-xs text-slate-400">
+      <label className="flex items-center gap-1.5 cursor-pointer" title="Key a command on its own after the line, then pause">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="accent-blue-500"
+        />
+        <Radio className="w-3 h-3" />
+        <span>Key commands</span>
+      </label>
+      {commands.map(c => (
+        <label key={c.action} className={`flex items-center gap-1 ${enabled ? '' : 'opacity-40'}`}>
+          <span className="uppercase text-[10px] text-slate-500">{ACTION_LABELS[c.action]}</span>
+          <input
+            type="text"
+            value={c.sequence}
+            disabled={!enabled}
+            onChange={(e) => updateSequence(c.action, e.target.value)}
+            className="w-20 bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 font-mono text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            title='Text such as "K" or "<BK>", or a raw code such as "........"'
+          />
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default KeyCommandSettings;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Zap } from 'lucide-react';
+import { KeyerMode, KeyerSettings } from '../types';
+
+interface KeyerControlsProps {
+  settings: KeyerSettings;
+  onChange: (settings: KeyerSettings) => void;
+}
+
+const MODE_LABELS: Record<KeyerMode, string> = {
+  straight: 'Straight key',
+  'iambic-a': 'Iambic A',
+  'iambic-b': 'Iambic B',
+  ultimatic: 'Ultimatic',
+};
+
+const inputClass = "w-12 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm px-2 py-1 focus:outline-none text-center font-mono [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none disabled:opacity-40";
+
+const KeyerControls: React.FC<KeyerControlsProps> = ({ settings, onChange }) => {
+  const update = (patch: Partial<KeyerSettings>) => onChange({ ...settings, ...patch });
+
+  const parse = (value: string, min: number, max: number, fallback: number) => {
+    const v = parseFloat(value);
+    return Number.isFinite(v) ? Math.max(min, Math.min(max, v)) : fallback;
+  };
+
+  const paddles = settings.mode !== 'straight';
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase">
+        <Zap className="w-3 h-3" />
+        <span>Keyer</span>
+      </div>
+      <div className="flex items-center gap-3 text-[10px] text-slate-500 uppercase">
+        <label className="flex flex-col gap-0.5" title="Straight passes the key through. The keyer modes treat the two contacts as dit and dah paddles and send at the set speed.">
+          <span>Mode</span>
+          <select
+            value={settings.mode}
+            onChange={(e) => update({ mode: e.target.value as KeyerMode })}
+            className="bg-slate-800 border border-slate-700 rounded-lg text-white text-xs px-1 py-1.5 focus:outline-none"
+          >
+            {(Object.keys(MODE_LABELS) as KeyerMode[]).map(mode => (
+              <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex flex-col gap-0.5" title="Remember a tap of the other paddle during an element and send it next">
+          <span>Memory</span>
+          <div className="flex items-center gap-2 py-1 normal-case text-xs text-slate-300">
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={settings.ditMemory}
+                disabled={!paddles}
+                onChange={(e) => update({ ditMemory: e.target.checked })}
+                className="accent-blue-500"
+              />
+              dit
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={settings.dahMemory}
+                disabled={!paddles}
+                onChange={(e) => update({ dahMemory: e.target.checked })}
+                className="accent-blue-500"
+              />
+              dah
+            </label>
+          </div>
+        </div>
+        <label className="flex flex-col gap-0.5" title="Keyer weight in percent (50 = standard 1:1 dit/space)">
+          <span>Weight</span>
+          <input
+            type="number"
+            min="25"
+            max="75"
+            step="1"
+            value={settings.weight}
+            disabled={!paddles}
+            onChange={(e) => update({ weight: parse(e.target.value, 25, 75, 50) })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default KeyerControls;
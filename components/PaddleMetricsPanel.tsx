@@ -0,0 +1,79 @@
+import React from 'react';
+import { Zap } from 'lucide-react';
+import { PaddleMetrics, PaddleTimingEvent } from '../types';
+
+interface PaddleMetricsPanelProps {
+  metrics: PaddleMetrics;
+}
+
+const EVENT_LABELS: Record<PaddleTimingEvent['type'], string> = {
+  squeeze: 'Squeeze',
+  release: 'Letter release',
+};
+
+// Margins under a quarter dit are in time, but only just
+const marginColor = (marginUnits: number) => {
+  if (marginUnits < 0) return 'bg-red-500';
+  if (marginUnits < 0.25) return 'bg-yellow-500';
+  return 'bg-green-500';
+};
+
+const formatMargin = (margin: number | null) => (margin !== null ? margin.toFixed(2) : '–');
+
+const PaddleMetricsPanel: React.FC<PaddleMetricsPanelProps> = ({ metrics }) => {
+  const squeezes = metrics.events.filter(e => e.type === 'squeeze').length;
+  const releases = metrics.events.filter(e => e.type === 'release').length;
+
+  const cards = [
+    {
+      label: 'Late squeezes',
+      value: `${metrics.lateSqueezes}/${squeezes}`,
+      detail: `mean margin ${formatMargin(metrics.squeezeMargin)} dit`,
+      title: 'The other paddle has to be down by the end of the current element\'s space, or the letter breaks off',
+      bad: metrics.lateSqueezes > 0,
+    },
+    {
+      label: 'Late letter releases',
+      value: `${metrics.lateReleases}/${releases}`,
+      detail: `mean margin ${formatMargin(metrics.releaseMargin)} dit`,
+      title: 'Both paddles have to be open by the end of a letter\'s last space, or the keyer adds an element',
+      bad: metrics.lateReleases > 0,
+    },
+  ];
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase">
+        <Zap className="w-3 h-3" />
+        <span>Paddle Timing</span>
+        <span className="normal-case font-normal text-[10px] text-slate-500">
+          element lengths and gaps are the keyer's; letter and word gaps and these paddle moves are yours
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {cards.map(card => (
+          <div key={card.label} title={card.title} className="bg-slate-950 border border-slate-800 rounded-lg p-3 flex flex-col items-center justify-center">
+            <span className={`text-2xl font-mono ${card.bad ? 'text-red-400' : 'text-green-400'}`}>{card.value}</span>
+            <span className="text-[10px] text-slate-500 uppercase mt-1">{card.label}</span>
+            <span className="text-[10px] text-slate-600 font-mono">{card.detail}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Each paddle move against the keyer's sample point */}
+      <div className="flex gap-px items-end h-10 overflow-x-auto bg-slate-950 border border-slate-800 rounded p-1">
+        {metrics.events.map((e, i) => (
+          <div
+            key={i}
+            className={`w-1.5 flex-shrink-0 ${marginColor(e.marginUnits)} ${e.type === 'release' ? 'opacity-60' : ''}`}
+            style={{ height: `${Math.min(100, 10 + Math.abs(e.marginUnits) * 30)}%` }}
+            title={`${EVENT_LABELS[e.type]} in "${e.char}": ${e.marginUnits >= 0 ? `${e.marginUnits.toFixed(2)} dit early` : `${(-e.marginUnits).toFixed(2)} dit late`}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PaddleMetricsPanel;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { ListOrdered } from 'lucide-react';
+import { PracticeFlowSettings, PracticeOrder } from '../types';
+
+interface PracticeFlowControlsProps {
+  settings: PracticeFlowSettings;
+  onChange: (settings: PracticeFlowSettings) => void;
+}
+
+const ORDER_LABELS: Record<PracticeOrder, string> = {
+  sequential: 'In order',
+  shuffle: 'Shuffle',
+};
+
+const inputClass = "w-12 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm px-2 py-1 focus:outline-none text-center font-mono [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none";
+
+const PracticeFlowControls: React.FC<PracticeFlowControlsProps> = ({ settings, onChange }) => {
+  const update = (patch: Partial<PracticeFlowSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase">
+        <ListOrdered className="w-3 h-3" />
+        <span>Practice</span>
+      </div>
+      <div className="flex items-center gap-3 text-[10px] text-slate-500 uppercase">
+        <label className="flex flex-col gap-0.5" title="Shuffle visits every line once in random order">
+          <span>Order</span>
+          <select
+            value={settings.order}
+            onChange={(e) => update({ order: e.target.value as PracticeOrder })}
+            className="bg-slate-800 border border-slate-700 rounded-lg text-white text-xs px-1 py-1.5 focus:outline-none"
+          >
+            {(Object.keys(ORDER_LABELS) as PracticeOrder[]).map(order => (
+              <option key={order} value={order}>{ORDER_LABELS[order]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-0.5" title="Score an attempt needs to pass a line">
+          <span>Pass</span>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="5"
+            value={settings.passScore}
+            onChange={(e) => {
+              const v = parseFloat(e.target.value);
+              if (Number.isFinite(v)) update({ passScore: Math.max(0, Math.min(100, v)) });
+            }}
+            className={inputClass}
+          />
+        </label>
+        <div className="flex flex-col gap-0.5">
+          <span>Flow</span>
+          <div className="flex items-center gap-2 py-1 normal-case text-xs text-slate-300">
+            <label className="flex items-center gap-1" title="Next stays locked until an attempt at this line passes">
+              <input
+                type="checkbox"
+                checked={settings.repeatUntilPass}
+                onChange={(e) => update({ repeatUntilPass: e.target.checked })}
+                className="accent-blue-500"
+              />
+              repeat
+            </label>
+            <label className="flex items-center gap-1" title="When keying stops after a passing attempt, go to the next line; with repeat on, a failed one starts over">
+              <input
+                type="checkbox"
+                checked={settings.autoAdvance}
+                onChange={(e) => update({ autoAdvance: e.target.checked })}
+                className="accent-blue-500"
+              />
+              auto
+            </label>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PracticeFlowControls;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Loader2, Wand2 } from 'lucide-react';
+import { PracticeTextKind } from '../types';
+import { PRACTICE_TEXT_PROVIDERS } from '../services/practiceTextProviders';
+
+interface PracticeTextControlsProps {
+  onGenerate: (text: string) => void;
+}
+
+const KIND_LABELS: Record<PracticeTextKind, string> = {
+  callsigns: 'Callsigns',
+  qso: 'QSO',
+  'contest-serial': 'Contest: serial',
+  'contest-zone': 'Contest: CQ zone',
+  'contest-state': 'Contest: state',
+  words: 'Common words',
+};
+
+const selectClass = "bg-slate-800 border border-slate-700 rounded text-slate-300 text-xs px-1 py-0.5 focus:outline-none";
+
+const PracticeTextControls: React.FC<PracticeTextControlsProps> = ({ onGenerate }) => {
+  const [kind, setKind] = useState<PracticeTextKind>('callsigns');
+  const [providerId, setProviderId] = useState('local');
+  const [callsign, setCallsign] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const providers = PRACTICE_TEXT_PROVIDERS.filter(p => p.isAvailable());
+  const provider = providers.find(p => p.id === providerId) ?? providers[0];
+
+  const handleGenerate = async () => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      const text = await provider.generate({ kind, seed: Date.now(), userCallsign: callsign.trim() || undefined });
+      onGenerate(text);
+    } catch (e) {
+      console.error("Error generating practice text:", e);
+      setError(e instanceof Error ? e.message : 'Generation failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-2">
+      <select
+        value={kind}
+        onChange={(e) => setKind(e.target.value as PracticeTextKind)}
+        className={selectClass}
+        title="Kind of practice text to generate"
+      >
+        {(Object.keys(KIND_LABELS) as PracticeTextKind[]).map(k => (
+          <option key={k} value={k}>{KIND_LABELS[k]}</option>
+        ))}
+      </select>
+      {kind === 'qso' && (
+        <input
+          value={callsign}
+          onChange={(e) => setCallsign(e.target.value)}
+          placeholder="My call"
+          className="w-20 bg-slate-800 border border-slate-700 rounded text-slate-300 text-xs px-1 py-0.5 font-mono focus:outline-none"
+          title="Your callsign as the calling station (optional)"
+        />
+      )}
+      {providers.length > 1 && (
+        <select
+          value={provider.id}
+          onChange={(e) => setProviderId(e.target.value)}
+          className={selectClass}
+          title="Built-in templates work offline; Gemini asks the language model"
+        >
+          {providers.map(p => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+        </select>
+      )}
+      <button
+        onClick={handleGenerate}
+        disabled={isBusy}
+        className="flex items-center gap-1 px-2 py-0.5 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-40 border border-slate-700 text-xs text-slate-300 transition-colors"
+        title="Replace the source text with generated practice lines"
+      >
+        {isBusy ? <Loader2 className="w-3 h-3 animate-spin" /> : <Wand2 className="w-3 h-3" />}
+        <span>Generate</span>
+      </button>
+      {error && <span className="text-xs text-red-400">{error}</span>}
+    </div>
+  );
+};
+
+export default PracticeTextControls;
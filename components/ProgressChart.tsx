@@ -0,0 +1,122 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import * as d3 from 'd3';
+import { AttemptRecord } from '../types';
+
+interface ProgressChartProps {
+  attempts: AttemptRecord[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const MARGIN = { top: 10, right: 10, bottom: 24, left: 30 };
+const ROLLING_DAYS = 7;
+
+interface DayPoint {
+  day: Date;
+  mean: number;
+  rolling: number;
+  count: number;
+}
+
+const startOfDay = (timestamp: number) => {
+  const d = new Date(timestamp);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+// Daily mean score plus a rolling weekly mean, which shows the trend through day-to-day noise
+const ProgressChart: React.FC<ProgressChartProps> = ({ attempts }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const points = useMemo<DayPoint[]>(() => {
+    const scored = attempts.filter(a => a.metrics !== null);
+    const byDay = d3.group(scored, a => startOfDay(a.timestamp).getTime());
+    const days = Array.from(byDay.keys()).sort((a, b) => a - b);
+
+    return days.map(day => {
+      const todays = byDay.get(day)!;
+      const windowStart = d3.timeDay.offset(new Date(day), -(ROLLING_DAYS - 1)).getTime();
+      const windowScores = scored
+        .filter(a => {
+          const t = startOfDay(a.timestamp).getTime();
+          return t >= windowStart && t <= day;
+        })
+        .map(a => a.metrics!.score);
+      return {
+        day: new Date(day),
+        mean: d3.mean(todays, a => a.metrics!.score) ?? 0,
+        rolling: d3.mean(windowScores) ?? 0,
+        count: todays.length,
+      };
+    });
+  }, [attempts]);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+    if (points.length === 0) return;
+
+    const first = points[0].day;
+    const last = points[points.length - 1].day;
+    const xScale = d3.scaleTime()
+      .domain(points.length > 1 ? [first, last] : [d3.timeDay.offset(first, -1), d3.timeDay.offset(first, 1)])
+      .range([MARGIN.left, WIDTH - MARGIN.right]);
+    const yScale = d3.scaleLinear().domain([0, 100]).range([HEIGHT - MARGIN.bottom, MARGIN.top]);
+
+    svg.append("g")
+      .attr("transform", `translate(0, ${HEIGHT - MARGIN.bottom})`)
+      .call(d3.axisBottom(xScale).ticks(6).tickFormat(d => d3.timeFormat("%b %d")(d as Date)))
+      .style("color", "#475569");
+    svg.append("g")
+      .attr("transform", `translate(${MARGIN.left}, 0)`)
+      .call(d3.axisLeft(yScale).ticks(5))
+      .style("color", "#475569");
+
+    const line = (accessor: (p: DayPoint) => number) => d3.line<DayPoint>()
+      .x(p => xScale(p.day))
+      .y(p => yScale(accessor(p)));
+
+    svg.append("path")
+      .datum(points)
+      .attr("fill", "none")
+      .attr("stroke", "#60a5fa")
+      .attr("stroke-width", 1.5)
+      .attr("opacity", 0.6)
+      .attr("d", line(p => p.mean));
+
+    svg.append("path")
+      .datum(points)
+      .attr("fill", "none")
+      .attr("stroke", "#4ade80")
+      .attr("stroke-width", 2)
+      .attr("d", line(p => p.rolling));
+
+    svg.selectAll("circle.day")
+      .data(points)
+      .enter()
+      .append("circle")
+      .attr("cx", p => xScale(p.day))
+      .attr("cy", p => yScale(p.mean))
+      .attr("r", p => Math.min(6, 2 + Math.sqrt(p.count)))
+      .attr("fill", "#60a5fa")
+      .append("title")
+      .text(p => `${d3.timeFormat("%b %d")(p.day)}: ${p.mean.toFixed(0)} avg over ${p.count} attempts`);
+  }, [points]);
+
+  if (points.length === 0) {
+    return <div className="text-slate-500 text-sm text-center py-4">No scored attempts yet.</div>;
+  }
+
+  return (
+    <div>
+      <svg ref={svgRef} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto block" />
+      <div className="flex gap-4 text-[10px] uppercase text-slate-500 justify-center">
+        <span className="text-blue-400">Daily mean</span>
+        <span className="text-green-400">{ROLLING_DAYS}-day mean</span>
+      </div>
+    </div>
+  );
+};
+
+export default ProgressChart;
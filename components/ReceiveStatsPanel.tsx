@@ -0,0 +1,74 @@
+import React from 'react';
+import { Ear } from 'lucide-react';
+import { CopyRecord, ReceiveCharStat } from '../types';
+
+interface ReceiveStatsPanelProps {
+  stats: ReceiveCharStat[];
+  records: CopyRecord[];
+  onClear: () => void;
+}
+
+const SHOW_COUNT = 12;
+// Recent lines used for the running copy score
+const RECENT_COUNT = 20;
+
+const ReceiveStatsPanel: React.FC<ReceiveStatsPanelProps> = ({ stats, records, onClear }) => {
+  const recent = records.slice(-RECENT_COUNT);
+  const meanScore = recent.length > 0 ? recent.reduce((sum, r) => sum + r.score, 0) / recent.length : null;
+  const weak = stats.filter(s => s.errors > 0).slice(0, SHOW_COUNT);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase">
+        <Ear className="w-3 h-3" />
+        <span>Receive Errors</span>
+        {meanScore !== null && (
+          <span className="normal-case font-normal text-slate-500" title={`Mean score of the last ${recent.length} copied lines`}>
+            {Math.round(meanScore)}% over the last {recent.length} lines
+          </span>
+        )}
+        <button
+          onClick={onClear}
+          disabled={records.length === 0}
+          className="ml-auto px-3 py-1 rounded-full bg-slate-800 hover:bg-slate-700 disabled:opacity-40 border border-slate-700 text-slate-300 normal-case font-semibold transition-colors"
+          title="Forget all copy results"
+        >
+          Clear
+        </button>
+      </div>
+
+      {weak.length === 0 ? (
+        <div className="text-slate-500 text-sm text-center py-2">
+          {records.length === 0 ? 'Copy a few lines to build up receive statistics.' : 'No copy errors so far.'}
+        </div>
+      ) : (
+        <table className="w-full text-xs font-mono text-slate-300">
+          <thead>
+            <tr className="text-slate-500 uppercase text-[10px]">
+              <th className="text-left font-semibold py-1">Char</th>
+              <th className="text-right font-semibold">Errors</th>
+              <th className="text-left font-semibold pl-4">Copied as</th>
+              <th className="text-right font-semibold">Seen</th>
+            </tr>
+          </thead>
+          <tbody>
+            {weak.map(row => (
+              <tr key={row.key} className="border-t border-slate-800">
+                <td className="py-1 text-white">{row.key}</td>
+                <td className={`text-right ${row.errorRate >= 0.2 ? 'text-red-400' : 'text-yellow-400'}`}>
+                  {Math.round(row.errorRate * 100)}%
+                </td>
+                <td className="pl-4 text-slate-400">
+                  {row.confusions.slice(0, 3).map(c => `${c.char || 'missed'} ×${c.count}`).join(', ')}
+                </td>
+                <td className="text-right text-slate-500">{row.seen}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default ReceiveStatsPanel;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { RotateCcw, Trophy, X } from 'lucide-react';
+import { PracticeSummary } from '../types';
+
+interface SessionSummaryProps {
+  summary: PracticeSummary;
+  onRestart: () => void;
+  onClose: () => void;
+}
+
+// Shown over the active line once the last line of the text is done
+const SessionSummary: React.FC<SessionSummaryProps> = ({ summary, onRestart, onClose }) => {
+  const cards = [
+    { label: 'Attempted', value: `${summary.attempted}/${summary.total}`, title: 'Lines with at least one saved attempt' },
+    { label: 'Passed', value: `${summary.passed}`, title: 'Lines with an attempt at or above the pass score' },
+    { label: 'Retried', value: `${summary.retried}`, title: 'Lines that took more than one attempt' },
+    { label: 'Attempts', value: `${summary.attempts}`, title: 'Saved attempts over all lines' },
+    {
+      label: 'Mean best',
+      value: summary.meanBestScore !== null ? Math.round(summary.meanBestScore).toString() : '–',
+      title: 'Average of each attempted line\'s best score',
+    },
+  ];
+
+  return (
+    <div className="absolute inset-0 z-10 flex flex-col items-center justify-center gap-4 bg-slate-900/95 p-6">
+      <button
+        onClick={onClose}
+        className="absolute top-2 right-2 p-1 rounded hover:bg-slate-800 text-slate-400 hover:text-white"
+        title="Close"
+      >
+        <X className="w-4 h-4" />
+      </button>
+      <div className="flex items-center gap-2 text-slate-300 text-sm font-bold uppercase">
+        <Trophy className="w-4 h-4 text-yellow-400" />
+        <span>Session complete</span>
+      </div>
+      <div className="flex flex-wrap justify-center gap-3">
+        {cards.map(card => (
+          <div key={card.label} className="flex flex-col items-center px-4 py-2 rounded-lg bg-slate-800 border border-slate-700" title={card.title}>
+            <span className="text-2xl font-mono text-white">{card.value}</span>
+            <span className="text-[10px] text-slate-500 uppercase">{card.label}</span>
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={onRestart}
+        className="flex items-center gap-2 px-4 py-1.5 rounded-full bg-green-600 hover:bg-green-500 text-white text-sm font-semibold transition-colors"
+      >
+        <RotateCcw className="w-4 h-4" />
+        <span>Practice again</span>
+      </button>
+    </div>
+  );
+};
+
+export default SessionSummary;
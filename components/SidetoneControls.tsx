@@ -0,0 +1,82 @@
+import React from 'react';
+import { Play, Square, Volume2 } from 'lucide-react';
+import { PlaybackTrack, SidetoneOptions } from '../types';
+
+interface SidetoneControlsProps {
+  options: SidetoneOptions;
+  playingTrack: PlaybackTrack | null;
+  canPlayUser: boolean;
+  onChange: (options: SidetoneOptions) => void;
+  onPlay: (track: PlaybackTrack) => void;
+  onStop: () => void;
+}
+
+const inputClass = "w-14 bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 font-mono text-slate-200 text-center focus:outline-none focus:ring-1 focus:ring-blue-500 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none";
+
+const SidetoneControls: React.FC<SidetoneControlsProps> = ({ options, playingTrack, canPlayUser, onChange, onPlay, onStop }) => {
+  const update = (patch: Partial<SidetoneOptions>) => onChange({ ...options, ...patch });
+
+  const parse = (value: string, min: number, max: number, fallback: number) => {
+    const v = parseFloat(value);
+    return Number.isFinite(v) ? Math.max(min, Math.min(max, v)) : fallback;
+  };
+
+  const playButton = (track: PlaybackTrack, label: string, disabled: boolean) => (
+    <button
+      onClick={() => (playingTrack === track ? onStop() : onPlay(track))}
+      disabled={disabled}
+      className={`flex items-center gap-1 px-3 py-1 rounded-full border transition-colors disabled:opacity-40 ${
+        playingTrack === track ? 'bg-slate-700 border-slate-600 text-white' : 'bg-slate-900 border-slate-800 text-slate-400 hover:text-white'
+      }`}
+    >
+      {playingTrack === track ? <Square className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+      <span>{label}</span>
+    </button>
+  );
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 text-xs text-slate-400">
+      <Volume2 className="w-3 h-3" />
+      {playButton('ideal', 'Play ideal', false)}
+      {playButton('user', 'Play mine', !canPlayUser)}
+      <label className="flex items-center gap-1" title="Sidetone pitch">
+        <span className="uppercase text-[10px] text-slate-500">Hz</span>
+        <input
+          type="number"
+          min="200"
+          max="1500"
+          step="10"
+          value={options.pitch}
+          onChange={(e) => update({ pitch: parse(e.target.value, 200, 1500, options.pitch) })}
+          className={inputClass}
+        />
+      </label>
+      <label className="flex items-center gap-1" title="Playback volume">
+        <span className="uppercase text-[10px] text-slate-500">Vol</span>
+        <input
+          type="range"
+          min="0"
+          max="1"
+          step="0.05"
+          value={options.volume}
+          onChange={(e) => update({ volume: parseFloat(e.target.value) })}
+          className="w-20 accent-blue-500"
+        />
+      </label>
+      <label className="flex items-center gap-1" title="Rise/fall time of each element. Shorter is clickier.">
+        <span className="uppercase text-[10px] text-slate-500">Rise ms</span>
+        <input
+          type="number"
+          min="0"
+          max="20"
+          step="1"
+          value={options.riseTime}
+          onChange={(e) => update({ riseTime: parse(e.target.value, 0, 20, options.riseTime) })}
+          className={inputClass}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default SidetoneControls;
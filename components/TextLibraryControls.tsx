@@ -0,0 +1,88 @@
+import React, { useRef, useState } from 'react';
+import { FilePlus, Trash2, Upload } from 'lucide-react';
+import { TextSet } from '../types';
+
+interface TextLibraryControlsProps {
+  sets: TextSet[];
+  activeSet: TextSet;
+  onSelect: (id: string) => void;
+  onAdd: (name: string, text: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => Promise<void>;
+}
+
+const buttonClass = "p-1 rounded bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 transition-colors";
+
+const TextLibraryControls: React.FC<TextLibraryControlsProps> = ({ sets, activeSet, onSelect, onAdd, onRename, onDelete, onImport }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const builtin = sets.filter(s => s.builtin);
+  const own = sets.filter(s => !s.builtin);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      await onImport(file);
+    } catch (e) {
+      console.error("Error importing text set:", e);
+      setError(`Could not import ${file.name}: ${e instanceof Error ? e.message : 'unreadable file'}`);
+    } finally {
+      // Allow picking the same file again
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1 mb-2">
+      <div className="flex items-center gap-2">
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".txt,.csv,text/plain,text/csv"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+        <select
+          value={activeSet.id}
+          onChange={(e) => onSelect(e.target.value)}
+          className="min-w-0 flex-1 bg-slate-800 border border-slate-700 rounded text-slate-300 text-xs px-1 py-0.5 focus:outline-none"
+          title="Practice text set"
+        >
+          <optgroup label="Built-in">
+            {builtin.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </optgroup>
+          {own.length > 0 && (
+            <optgroup label="My sets">
+              {own.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <button onClick={() => onAdd(`Set ${own.length + 1}`, '')} className={buttonClass} title="New empty set">
+          <FilePlus className="w-3 h-3" />
+        </button>
+        <button onClick={() => inputRef.current?.click()} className={buttonClass} title="Import a .txt (one line per row) or .csv (text and optional wpm columns) file">
+          <Upload className="w-3 h-3" />
+        </button>
+        {!activeSet.builtin && (
+          <button onClick={() => onDelete(activeSet.id)} className={`${buttonClass} hover:text-red-400`} title="Delete this set">
+            <Trash2 className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+      {!activeSet.builtin && (
+        <input
+          value={activeSet.name}
+          onChange={(e) => onRename(activeSet.id, e.target.value)}
+          className="bg-transparent border-b border-slate-800 focus:border-slate-600 text-xs text-slate-300 px-1 py-0.5 outline-none"
+          title="Set name"
+        />
+      )}
+      {error && <span className="text-xs text-red-400">{error}</span>}
+    </div>
+  );
+};
+
+export default TextLibraryControls;
@@ -1,6 +1,10 @@
-import React, { useEffect, useRef, useState, useMemo } from 'react';
+import React, { useEffect, useRef, useState, useMemo, useId } from 'react';
 import * as d3 from 'd3';
-import { SignalInterval } from '../types';
+import { Maximize2, ZoomIn, ZoomOut } from 'lucide-react';
+import { calculateDotLength } from '../constants';
+import { ElementKind, PlaybackTrack, SignalInterval } from '../types';
+import { alignSignals } from '../utils/signalAlignment';
+import { ErrorSeverity, errorSeverity } from '../utils/fistAnalysis';
 
 interface TimelineProps {
   idealSignals: SignalInterval[];
@@ -8,15 +12,57 @@ interface TimelineProps {
   wpm: number;
   isListening?: boolean;
   activeSignal?: { state: 'on' | 'off', startTime: number, currentTime: number };
+  playhead?: { time: number, track: PlaybackTrack }; // time in the track's own timebase
 }
 
-const SECONDS_PER_ROW = 14;
 const ROW_HEIGHT = 100;
-const MARGIN = { top: 30, right: 20, bottom: 20, left: 20 };
+const MARGIN = { top: 28, right: 20, bottom: 10, left: 48 }; // Top leaves room for the zoom buttons
+const IDEAL_Y = 20;
+const USER_Y = 50;
+const BAR_HEIGHT = 20;
 
-const Timeline: React.FC<TimelineProps> = ({ idealSignals, userSignals, wpm, isListening, activeSignal }) => {
+// The unzoomed view spans the whole line, but never less than this, so a short line
+// fills the width without turning into a few huge bars
+const MIN_VIEW_SECONDS = 1;
+// Deepest zoom shows this much across the full width
+const MIN_ZOOM_SECONDS = 0.2;
+const ZOOM_STEP = 2;
+
+const IDEAL_COLOR = '#60a5fa';
+const DROPPED_COLOR = '#fb923c';  // Ideal mark the user didn't key
+const INSERTED_COLOR = '#c084fc'; // User mark with no ideal counterpart
+const PENDING_COLOR = '#94a3b8';  // Mark still being keyed
+
+const SEVERITY_COLORS: Record<ErrorSeverity, string> = {
+  good: '#22c55e',
+  fair: '#eab308',
+  poor: '#ef4444',
+};
+
+const KIND_LABELS: Record<ElementKind, string> = {
+  dit: 'Dit',
+  dah: 'Dah',
+  intra: 'Element gap',
+  char: 'Letter gap',
+  word: 'Word gap',
+};
+
+interface Tooltip {
+  x: number;
+  y: number;
+  lines: string[];
+}
+
+const formatSigned = (value: number, digits: number) => `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+const Timeline: React.FC<TimelineProps> = ({ idealSignals, userSignals, wpm, isListening, activeSignal, playhead }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
   const [width, setWidth] = useState(800);
+  const [transform, setTransform] = useState<d3.ZoomTransform>(d3.zoomIdentity);
+  const [tooltip, setTooltip] = useState<Tooltip | null>(null);
+  const clipId = `timeline-clip-${useId().replace(/:/g, '')}`;
 
   // Resize observer
   useEffect(() => {
@@ -35,7 +81,7 @@ const Timeline: React.FC<TimelineProps> = ({ idealSignals, userSignals, wpm, isL
   // Combine committed signals with the active pending signal for visualization
   const displaySignals = useMemo(() => {
       if (!activeSignal || !isListening) return userSignals;
-      
+
       const duration = activeSignal.currentTime - activeSignal.startTime;
       if (duration <= 0) return userSignals;
 
@@ -50,23 +96,57 @@ const Timeline: React.FC<TimelineProps> = ({ idealSignals, userSignals, wpm, isL
   }, [userSignals, activeSignal, isListening]);
 
   // 1. Calculate Shift & Alignment
-  const alignedUserSignals = useMemo(() => {
+  // Shift logic: move the attempt so its first tone lines up with the ideal's.
+  // null if no ON signal was ever recorded/pending, in which case we can't align.
+  const userShift = useMemo(() => {
     const firstIdeal = idealSignals.find(s => s.state === 'on');
     const firstUser = displaySignals.find(s => s.state === 'on');
-    
-    // If no ON signal ever recorded/pending, we can't align
-    if (!firstUser || !firstIdeal) return [];
+    if (!firstUser || !firstIdeal) return null;
+    return firstIdeal.startTime - firstUser.startTime;
+  }, [idealSignals, displaySignals]);
 
-    // Shift logic
-    const shift = firstIdeal.startTime - firstUser.startTime;
-    
+  const alignedUserSignals = useMemo(() => {
+    if (userShift === null) return [];
     return displaySignals.map(s => ({
         ...s,
-        startTime: s.startTime + shift
+        startTime: s.startTime + userShift
     }));
-  }, [idealSignals, displaySignals]);
+  }, [displaySignals, userShift]);
 
-  // 2. Determine total duration
+  // Playhead position on the shared (ideal) time axis
+  const playheadTime = playhead
+    ? playhead.time + (playhead.track === 'user' ? userShift ?? 0 : 0)
+    : null;
+  const playheadTrack = playhead?.track;
+
+  // 2. Element-level alignment of the committed attempt against the ideal. The pending
+  // (still growing) interval is left out so it isn't flagged as an insertion while it is keyed.
+  const alignment = useMemo(() => alignSignals(idealSignals, userSignals, wpm), [idealSignals, userSignals, wpm]);
+
+  // Ideal counterpart of each user element, and the ideal elements nobody keyed
+  const { idealForUser, userForIdeal } = useMemo(() => {
+    const idealForUser = new Map<number, number | null>();
+    const userForIdeal = new Map<number, number | null>();
+    alignment.forEach(p => {
+      if (p.userIndex !== null) idealForUser.set(p.userIndex, p.idealIndex);
+      if (p.idealIndex !== null) userForIdeal.set(p.idealIndex, p.userIndex);
+    });
+    return { idealForUser, userForIdeal };
+  }, [alignment]);
+
+  // Character spans of the ideal line (first mark start to last mark end) for the labels
+  const charSpans = useMemo(() => {
+    const spans = new Map<number, { char: string; start: number; end: number }>();
+    idealSignals.forEach(s => {
+      if (s.state !== 'on' || s.charIndex === undefined || s.char === undefined) return;
+      const span = spans.get(s.charIndex);
+      if (span) span.end = s.startTime + s.duration;
+      else spans.set(s.charIndex, { char: s.char, start: s.startTime, end: s.startTime + s.duration });
+    });
+    return Array.from(spans.values());
+  }, [idealSignals]);
+
+  // 3. Determine total duration
   const getLastTime = (signals: SignalInterval[]) => {
       if (signals.length === 0) return 0;
       const last = signals[signals.length - 1];
@@ -74,100 +154,239 @@ const Timeline: React.FC<TimelineProps> = ({ idealSignals, userSignals, wpm, isL
   };
 
   const maxTime = Math.max(
-      getLastTime(idealSignals), 
+      getLastTime(idealSignals),
       getLastTime(alignedUserSignals),
-      SECONDS_PER_ROW 
+      MIN_VIEW_SECONDS
   );
+  const maxZoom = Math.max(1, maxTime / MIN_ZOOM_SECONDS);
+  const height = ROW_HEIGHT + MARGIN.top + MARGIN.bottom;
+
+  // Zoom and pan act on the time axis only: drag to pan, Ctrl/⌘ + wheel (or pinch) to zoom,
+  // so a plain wheel still scrolls the page
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const extent: [[number, number], [number, number]] = [[MARGIN.left, 0], [width - MARGIN.right, height]];
+    const zoom = d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([1, maxZoom])
+      .extent(extent)
+      .translateExtent(extent)
+      .filter(event => (event.type === 'wheel' ? event.ctrlKey || event.metaKey : !event.button))
+      .on('zoom', event => setTransform(event.transform));
+    zoomRef.current = zoom;
+    svg.call(zoom);
+    return () => {
+      svg.on('.zoom', null);
+    };
+  }, [width, height, maxZoom]);
 
-  const rowCount = Math.ceil(maxTime / SECONDS_PER_ROW);
-  const totalHeight = rowCount * ROW_HEIGHT;
-  const innerWidth = width - MARGIN.left - MARGIN.right;
+  // A new line starts unzoomed
+  useEffect(() => {
+    if (svgRef.current && zoomRef.current) {
+      d3.select(svgRef.current).call(zoomRef.current.transform, d3.zoomIdentity);
+    }
+  }, [idealSignals]);
 
-  // Render using D3
-  const svgRef = useRef<SVGSVGElement>(null);
+  const zoomBy = (factor: number) => {
+    if (svgRef.current && zoomRef.current) d3.select(svgRef.current).call(zoomRef.current.scaleBy, factor);
+  };
+
+  const resetZoom = () => {
+    if (svgRef.current && zoomRef.current) d3.select(svgRef.current).call(zoomRef.current.transform, d3.zoomIdentity);
+  };
 
+  // Render using D3
   useEffect(() => {
     if (!svgRef.current) return;
     const svg = d3.select(svgRef.current);
     svg.selectAll("*").remove();
+    svg.on("mouseleave", () => setTooltip(null));
 
     if (width === 0) return;
 
-    for (let r = 0; r < rowCount; r++) {
-        const rowStartTime = r * SECONDS_PER_ROW;
-        const rowEndTime = (r + 1) * SECONDS_PER_ROW;
-        
-        const g = svg.append("g")
-            .attr("transform", `translate(${MARGIN.left}, ${MARGIN.top + (r * ROW_HEIGHT)})`);
-
-        // Row background
-        g.append("rect")
-            .attr("width", innerWidth)
-            .attr("height", ROW_HEIGHT - 10)
-            .attr("fill", "#0f172a") 
-            .attr("stroke", "#334155") 
-            .attr("rx", 4);
-
-        // Scale
-        const xScale = d3.scaleLinear()
-            .domain([rowStartTime, rowEndTime])
-            .range([0, innerWidth]);
-
-        // Axis
-        const xAxis = d3.axisBottom(xScale)
-            .ticks(14)
-            .tickFormat(d => `${d}s`);
-        
-        g.append("g")
-            .attr("transform", `translate(0, ${ROW_HEIGHT - 30})`)
-            .call(xAxis)
-            .style("color", "#475569")
-            .select(".domain").remove();
-
-        const drawSignals = (signals: SignalInterval[], color: string, y: number, label: string) => {
-             const visibleSignals = signals.filter(s => {
-                 const sEnd = s.startTime + s.duration;
-                 return s.state === 'on' && s.startTime < rowEndTime && sEnd > rowStartTime;
-             });
-
-             visibleSignals.forEach(s => {
-                 const start = Math.max(rowStartTime, s.startTime);
-                 const end = Math.min(rowEndTime, s.startTime + s.duration);
-                 
-                 g.append("rect")
-                    .attr("x", xScale(start))
-                    .attr("y", y)
-                    .attr("width", Math.max(2, xScale(end) - xScale(start)))
-                    .attr("height", 20)
-                    .attr("fill", color)
-                    .attr("rx", 2);
-             });
-             
-             g.append("text")
-                .attr("x", -5)
-                .attr("y", y + 14)
-                .attr("text-anchor", "end")
-                .attr("fill", color)
-                .attr("font-size", "10px")
-                .attr("font-family", "monospace")
-                .attr("font-weight", "bold")
-                .text(label);
-        };
-
-        drawSignals(idealSignals, "#4ade80", 20, "IDEAL");
-        drawSignals(alignedUserSignals, "#f87171", 50, "YOU");
+    const idealDot = calculateDotLength(wpm) / 1000;
+    const baseScale = d3.scaleLinear()
+        .domain([0, maxTime * 1.02])
+        .range([MARGIN.left, width - MARGIN.right]);
+    const xScale = transform.rescaleX(baseScale);
+    const [viewStart, viewEnd] = xScale.domain();
+    const inView = (start: number, end: number) => end >= viewStart && start <= viewEnd;
+
+    svg.append("defs").append("clipPath")
+        .attr("id", clipId)
+        .append("rect")
+        .attr("x", MARGIN.left)
+        .attr("y", 0)
+        .attr("width", Math.max(0, width - MARGIN.left - MARGIN.right))
+        .attr("height", height);
+
+    const g = svg.append("g").attr("transform", `translate(0, ${MARGIN.top})`);
+
+    // Row background
+    g.append("rect")
+        .attr("x", MARGIN.left)
+        .attr("width", Math.max(0, width - MARGIN.left - MARGIN.right))
+        .attr("height", ROW_HEIGHT - 10)
+        .attr("fill", "#0f172a")
+        .attr("stroke", "#334155")
+        .attr("rx", 4);
+
+    // Axis
+    const tickCount = Math.max(2, Math.floor((width - MARGIN.left - MARGIN.right) / 70));
+    const tickFormat = xScale.tickFormat(tickCount);
+    const xAxis = d3.axisBottom(xScale)
+        .ticks(tickCount)
+        .tickFormat(d => `${tickFormat(d)}s`);
+
+    g.append("g")
+        .attr("transform", `translate(0, ${ROW_HEIGHT - 30})`)
+        .call(xAxis)
+        .style("color", "#475569")
+        .select(".domain").remove();
+
+    const content = g.append("g").attr("clip-path", `url(#${clipId})`);
+
+    // Connectors between matched marks, drawn first so the bars sit on top
+    alignment.forEach(p => {
+        if (p.idealIndex === null || p.userIndex === null) return;
+        const ideal = idealSignals[p.idealIndex];
+        const user = alignedUserSignals[p.userIndex];
+        if (!user || ideal.state !== 'on') return;
+
+        const idealMid = ideal.startTime + ideal.duration / 2;
+        const userMid = user.startTime + user.duration / 2;
+        if (!inView(Math.min(idealMid, userMid), Math.max(idealMid, userMid))) return;
+
+        content.append("line")
+            .attr("x1", xScale(idealMid))
+            .attr("y1", IDEAL_Y + BAR_HEIGHT)
+            .attr("x2", xScale(userMid))
+            .attr("y2", USER_Y)
+            .attr("stroke", "#64748b")
+            .attr("stroke-width", 1)
+            .attr("opacity", 0.7);
+    });
+
+    // Hover text for an element of either track
+    const describe = (track: 'ideal' | 'user', index: number): string[] | null => {
+        const signals = track === 'ideal' ? idealSignals : alignedUserSignals;
+        const s = signals[index];
+        if (track === 'user' && index >= userSignals.length) return null; // Still being keyed
+
+        const idealIndex = track === 'ideal' ? index : idealForUser.get(index) ?? null;
+        const ideal = idealIndex !== null ? idealSignals[idealIndex] : undefined;
+        const kindLabel = ideal?.kind ? KIND_LABELS[ideal.kind] : s.state === 'on' ? 'Mark' : 'Gap';
+        const charLabel = ideal?.char ? ` '${ideal.char}'` : '';
+        const lines = [
+            `${track === 'ideal' ? 'IDEAL' : 'YOU'} · ${kindLabel}${charLabel}`,
+            `${Math.round(s.duration * 1000)} ms · ${(s.duration / idealDot).toFixed(2)} dit`,
+        ];
+
+        if (track === 'ideal') {
+            if (userForIdeal.get(index) === null) lines.push('not keyed');
+        } else if (!ideal) {
+            lines.push(s.state === 'on' ? 'extra mark' : 'extra gap');
+        } else {
+            const error = s.duration - ideal.duration;
+            lines.push(`${formatSigned(error * 1000, 0)} ms · ${formatSigned(error / idealDot, 2)} dit vs ideal`);
+        }
+        return lines;
+    };
+
+    const showTooltip = (event: MouseEvent, lines: string[] | null) => {
+        if (!lines || !containerRef.current) return;
+        const [x, y] = d3.pointer(event, containerRef.current);
+        setTooltip({ x, y, lines });
+    };
+
+    const userColor = (index: number) => {
+        if (index >= userSignals.length) return PENDING_COLOR;
+        const idealIndex = idealForUser.get(index);
+        if (idealIndex === null || idealIndex === undefined) return INSERTED_COLOR;
+        const error = alignedUserSignals[index].duration - idealSignals[idealIndex].duration;
+        return SEVERITY_COLORS[errorSeverity(error / idealDot)];
+    };
+
+    const drawTrack = (track: 'ideal' | 'user', y: number, label: string, labelColor: string) => {
+        const signals = track === 'ideal' ? idealSignals : alignedUserSignals;
+        signals.forEach((s, index) => {
+            const end = s.startTime + s.duration;
+            if (!inView(s.startTime, end)) return;
+            const x = xScale(s.startTime);
+            const w = Math.max(s.state === 'on' ? 2 : 0, xScale(end) - x);
+
+            // Gaps get an invisible hover target the height of the bars
+            const isMark = s.state === 'on';
+            const unmatched = track === 'ideal'
+                ? userForIdeal.get(index) === null
+                : index < userSignals.length && (idealForUser.get(index) ?? null) === null;
+            const color = track === 'ideal' ? (unmatched ? DROPPED_COLOR : IDEAL_COLOR) : userColor(index);
+
+            content.append("rect")
+                .attr("x", x)
+                .attr("y", y)
+                .attr("width", w)
+                .attr("height", BAR_HEIGHT)
+                .attr("fill", isMark ? color : "transparent")
+                .attr("fill-opacity", isMark && unmatched ? 0.35 : 1)
+                .attr("stroke", isMark && unmatched ? color : "none")
+                .attr("stroke-dasharray", isMark && unmatched ? "3,2" : null)
+                .attr("rx", isMark ? 2 : 0)
+                .style("cursor", "default")
+                .on("mousemove", (event: MouseEvent) => showTooltip(event, describe(track, index)))
+                .on("mouseleave", () => setTooltip(null));
+        });
+
+        g.append("text")
+            .attr("x", MARGIN.left - 5)
+            .attr("y", y + 14)
+            .attr("text-anchor", "end")
+            .attr("fill", labelColor)
+            .attr("font-size", "10px")
+            .attr("font-family", "monospace")
+            .attr("font-weight", "bold")
+            .text(label);
+    };
+
+    // Character labels above the IDEAL track
+    charSpans.forEach(span => {
+        if (!inView(span.start, span.end)) return;
+        content.append("text")
+            .attr("x", xScale((span.start + span.end) / 2))
+            .attr("y", IDEAL_Y - 6)
+            .attr("text-anchor", "middle")
+            .attr("fill", "#94a3b8")
+            .attr("font-size", "10px")
+            .attr("font-family", "monospace")
+            .text(span.char);
+    });
+
+    // Playback position, with a marker on the track being played
+    if (playheadTime !== null && inView(playheadTime, playheadTime)) {
+        content.append("line")
+            .attr("x1", xScale(playheadTime))
+            .attr("x2", xScale(playheadTime))
+            .attr("y1", 0)
+            .attr("y2", ROW_HEIGHT - 30)
+            .attr("stroke", "#f8fafc")
+            .attr("stroke-width", 1.5)
+            .attr("opacity", 0.8);
+        content.append("circle")
+            .attr("cx", xScale(playheadTime))
+            .attr("cy", (playheadTrack === 'user' ? USER_Y : IDEAL_Y) + BAR_HEIGHT / 2)
+            .attr("r", 3)
+            .attr("fill", "#f8fafc");
     }
 
+    // Dropped ideal marks and inserted user marks are drawn hollow with a dashed outline;
+    // matched user marks are colored by how far they are off the ideal
+    drawTrack('ideal', IDEAL_Y, "IDEAL", IDEAL_COLOR);
+    drawTrack('user', USER_Y, "YOU", "#cbd5e1");
+
     // "Waiting" overlay
     if (isListening && alignedUserSignals.length === 0) {
-        // If we are listening, check if there is an active ON signal happening right now
-        // activeSignal prop handles this, but if we are here, it means even with activeSignal 
-        // we haven't found an 'on' state yet?
-        // Note: alignedUserSignals depends on finding an 'on' signal.
-        // If activeSignal is 'on', alignedUserSignals should have content.
-        
-        // So if we are here, it means activeSignal is OFF or null, and history is empty/OFF.
-        
+        // alignedUserSignals depends on finding an 'on' signal, so if we are here the
+        // active signal is OFF or null and nothing has been keyed yet
         const text = activeSignal?.state === 'on' ? "Receiving..." : "Waiting for first tone...";
         const color = activeSignal?.state === 'on' ? "#4ade80" : "#94a3b8";
 
@@ -181,18 +400,51 @@ const Timeline: React.FC<TimelineProps> = ({ idealSignals, userSignals, wpm, isL
            .text(text);
     }
 
-  }, [idealSignals, alignedUserSignals, rowCount, innerWidth, width, isListening, activeSignal]);
+  }, [idealSignals, alignedUserSignals, userSignals.length, alignment, idealForUser, userForIdeal, charSpans, playheadTime, playheadTrack, transform, maxTime, width, height, wpm, clipId, isListening, activeSignal]);
+
+  const isZoomed = transform.k > 1;
+  const zoomButtonClass = "p-1 rounded bg-slate-800/80 hover:bg-slate-700 text-slate-400 hover:text-white border border-slate-700 disabled:opacity-40 transition-colors";
 
   return (
-    <div ref={containerRef} className="w-full border border-slate-700 rounded-lg bg-slate-950 shadow-inner">
-      <svg 
-        ref={svgRef} 
-        width={width} 
-        height={Math.max(100, totalHeight + MARGIN.top + MARGIN.bottom)} 
-        className="block"
+    <div ref={containerRef} className="relative w-full border border-slate-700 rounded-lg bg-slate-950 shadow-inner">
+      <div className="absolute top-1 right-2 z-10 flex items-center gap-1">
+        <div className="hidden md:flex items-center gap-2 mr-2 text-[10px] text-slate-500">
+          {(Object.keys(SEVERITY_COLORS) as ErrorSeverity[]).map(severity => (
+            <span key={severity} className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: SEVERITY_COLORS[severity] }} />
+              {severity}
+            </span>
+          ))}
+          <span className="ml-1">Ctrl+wheel to zoom, drag to pan</span>
+        </div>
+        <button onClick={() => zoomBy(ZOOM_STEP)} disabled={transform.k >= maxZoom} className={zoomButtonClass} title="Zoom in">
+          <ZoomIn className="w-3 h-3" />
+        </button>
+        <button onClick={() => zoomBy(1 / ZOOM_STEP)} disabled={!isZoomed} className={zoomButtonClass} title="Zoom out">
+          <ZoomOut className="w-3 h-3" />
+        </button>
+        <button onClick={resetZoom} disabled={!isZoomed} className={zoomButtonClass} title="Show the whole line">
+          <Maximize2 className="w-3 h-3" />
+        </button>
+      </div>
+      <svg
+        ref={svgRef}
+        width={width}
+        height={height}
+        className={`block ${isZoomed ? 'cursor-grab active:cursor-grabbing' : ''}`}
       />
+      {tooltip && (
+        <div
+          className="pointer-events-none absolute z-20 px-2 py-1 rounded bg-slate-800 border border-slate-600 text-[10px] font-mono text-slate-200 whitespace-nowrap shadow-lg"
+          style={{ left: tooltip.x + 12, top: tooltip.y + 12 }}
+        >
+          {tooltip.lines.map((line, i) => (
+            <div key={i} className={i === 0 ? 'text-slate-400' : ''}>{line}</div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
 
-export default Timeline;
\ No newline at end of file
+export default Timeline;
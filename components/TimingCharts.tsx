@@ -0,0 +1,276 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { BarChart3 } from 'lucide-react';
+import { AttemptRecord, ElementClass, SignalInterval } from '../types';
+import { collectTimingSamples, fitTrend, TimingSample } from '../utils/timingDistribution';
+
+interface TimingChartsProps {
+  signals: SignalInterval[]; // The attempt on the timeline
+  wpm: number;
+  sessionAttempts: AttemptRecord[]; // Saved attempts of the same session
+}
+
+type ChartScope = 'attempt' | 'session';
+
+const WIDTH = 300;
+const HEIGHT = 160;
+const MARGIN = { top: 14, right: 10, bottom: 24, left: 30 };
+
+// Histogram bins in dit units; longer intervals pile up in the last bin
+const BIN_UNITS = 0.25;
+const MARK_MAX_UNITS = 5;
+const GAP_MAX_UNITS = 10;
+const SCATTER_MAX_UNITS = 10;
+
+const CLASS_COLORS: Record<ElementClass, string> = {
+  '.': '#60a5fa',
+  '-': '#818cf8',
+  intra: '#64748b',
+  char: '#f59e0b',
+  word: '#f472b6',
+  end: '#334155',
+};
+
+const CLASS_LABELS: Record<ElementClass, string> = {
+  '.': 'dit',
+  '-': 'dah',
+  intra: 'element gap',
+  char: 'letter gap',
+  word: 'word gap',
+  end: 'end',
+};
+
+interface Marker {
+  units: number;
+  label: string;
+}
+
+const MARK_MARKERS: Marker[] = [{ units: 1, label: 'dit' }, { units: 3, label: 'dah' }];
+const GAP_MARKERS: Marker[] = [{ units: 1, label: 'el' }, { units: 3, label: 'ltr' }, { units: 7, label: 'word' }];
+
+const drawMarkers = (
+  svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+  xScale: d3.ScaleLinear<number, number>,
+  markers: Marker[]
+) => {
+  markers.forEach(m => {
+    svg.append("line")
+      .attr("x1", xScale(m.units))
+      .attr("x2", xScale(m.units))
+      .attr("y1", MARGIN.top)
+      .attr("y2", HEIGHT - MARGIN.bottom)
+      .attr("stroke", "#f8fafc")
+      .attr("stroke-dasharray", "3,3")
+      .attr("opacity", 0.5);
+    svg.append("text")
+      .attr("x", xScale(m.units))
+      .attr("y", MARGIN.top - 4)
+      .attr("text-anchor", "middle")
+      .attr("fill", "#94a3b8")
+      .attr("font-size", "9px")
+      .text(m.label);
+  });
+};
+
+interface HistogramProps {
+  title: string;
+  values: number[]; // dit units
+  maxUnits: number;
+  markers: Marker[];
+  color: string;
+}
+
+// Counts per BIN_UNITS bin, with dashed lines at the ideal lengths
+const Histogram: React.FC<HistogramProps> = ({ title, values, maxUnits, markers, color }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+
+    const xScale = d3.scaleLinear().domain([0, maxUnits]).range([MARGIN.left, WIDTH - MARGIN.right]);
+    const bins = d3.bin()
+      .domain([0, maxUnits])
+      .thresholds(d3.range(BIN_UNITS, maxUnits, BIN_UNITS))(values.map(v => Math.min(v, maxUnits - 1e-9)));
+    const yScale = d3.scaleLinear()
+      .domain([0, Math.max(1, d3.max(bins, b => b.length) ?? 1)])
+      .nice()
+      .range([HEIGHT - MARGIN.bottom, MARGIN.top]);
+
+    svg.append("g")
+      .attr("transform", `translate(0, ${HEIGHT - MARGIN.bottom})`)
+      .call(d3.axisBottom(xScale).ticks(maxUnits > 5 ? 10 : 5))
+      .style("color", "#475569");
+    svg.append("g")
+      .attr("transform", `translate(${MARGIN.left}, 0)`)
+      .call(d3.axisLeft(yScale).ticks(4).tickFormat(d3.format("d")))
+      .style("color", "#475569");
+
+    svg.selectAll("rect.bin")
+      .data(bins.filter(b => b.length > 0))
+      .enter()
+      .append("rect")
+      .attr("x", b => xScale(b.x0!) + 0.5)
+      .attr("y", b => yScale(b.length))
+      .attr("width", b => Math.max(1, xScale(b.x1!) - xScale(b.x0!) - 1))
+      .attr("height", b => yScale(0) - yScale(b.length))
+      .attr("fill", color)
+      .append("title")
+      .text(b => `${b.x0!.toFixed(2)}–${b.x1! >= maxUnits ? `${maxUnits}+` : b.x1!.toFixed(2)} dit: ${b.length}`);
+
+    drawMarkers(svg, xScale, markers);
+  }, [values, maxUnits, markers, color]);
+
+  return (
+    <div>
+      <div className="text-[10px] text-slate-500 uppercase mb-1">{title} <span className="normal-case">(dit units, n = {values.length})</span></div>
+      <svg ref={svgRef} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto block" />
+    </div>
+  );
+};
+
+interface ScatterProps {
+  samples: TimingSample[];
+  scope: ChartScope;
+}
+
+// Duration against position in the line, with a trend line through the dits and the dahs
+const Scatter: React.FC<ScatterProps> = ({ samples, scope }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  // A single attempt is plotted in seconds; a session in % of each line, so lines of different length overlay
+  const xOf = (s: TimingSample) => (scope === 'attempt' ? s.time : s.fraction * 100);
+
+  const trends = useMemo(() => (['.', '-'] as ElementClass[]).map(cls => {
+    const points = samples.filter(s => s.cls === cls).map(s => [xOf(s), s.units] as [number, number]);
+    return { cls, trend: fitTrend(points), xs: points.map(p => p[0]) };
+  }), [samples, scope]);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+
+    const maxX = scope === 'attempt' ? Math.max(1, d3.max(samples, xOf) ?? 1) : 100;
+    const xScale = d3.scaleLinear().domain([0, maxX]).range([MARGIN.left, WIDTH - MARGIN.right]);
+    const yScale = d3.scaleLinear().domain([0, SCATTER_MAX_UNITS]).range([HEIGHT - MARGIN.bottom, MARGIN.top]);
+
+    svg.append("g")
+      .attr("transform", `translate(0, ${HEIGHT - MARGIN.bottom})`)
+      .call(d3.axisBottom(xScale).ticks(5).tickFormat(d => `${d}${scope === 'attempt' ? 's' : '%'}`))
+      .style("color", "#475569");
+    svg.append("g")
+      .attr("transform", `translate(${MARGIN.left}, 0)`)
+      .call(d3.axisLeft(yScale).tickValues([1, 3, 7]))
+      .style("color", "#475569");
+
+    [1, 3, 7].forEach(units => {
+      svg.append("line")
+        .attr("x1", MARGIN.left)
+        .attr("x2", WIDTH - MARGIN.right)
+        .attr("y1", yScale(units))
+        .attr("y2", yScale(units))
+        .attr("stroke", "#334155")
+        .attr("stroke-dasharray", "3,3");
+    });
+
+    svg.selectAll("circle.sample")
+      .data(samples)
+      .enter()
+      .append("circle")
+      .attr("cx", s => xScale(xOf(s)))
+      .attr("cy", s => yScale(Math.min(s.units, SCATTER_MAX_UNITS)))
+      .attr("r", s => (s.state === 'on' ? 2.5 : 1.8))
+      .attr("fill", s => CLASS_COLORS[s.cls])
+      .attr("opacity", s => (s.state === 'on' ? 0.9 : 0.6))
+      .append("title")
+      .text(s => `${CLASS_LABELS[s.cls]}: ${s.units.toFixed(2)} dit`);
+
+    trends.forEach(({ cls, trend, xs }) => {
+      if (!trend) return;
+      const [x0, x1] = d3.extent(xs) as [number, number];
+      svg.append("line")
+        .attr("x1", xScale(x0))
+        .attr("x2", xScale(x1))
+        .attr("y1", yScale(trend.intercept + trend.slope * x0))
+        .attr("y2", yScale(trend.intercept + trend.slope * x1))
+        .attr("stroke", CLASS_COLORS[cls])
+        .attr("stroke-width", 1.5);
+    });
+  }, [samples, scope, trends]);
+
+  // Change in length from the start to the end of the line; longer elements = slowing down
+  const drift = trends.map(({ cls, trend, xs }) => {
+    if (!trend || xs.length === 0) return null;
+    const [x0, x1] = d3.extent(xs) as [number, number];
+    const startValue = trend.intercept + trend.slope * x0;
+    if (startValue <= 0) return null;
+    const change = (trend.slope * (x1 - x0)) / startValue * 100;
+    return `${CLASS_LABELS[cls]}s ${change >= 0 ? '+' : ''}${change.toFixed(0)}%`;
+  }).filter((d): d is string => d !== null);
+
+  return (
+    <div>
+      <div className="text-[10px] text-slate-500 uppercase mb-1">
+        Duration over the line
+        {drift.length > 0 && (
+          <span className="normal-case ml-2" title="Change along the trend line from first to last element; positive means slowing down">
+            {drift.join(' · ')}
+          </span>
+        )}
+      </div>
+      <svg ref={svgRef} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto block" />
+    </div>
+  );
+};
+
+const TimingCharts: React.FC<TimingChartsProps> = ({ signals, wpm, sessionAttempts }) => {
+  const [scope, setScope] = useState<ChartScope>('attempt');
+
+  const samples = useMemo(() => (scope === 'attempt'
+    ? collectTimingSamples(signals, wpm)
+    : sessionAttempts.flatMap(a => collectTimingSamples(a.signals, a.wpm))
+  ), [scope, signals, wpm, sessionAttempts]);
+
+  const markUnits = useMemo(() => samples.filter(s => s.state === 'on').map(s => s.units), [samples]);
+  const gapUnits = useMemo(() => samples.filter(s => s.state === 'off').map(s => s.units), [samples]);
+
+  const scopeButton = (value: ChartScope, label: string) => (
+    <button
+      onClick={() => setScope(value)}
+      className={`px-2 py-0.5 rounded border text-[10px] uppercase transition-colors ${
+        scope === value ? 'bg-slate-700 border-slate-600 text-white' : 'bg-slate-900 border-slate-800 text-slate-400 hover:text-white'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase">
+        <BarChart3 className="w-3 h-3" />
+        <span>Timing Distribution</span>
+        <div className="ml-auto flex gap-1 normal-case font-normal">
+          {scopeButton('attempt', 'This attempt')}
+          {scopeButton('session', `Session (${sessionAttempts.length})`)}
+        </div>
+      </div>
+
+      {samples.length === 0 ? (
+        <div className="text-slate-500 text-sm text-center py-4">
+          {scope === 'attempt' ? 'Send the line to see your timing distribution.' : 'No saved attempts in this session yet.'}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Histogram title="Marks" values={markUnits} maxUnits={MARK_MAX_UNITS} markers={MARK_MARKERS} color={CLASS_COLORS['.']} />
+          <Histogram title="Gaps" values={gapUnits} maxUnits={GAP_MAX_UNITS} markers={GAP_MARKERS} color={CLASS_COLORS.char} />
+          <Scatter samples={samples} scope={scope} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimingCharts;
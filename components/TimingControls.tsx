@@ -0,0 +1,92 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import { SpacingMode, TimingOptions } from '../types';
+
+interface TimingControlsProps {
+  wpm: number;
+  options: TimingOptions;
+  onChange: (options: TimingOptions) => void;
+}
+
+const inputClass = "w-14 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm px-2 py-1 focus:outline-none text-center font-mono [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none disabled:opacity-40";
+
+const TimingControls: React.FC<TimingControlsProps> = ({ wpm, options, onChange }) => {
+  const update = (patch: Partial<TimingOptions>) => onChange({ ...options, ...patch });
+
+  const parse = (value: string, min: number, max: number, fallback: number) => {
+    const v = parseFloat(value);
+    return Number.isFinite(v) ? Math.max(min, Math.min(max, v)) : fallback;
+  };
+
+  const spacingEnabled = options.effectiveWpm !== null;
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase">
+        <Timer className="w-3 h-3" />
+        <span>Timing</span>
+      </div>
+      <div className="flex items-center gap-3 text-[10px] text-slate-500 uppercase">
+        <label className="flex flex-col gap-0.5" title="Effective (overall) speed. Letter/word spaces are stretched to reach it.">
+          <span className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={spacingEnabled}
+              onChange={(e) => update({ effectiveWpm: e.target.checked ? Math.max(5, Math.round(wpm * 0.6)) : null })}
+              className="accent-blue-500"
+            />
+            Eff WPM
+          </span>
+          <input
+            type="number"
+            min="5"
+            max={wpm}
+            step="0.5"
+            value={options.effectiveWpm ?? wpm}
+            disabled={!spacingEnabled}
+            onChange={(e) => update({ effectiveWpm: parse(e.target.value, 5, wpm, wpm) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-0.5" title="Farnsworth stretches letter and word spaces, Wordsworth only word spaces">
+          <span>Spacing</span>
+          <select
+            value={options.spacing}
+            disabled={!spacingEnabled}
+            onChange={(e) => update({ spacing: e.target.value as SpacingMode })}
+            className="bg-slate-800 border border-slate-700 rounded-lg text-white text-xs px-1 py-1.5 focus:outline-none disabled:opacity-40"
+          >
+            <option value="farnsworth">Farnsworth</option>
+            <option value="wordsworth">Wordsworth</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-0.5" title="Keyer weight in percent (50 = standard 1:1 dit/space)">
+          <span>Weight %</span>
+          <input
+            type="number"
+            min="25"
+            max="75"
+            step="1"
+            value={options.weight}
+            onChange={(e) => update({ weight: parse(e.target.value, 25, 75, 50) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-0.5" title="Dah length in dits (3 = standard)">
+          <span>Dah:Dit</span>
+          <input
+            type="number"
+            min="2"
+            max="5"
+            step="0.1"
+            value={options.dahRatio}
+            onChange={(e) => update({ dahRatio: parse(e.target.value, 2, 5, 3) })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default TimingControls;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Target } from 'lucide-react';
+import { CharacterStat, CharacterStats } from '../types';
+
+interface WeakCharsPanelProps {
+  stats: CharacterStats;
+  onGenerateDrill: () => void;
+}
+
+const SHOW_COUNT = 10;
+
+const StatTable: React.FC<{ title: string; rows: CharacterStat[] }> = ({ title, rows }) => (
+  <table className="w-full text-xs font-mono text-slate-300">
+    <thead>
+      <tr className="text-slate-500 uppercase text-[10px]">
+        <th className="text-left font-semibold py-1">{title}</th>
+        <th className="text-right font-semibold">Errors</th>
+        <th className="text-right font-semibold">Timing (dit)</th>
+        <th className="text-right font-semibold">Seen</th>
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map(row => (
+        <tr key={row.key} className="border-t border-slate-800">
+          <td className="py-1 text-white">{row.key}</td>
+          <td className={`text-right ${row.errorRate >= 0.2 ? 'text-red-400' : row.errorRate > 0 ? 'text-yellow-400' : ''}`}>
+            {Math.round(row.errorRate * 100)}%
+          </td>
+          <td className={`text-right ${row.meanDeviation >= 0.5 ? 'text-red-400' : row.meanDeviation >= 0.25 ? 'text-yellow-400' : ''}`}>
+            ±{row.meanDeviation.toFixed(2)}
+          </td>
+          <td className="text-right text-slate-500">{row.attempts}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const WeakCharsPanel: React.FC<WeakCharsPanelProps> = ({ stats, onGenerateDrill }) => {
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase">
+        <Target className="w-3 h-3" />
+        <span>Weak Characters</span>
+        <button
+          onClick={onGenerateDrill}
+          disabled={stats.chars.length === 0}
+          className="ml-auto px-3 py-1 rounded-full bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white normal-case font-semibold transition-colors"
+          title="Replace the source text with practice lines weighted toward these characters"
+        >
+          Generate drill
+        </button>
+      </div>
+
+      {stats.chars.length === 0 ? (
+        <div className="text-slate-500 text-sm text-center py-2">Send a few lines to build up character statistics.</div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <StatTable title="Char" rows={stats.chars.slice(0, SHOW_COUNT)} />
+          <StatTable title="Pair" rows={stats.pairs.slice(0, SHOW_COUNT)} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WeakCharsPanel;
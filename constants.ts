@@ -1,4 +1,4 @@
-import { MorseChar } from './types';
+import { AlphabetId, EchoDrillSettings, KeyCommand, KeyerSettings, PracticeFlowSettings, SidetoneOptions, TimingOptions, ToneDetectionConfig } from './types';
 
 export const MORSE_MAP: Record<string, string> = {
   'A': '.-', 'B': '-...', 'C': '-.-.', 'D': '-..', 'E': '.', 'F': '..-.',
@@ -14,14 +14,160 @@ export const MORSE_MAP: Record<string, string> = {
   '"': '.-..-.', '$': '...-..-', '@': '.--.-.', ' ': '/'
 };
 
+// Prosigns are written in angle brackets and sent as one run-together character.
+// Any bracketed group is keyed that way; these are the ones the decoder names.
+export const PROSIGNS: Record<string, string> = {
+  '<AR>': '.-.-.', '<AS>': '.-...', '<BK>': '-...-.-', '<BT>': '-...-',
+  '<CL>': '-.-..-..', '<CT>': '-.-.-', '<HH>': '........', '<KN>': '-.--.',
+  '<SK>': '...-.-', '<SN>': '...-.', '<SOS>': '...---...'
+};
+
+// Extended alphabets are used on top of MORSE_MAP. Several share codes with Latin letters,
+// so the selected alphabet also decides which character the decoder reports for a code.
+export const EXTENDED_ALPHABETS: Record<Exclude<AlphabetId, 'international'>, { label: string; map: Record<string, string> }> = {
+  latin: {
+    label: 'Accented Latin',
+    map: {
+      'Ä': '.-.-', 'Á': '.--.-', 'À': '.--.-', 'Å': '.--.-', 'Ç': '-.-..', 'Ð': '..--.',
+      'É': '..-..', 'È': '.-..-', 'Ñ': '--.--', 'Ö': '---.', 'Ø': '---.', 'Ü': '..--',
+      'Þ': '.--..'
+    }
+  },
+  cyrillic: {
+    label: 'Cyrillic',
+    map: {
+      'А': '.-', 'Б': '-...', 'В': '.--', 'Г': '--.', 'Д': '-..', 'Е': '.', 'Ё': '.',
+      'Ж': '...-', 'З': '--..', 'И': '..', 'Й': '.---', 'К': '-.-', 'Л': '.-..', 'М': '--',
+      'Н': '-.', 'О': '---', 'П': '.--.', 'Р': '.-.', 'С': '...', 'Т': '-', 'У': '..-',
+      'Ф': '..-.', 'Х': '....', 'Ц': '-.-.', 'Ч': '---.', 'Ш': '----', 'Щ': '--.-',
+      'Ъ': '--.--', 'Ы': '-.--', 'Ь': '-..-', 'Э': '..-..', 'Ю': '..--', 'Я': '.-.-'
+    }
+  },
+  greek: {
+    label: 'Greek',
+    map: {
+      'Α': '.-', 'Β': '-...', 'Γ': '--.', 'Δ': '-..', 'Ε': '.', 'Ζ': '--..', 'Η': '....',
+      'Θ': '-.-.', 'Ι': '..', 'Κ': '-.-', 'Λ': '.-..', 'Μ': '--', 'Ν': '-.', 'Ξ': '-..-',
+      'Ο': '---', 'Π': '.--.', 'Ρ': '.-.', 'Σ': '...', 'Τ': '-', 'Υ': '-.--', 'Φ': '..-.',
+      'Χ': '----', 'Ψ': '--.-', 'Ω': '.--'
+    }
+  },
+  wabun: {
+    label: 'Wabun (Japanese)',
+    map: {
+      'イ': '.-', 'ロ': '.-.-', 'ハ': '-...', 'ニ': '-.-.', 'ホ': '-..', 'ヘ': '.', 'ト': '..-..',
+      'チ': '..-.', 'リ': '--.', 'ヌ': '....', 'ル': '-.--.', 'ヲ': '.---', 'ワ': '-.-', 'カ': '.-..',
+      'ヨ': '--', 'タ': '-.', 'レ': '---', 'ソ': '---.', 'ツ': '.--.', 'ネ': '--.-', 'ナ': '.-.',
+      'ラ': '...', 'ム': '-', 'ウ': '..-', 'ヰ': '.-..-', 'ノ': '..--', 'オ': '.-...', 'ク': '...-',
+      'ヤ': '.--', 'マ': '-..-', 'ケ': '-.--', 'フ': '--..', 'コ': '----', 'エ': '-.---', 'テ': '.-.--',
+      'ア': '--.--', 'サ': '-.-.-', 'キ': '-.-..', 'ユ': '-..--', 'メ': '-...-', 'ミ': '..-.-',
+      'シ': '--.-.', 'ヱ': '.--..', 'ヒ': '--..-', 'モ': '-..-.', 'セ': '.---.', 'ス': '---.-',
+      'ン': '.-.-.', 'ー': '.--.-', '、': '.-.-.-', '」': '.-.-..',
+      // Voiced / semi-voiced marks follow the base kana as their own character
+      '\u3099': '..', '\u309A': '..--.'
+    }
+  }
+};
+
+// Character -> code for the given alphabet (MORSE_MAP plus the extension)
+export const getMorseMap = (alphabet: AlphabetId = 'international'): Record<string, string> => {
+  if (alphabet === 'international') return MORSE_MAP;
+  return { ...MORSE_MAP, ...EXTENDED_ALPHABETS[alphabet].map };
+};
+
+// Code -> character for decoding. Within one map the first character listed for a code wins;
+// across maps later ones win: prosigns over the punctuation they share a code with, and the
+// selected alphabet over everything.
+export const getReverseMorseMap = (alphabet: AlphabetId = 'international'): Record<string, string> => {
+  const extension = alphabet === 'international' ? {} : EXTENDED_ALPHABETS[alphabet].map;
+  return [MORSE_MAP, PROSIGNS, extension].reduce((acc, map) => {
+    const reversed: Record<string, string> = {};
+    Object.entries(map).forEach(([char, code]) => {
+      if (char !== ' ' && !(code in reversed)) reversed[code] = char;
+    });
+    return { ...acc, ...reversed };
+  }, {} as Record<string, string>);
+};
+
 // Reverse map for decoding
-export const REVERSE_MORSE_MAP: Record<string, string> = Object.entries(MORSE_MAP).reduce((acc, [char, code]) => {
-  acc[code] = char;
-  return acc;
-}, {} as Record<string, string>);
+export const REVERSE_MORSE_MAP: Record<string, string> = getReverseMorseMap();
 
 // PARIS standard: 50 units per word
+export const PARIS_UNITS_PER_WORD = 50;
+
 // WPM to Dot Length (ms) formula: 1200 / WPM = dot length in ms
 export const calculateDotLength = (wpm: number): number => {
   return 1200 / wpm; 
 };
+
+// Inverse of calculateDotLength: dot length in ms to WPM
+export const calculateWpm = (dotMs: number): number => {
+  return 1200 / dotMs;
+};
+
+export const DEFAULT_TIMING_OPTIONS: TimingOptions = {
+  effectiveWpm: null,
+  spacing: 'farnsworth',
+  weight: 50,
+  dahRatio: 3
+};
+
+// Everyday English and ham radio words, used by generated drills and practice sets
+export const COMMON_WORDS: string[] = [
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one',
+  'our', 'out', 'day', 'get', 'has', 'him', 'his', 'how', 'man', 'new', 'now', 'old', 'see', 'two',
+  'way', 'who', 'boy', 'did', 'its', 'let', 'put', 'say', 'she', 'too', 'use', 'that', 'with',
+  'have', 'this', 'will', 'your', 'from', 'they', 'know', 'want', 'been', 'good', 'much', 'some',
+  'time', 'very', 'when', 'come', 'here', 'just', 'like', 'long', 'make', 'many', 'over', 'such',
+  'take', 'than', 'them', 'well', 'were', 'work', 'about', 'after', 'again', 'black', 'bring',
+  'could', 'every', 'first', 'found', 'great', 'house', 'large', 'learn', 'never', 'other',
+  'place', 'plant', 'point', 'right', 'small', 'sound', 'spell', 'still', 'study', 'their',
+  'there', 'these', 'thing', 'think', 'three', 'water', 'where', 'which', 'world', 'would',
+  'write', 'quick', 'jump', 'zone', 'quiz', 'jazz', 'fizz', 'box', 'fox', 'lazy', 'yes', 'why',
+  'radio', 'antenna', 'power', 'signal', 'copy', 'name', 'rig', 'key', 'paddle', 'band', 'freq',
+  'tnx', 'fer', 'rst', 'qth', 'wx', 'hr', 'es', 'ur', 'agn', 'cul', 'gm', 'ga', 'ge', 'om', 'yl',
+  'hi', 'pse', 'rpt', 'ant', 'dipole', 'vert', 'yagi', 'watts', 'sked', 'dx', 'qso', 'qrz', 'qsl',
+  'qrm', 'qrn', 'qsb', 'qrs', 'qrq', 'cq', 'de', 'bk', 'fb', 'vy', 'tu', '73', '88', '599', '5nn'
+];
+
+export const DEFAULT_KEY_COMMANDS: KeyCommand[] = [
+  { action: 'next', sequence: 'K' },
+  { action: 'restart', sequence: '<HH>' }, // Error: 8 dits
+  { action: 'prev', sequence: '<BK>' }
+];
+
+// Silence after a command sequence before it is acted on (seconds)
+export const COMMAND_PAUSE_SECONDS = 1.0;
+
+export const DEFAULT_SIDETONE: SidetoneOptions = {
+  pitch: 600,
+  volume: 0.5,
+  riseTime: 5
+};
+
+export const DEFAULT_TONE_DETECTION: ToneDetectionConfig = {
+  mode: 'tone',
+  pitch: 600,
+  bandwidth: 100,
+  autoPitch: true
+};
+
+export const DEFAULT_KEYER: KeyerSettings = {
+  mode: 'straight',
+  ditMemory: true,
+  dahMemory: true,
+  weight: 50
+};
+
+export const DEFAULT_PRACTICE_FLOW: PracticeFlowSettings = {
+  order: 'sequential',
+  repeatUntilPass: false,
+  passScore: 80,
+  autoAdvance: false
+};
+
+export const DEFAULT_ECHO_DRILL: EchoDrillSettings = {
+  rampAfter: 3,
+  rampStep: 1,
+  maxWpm: 40
+};
@@ -1,16 +1,51 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { SignalInterval } from '../types';
+import { KeyingControlMessage, KeyingEventMessage, KeyingLevels, SignalInterval, ToneDetectionConfig } from '../types';
+import { KEYING_PROCESSOR_NAME, KeyingDetector } from '../utils/keyingDetector';
+import { levelsFromThresholds } from '../utils/calibration';
+import keyingProcessorUrl from '../worklets/keyingProcessor.ts?worker&url';
 
 interface UseAudioKeyerProps {
   threshold: number; // 0.0 to 1.0
+  hysteresis: number; // Off level as a fraction of the threshold
+  detection: ToneDetectionConfig;
+  levels: KeyingLevels | null; // Last calibration, where noise tracking starts from
+  trackLevels: boolean;
   onSignalChange?: (signals: SignalInterval[]) => void;
+  onLevelsChange?: (levels: KeyingLevels) => void;
+  onAutoStop?: () => void; // Listening stopped by itself after the silence timeout
 }
 
-export const useAudioKeyer = ({ threshold, onSignalChange }: UseAudioKeyerProps) => {
+export interface AudioRecording {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+// Raw microphone audio is kept per attempt for WAV export, capped to bound memory
+const MAX_RECORDING_SECONDS = 300;
+
+interface RecordingBuffer {
+  chunks: Float32Array[];
+  length: number;
+  sampleRate: number;
+}
+
+const emptyRecording = (): RecordingBuffer => ({ chunks: [], length: 0, sampleRate: 48000 });
+
+export const useAudioKeyer = ({
+  threshold,
+  hysteresis,
+  detection,
+  levels,
+  trackLevels,
+  onSignalChange,
+  onLevelsChange,
+  onAutoStop
+}: UseAudioKeyerProps) => {
   const [isListening, setIsListening] = useState(false);
   const [currentLevel, setCurrentLevel] = useState(0);
   const [activeSignalStart, setActiveSignalStart] = useState<number | null>(null);
   const [isSignalOn, setIsSignalOn] = useState(false);
+  const [lockedPitch, setLockedPitch] = useState<number | null>(null);
   
   // Track listening state in ref for use in animation frame loop
   const isListeningRef = useRef(false);
@@ -19,36 +54,79 @@ export const useAudioKeyer = ({ threshold, onSignalChange }: UseAudioKeyerProps)
   }, [isListening]);
 
   const audioContextRef = useRef<AudioContext | null>(null);
-  const scriptNodeRef = useRef<ScriptProcessorNode | null>(null);
+  const workletNodeRef = useRef<AudioWorkletNode | null>(null);
   const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   
   // Visualization loop ref
   const rafRef = useRef<number>();
   
-  // Audio Processing State refs
-  const signalsRef = useRef<SignalInterval[]>([]);
-  const isSignalOnRef = useRef<boolean>(false); // The stable state
-  const lastChangeTimeRef = useRef<number>(0);
+  // Audio Processing State refs. Detection runs in the worklet; this detector mirrors
+  // what it has committed so the open segment can be finished when listening stops.
+  const detectorRef = useRef(new KeyingDetector());
   const startTimeRef = useRef<number>(0);
   const currentLevelRef = useRef<number>(0); // Instantaneous level for UI
-  const smoothedEnvRef = useRef<number>(0);  // Envelope follower state
+  const recordingRef = useRef<RecordingBuffer>(emptyRecording());
+  // Bumped on every reset; worklet messages from before it belong to the previous attempt
+  const epochRef = useRef(0);
 
   // Config refs
   const thresholdRef = useRef(threshold);
+  const hysteresisRef = useRef(hysteresis);
+  const detectionRef = useRef(detection);
+  const levelsRef = useRef(levels);
+  const trackLevelsRef = useRef(trackLevels);
   const onSignalChangeRef = useRef(onSignalChange);
+  const onAutoStopRef = useRef(onAutoStop);
+  const onLevelsChangeRef = useRef(onLevelsChange);
+
+  const postToWorklet = (msg: KeyingControlMessage) => {
+    workletNodeRef.current?.port.postMessage(msg);
+  };
+
+  // Where noise tracking starts: the calibration if there is one, else the current thresholds
+  const trackingStart = () => trackLevelsRef.current
+    ? levelsRef.current ?? levelsFromThresholds(thresholdRef.current, hysteresisRef.current)
+    : null;
 
   useEffect(() => {
     thresholdRef.current = threshold;
-  }, [threshold]);
+    hysteresisRef.current = hysteresis;
+    postToWorklet({ type: 'threshold', threshold, hysteresis });
+  }, [threshold, hysteresis]);
+
+  useEffect(() => {
+    levelsRef.current = levels;
+  }, [levels]);
+
+  useEffect(() => {
+    trackLevelsRef.current = trackLevels;
+    postToWorklet({ type: 'tracking', levels: trackingStart() });
+  }, [trackLevels]);
+
+  useEffect(() => {
+    detectionRef.current = detection;
+    postToWorklet({ type: 'detection', config: detection });
+  }, [detection]);
 
   useEffect(() => {
     onSignalChangeRef.current = onSignalChange;
   }, [onSignalChange]);
 
+  useEffect(() => {
+    onAutoStopRef.current = onAutoStop;
+  }, [onAutoStop]);
+
+  useEffect(() => {
+    onLevelsChangeRef.current = onLevelsChange;
+  }, [onLevelsChange]);
+
   const cleanup = useCallback(() => {
     if (rafRef.current) cancelAnimationFrame(rafRef.current);
-    if (scriptNodeRef.current) scriptNodeRef.current.disconnect();
+    if (workletNodeRef.current) {
+        workletNodeRef.current.port.onmessage = null;
+        workletNodeRef.current.disconnect();
+    }
     if (sourceRef.current) sourceRef.current.disconnect();
     if (streamRef.current) streamRef.current.getTracks().forEach(track => track.stop());
     if (audioContextRef.current) {
@@ -56,12 +134,12 @@ export const useAudioKeyer = ({ threshold, onSignalChange }: UseAudioKeyerProps)
     }
     
     audioContextRef.current = null;
-    scriptNodeRef.current = null;
+    workletNodeRef.current = null;
     setIsListening(false);
     setCurrentLevel(0);
     setActiveSignalStart(null);
     setIsSignalOn(false);
-    smoothedEnvRef.current = 0;
+    setLockedPitch(null);
   }, []);
 
   const stopListening = useCallback(() => {
@@ -69,18 +147,9 @@ export const useAudioKeyer = ({ threshold, onSignalChange }: UseAudioKeyerProps)
         // Commit final segment
         const now = audioContextRef.current.currentTime;
         const relativeNow = Math.max(0, now - startTimeRef.current);
-        const duration = relativeNow - lastChangeTimeRef.current;
-        
-        if (duration > 0.01) {
-             signalsRef.current = [
-              ...signalsRef.current,
-              {
-                startTime: lastChangeTimeRef.current,
-                duration: duration,
-                state: isSignalOnRef.current ? 'on' : 'off'
-              }
-            ];
-            if (onSignalChangeRef.current) onSignalChangeRef.current(signalsRef.current);
+        const detector = detectorRef.current;
+        if (detector.finish(relativeNow) && onSignalChangeRef.current) {
+            onSignalChangeRef.current(detector.signals);
         }
     }
     cleanup();
@@ -91,14 +160,16 @@ export const useAudioKeyer = ({ threshold, onSignalChange }: UseAudioKeyerProps)
     setCurrentLevel(currentLevelRef.current);
 
     // Auto-pause logic: Check if silence duration exceeds 5 seconds
-    if (isListeningRef.current && !isSignalOnRef.current && audioContextRef.current) {
+    const detector = detectorRef.current;
+    if (isListeningRef.current && !detector.isOn && audioContextRef.current) {
          const now = audioContextRef.current.currentTime;
          const relativeTime = Math.max(0, now - startTimeRef.current);
-         const silenceDuration = relativeTime - lastChangeTimeRef.current;
+         const silenceDuration = relativeTime - detector.lastChangeTime;
          
          // Only stop if we have actually started keying (recorded at least one signal segment)
-         if (signalsRef.current.length > 0 && silenceDuration > 5.0) {
+         if (detector.signals.length > 0 && silenceDuration > 5.0) {
              stopListening();
+             onAutoStopRef.current?.();
              return; // Stop the loop
          }
     }
@@ -129,143 +200,70 @@ export const useAudioKeyer = ({ threshold, onSignalChange }: UseAudioKeyerProps)
       }
       audioContextRef.current = audioCtx;
       
-      const scriptNode = audioCtx.createScriptProcessor(512, 1, 1);
-      scriptNodeRef.current = scriptNode;
+      await audioCtx.audioWorklet.addModule(keyingProcessorUrl);
+      const workletNode = new AudioWorkletNode(audioCtx, KEYING_PROCESSOR_NAME, {
+          numberOfInputs: 1,
+          numberOfOutputs: 1,
+          outputChannelCount: [1],
+          processorOptions: {
+              threshold: thresholdRef.current,
+              hysteresis: hysteresisRef.current,
+              detection: detectionRef.current,
+              tracking: trackingStart()
+          }
+      });
+      workletNodeRef.current = workletNode;
       
       const source = audioCtx.createMediaStreamSource(stream);
       sourceRef.current = source;
       
-      source.connect(scriptNode);
-      scriptNode.connect(audioCtx.destination);
+      // The worklet outputs silence; connecting it keeps it pulled by the graph
+      source.connect(workletNode);
+      workletNode.connect(audioCtx.destination);
 
       startTimeRef.current = audioCtx.currentTime;
-      lastChangeTimeRef.current = 0;
-      signalsRef.current = [];
-      isSignalOnRef.current = false;
-      smoothedEnvRef.current = 0;
+      detectorRef.current = new KeyingDetector();
+      recordingRef.current = emptyRecording();
+      postToWorklet({ type: 'reset', startTime: startTimeRef.current, epoch: ++epochRef.current });
       
-      // Detection Logic
-      scriptNode.onaudioprocess = (e) => {
-        const inputData = e.inputBuffer.getChannelData(0);
-        const outputData = e.outputBuffer.getChannelData(0);
-        const bufferLength = inputData.length;
-        const sampleRate = e.inputBuffer.sampleRate;
-        
-        // Use playbackTime as the definitive start time of this block
-        const bufferStartTime = e.playbackTime; 
-        
-        const th = thresholdRef.current;
-        const lowerTh = th * 0.6; // Hysteresis
-        let env = smoothedEnvRef.current;
-        let signalState = isSignalOnRef.current;
-        let maxValInChunk = 0;
-
-        for (let i = 0; i < bufferLength; i++) {
-             const absVal = Math.abs(inputData[i]);
-             if (absVal > maxValInChunk) maxValInChunk = absVal;
-
-             if (absVal > env) {
-                 env = env * 0.6 + absVal * 0.4; 
-             } else {
-                 env = env * 0.98;
-             }
-
-             // Time Calculation - CRITICAL FIX
-             // Ensure time never goes backwards due to clock drift or reset race conditions
-             const preciseTime = bufferStartTime + (i / sampleRate);
-             const relativeTime = Math.max(0, preciseTime - startTimeRef.current);
-
-             // State Detection
-             if (!signalState && env > th) {
-                 // Transition to ON
-                 const durationSinceLast = relativeTime - lastChangeTimeRef.current;
-
-                 // Logic: If previous 'OFF' duration was tiny (<15ms), treat it as glitch.
-                 if (durationSinceLast < 0.015 && signalsRef.current.length > 0) {
-                     // The gap was too short. Merge.
-                     // Last interval pushed was 'on' (because we were OFF).
-                     
-                     // We just continue that ON interval.
-                     // We DO NOT push a new OFF interval.
-                     // We update state to ON, effectively ignoring the gap.
-                     signalState = true;
-                     
-                     const lastSig = signalsRef.current.pop();
-                     if (lastSig && lastSig.state === 'on') {
-                         lastChangeTimeRef.current = lastSig.startTime;
-                     }
-                 } else {
-                     // Valid OFF segment detected. Push it.
-                     if (signalsRef.current.length > 0 || lastChangeTimeRef.current > 0) {
-                         signalsRef.current.push({
-                             startTime: lastChangeTimeRef.current,
-                             duration: durationSinceLast,
-                             state: 'off'
-                         });
-                     }
-                     // Start new ON segment
-                     lastChangeTimeRef.current = relativeTime;
-                     signalState = true;
-                 }
-                 
-             } else if (signalState && env < lowerTh) {
-                 // Transition to OFF
-                 const durationSinceLast = relativeTime - lastChangeTimeRef.current;
-                 
-                 // Short pulse suppression (Debounce ON signal)
-                 if (durationSinceLast < 0.015) {
-                     // Pulse too short. Ignore.
-                     // We were ON. Now turning OFF.
-                     
-                     const lastSig = signalsRef.current.length > 0 ? signalsRef.current[signalsRef.current.length - 1] : null;
-                     
-                     if (lastSig && lastSig.state === 'off') {
-                         // We are continuing that OFF.
-                         // So we remove it to "re-open" it?
-                         signalsRef.current.pop();
-                         lastChangeTimeRef.current = lastSig.startTime;
-                     } else if (signalsRef.current.length === 0) {
-                         // Very start of recording.
-                         // We are effectively still waiting for the first REAL signal.
-                         // Keep lastChangeTimeRef updating to current relativeTime to avoid a huge initial gap?
-                         // No, we want the first signal to start at '0' relative to when keying starts, 
-                         // or we align later.
-                         // Let's just treat this as if the ON never happened.
-                         // The gap (OFF state) continues.
-                         // We DO NOT update lastChangeTimeRef.
-                     }
-                     
-                     signalState = false;
-                     
-                 } else {
-                     // Valid ON segment. Push it.
-                     signalsRef.current.push({
-                         startTime: lastChangeTimeRef.current,
-                         duration: durationSinceLast,
-                         state: 'on'
-                     });
-                     
-                     // Start new OFF segment
-                     lastChangeTimeRef.current = relativeTime;
-                     signalState = false;
-                 }
-             }
+      // Detection runs in the worklet, which posts transitions, levels and raw audio back
+      workletNode.port.onmessage = (e: MessageEvent<KeyingEventMessage>) => {
+        const msg = e.data;
+        if (msg.epoch !== epochRef.current) return; // Queued before the last reset
+
+        if (msg.type === 'level') {
+            currentLevelRef.current = msg.peak;
+            return;
         }
-        
-        smoothedEnvRef.current = env;
-        currentLevelRef.current = maxValInChunk;
-        outputData.fill(0);
-
-        if (signalState !== isSignalOnRef.current) {
-             isSignalOnRef.current = signalState;
-             setIsSignalOn(signalState);
-             // When signal goes ON, we set active start to current time baseline
-             // When signal goes OFF, we set active start to null
-             setActiveSignalStart(signalState ? lastChangeTimeRef.current : null);
-             
-             if (onSignalChangeRef.current) {
-                 onSignalChangeRef.current([...signalsRef.current]);
-             }
+
+        if (msg.type === 'audio') {
+            // Keep a copy of the raw audio for WAV export, up to the cap
+            const rec = recordingRef.current;
+            if (rec.length < MAX_RECORDING_SECONDS * audioCtx.sampleRate) {
+                rec.chunks.push(msg.samples);
+                rec.length += msg.samples.length;
+                rec.sampleRate = audioCtx.sampleRate;
+            }
+            return;
+        }
+
+        if (msg.type === 'pitch') {
+            setLockedPitch(msg.pitch);
+            return;
+        }
+
+        if (msg.type === 'levels') {
+            if (onLevelsChangeRef.current) onLevelsChangeRef.current(msg.levels);
+            return;
+        }
+
+        detectorRef.current.restore(msg);
+        setIsSignalOn(msg.isOn);
+        // When signal goes ON, we set active start to current time baseline
+        // When signal goes OFF, we set active start to null
+        setActiveSignalStart(msg.isOn ? msg.lastChangeTime : null);
+        if (onSignalChangeRef.current) {
+            onSignalChangeRef.current([...msg.signals]);
         }
       };
 
@@ -279,15 +277,27 @@ export const useAudioKeyer = ({ threshold, onSignalChange }: UseAudioKeyerProps)
     }
   }, [cleanup, updateUI]);
 
+  // Raw microphone audio of the current attempt, or null if nothing was captured
+  const getRecording = useCallback((): AudioRecording | null => {
+    const rec = recordingRef.current;
+    if (rec.length === 0) return null;
+    const samples = new Float32Array(rec.length);
+    let offset = 0;
+    rec.chunks.forEach(chunk => {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return { samples, sampleRate: rec.sampleRate };
+  }, []);
+
   const resetSignals = useCallback(() => {
-    signalsRef.current = [];
-    smoothedEnvRef.current = 0;
-    isSignalOnRef.current = false;
+    detectorRef.current = new KeyingDetector();
+    recordingRef.current = emptyRecording();
     
     if (audioContextRef.current) {
         // Soft reset: Keep the context, but reset time zero.
         startTimeRef.current = audioContextRef.current.currentTime;
-        lastChangeTimeRef.current = 0;
+        postToWorklet({ type: 'reset', startTime: startTimeRef.current, epoch: ++epochRef.current });
         
         setIsSignalOn(false);
         setActiveSignalStart(null);
@@ -301,9 +311,12 @@ export const useAudioKeyer = ({ threshold, onSignalChange }: UseAudioKeyerProps)
     startListening,
     stopListening,
     resetSignals,
-    detectedSignals: signalsRef.current,
+    detectedSignals: detectorRef.current.signals,
     isSignalOn,
     activeSignalStart,
+    lockedPitch,
+    getRecording,
+    hasRecording: () => recordingRef.current.length > 0,
     getCurrentTime: () => {
         if (!audioContextRef.current) return 0;
         return Math.max(0, audioContextRef.current.currentTime - startTimeRef.current);
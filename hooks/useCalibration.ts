@@ -0,0 +1,76 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { CalibrationPhase, KeyingLevels, ToneDetectionConfig } from '../types';
+import { AudioRecording } from './useAudioKeyer';
+import { CALIBRATION_NOISE_SECONDS, CALIBRATION_TONE_SECONDS, computeCalibration } from '../utils/calibration';
+
+interface UseCalibrationProps {
+  isListening: boolean;
+  startListening: () => Promise<void>;
+  resetSignals: () => void;
+  getRecording: () => AudioRecording | null;
+  detection: ToneDetectionConfig;
+  lockedPitch: number | null;
+  onComplete: (levels: KeyingLevels) => void;
+}
+
+/**
+ * Calibration routine: records a couple of seconds of quiet, then a few long dahs,
+ * and sets the thresholds from the two levels. The recording is the keyer's own
+ * per-attempt audio, which is cleared afterwards so the dahs aren't kept as an attempt.
+ */
+export const useCalibration = (props: UseCalibrationProps) => {
+  const [phase, setPhase] = useState<CalibrationPhase>('idle');
+  const timerRef = useRef<number>();
+  const noiseEndRef = useRef(0);
+
+  // The timers outlive renders, so they read the latest props from here
+  const propsRef = useRef(props);
+  useEffect(() => {
+    propsRef.current = props;
+  });
+
+  const cancel = useCallback(() => {
+    window.clearTimeout(timerRef.current);
+    setPhase('idle');
+  }, []);
+
+  const finish = useCallback(() => {
+    const { getRecording, resetSignals, detection, lockedPitch, onComplete } = propsRef.current;
+    const recording = getRecording();
+    const levels = recording
+      ? computeCalibration(recording.samples, recording.sampleRate, noiseEndRef.current, detection, lockedPitch)
+      : null;
+    resetSignals();
+    if (levels) {
+      onComplete(levels);
+      setPhase('done');
+    } else {
+      setPhase('failed');
+    }
+  }, []);
+
+  const start = useCallback(async () => {
+    window.clearTimeout(timerRef.current);
+    const { isListening, startListening, resetSignals } = propsRef.current;
+    if (!isListening) await startListening();
+    resetSignals();
+    setPhase('noise');
+
+    timerRef.current = window.setTimeout(() => {
+      noiseEndRef.current = propsRef.current.getRecording()?.samples.length ?? 0;
+      setPhase('tone');
+      timerRef.current = window.setTimeout(finish, CALIBRATION_TONE_SECONDS * 1000);
+    }, CALIBRATION_NOISE_SECONDS * 1000);
+  }, [finish]);
+
+  useEffect(() => {
+    return () => window.clearTimeout(timerRef.current);
+  }, []);
+
+  return {
+    phase,
+    isCalibrating: phase === 'noise' || phase === 'tone',
+    start,
+    cancel
+  };
+};
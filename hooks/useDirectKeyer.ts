@@ -0,0 +1,261 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { KeyerSettings, KeyInputSource, PaddleContact, PaddleEdge, PaddleLog, SidetoneOptions, SignalInterval } from '../types';
+import { calculateDotLength } from '../constants';
+import { KeyingDetector } from '../utils/keyingDetector';
+import { IambicKeyer, KeyerTransition } from '../utils/iambicKeyer';
+import { createKeyInputDriver, KeyInputDriver } from '../services/keyInputDrivers';
+
+interface UseDirectKeyerProps {
+  source: KeyInputSource;
+  sidetone: SidetoneOptions;
+  keyer: KeyerSettings;
+  wpm: number; // Keyer speed
+  onSignalChange?: (signals: SignalInterval[]) => void;
+  onPaddleLogChange?: (log: PaddleLog | null) => void;
+  onAutoStop?: () => void; // Listening stopped by itself after the silence timeout
+}
+
+// Same silence timeout as the microphone keyer
+const AUTO_STOP_SECONDS = 5.0;
+
+/**
+ * Keying from a key wired to the computer instead of the microphone. Drivers report
+ * contact edges with performance.now() timestamps; they go through the same
+ * KeyingDetector edge logic, so the signals match what the audio path produces.
+ * A local sidetone follows the key, since there's no oscillator to listen to.
+ *
+ * With a keyer mode selected the contacts are paddles: their edges drive the software
+ * keyer, whose elements become the signals, and the edges are kept for the paddle analysis.
+ */
+export const useDirectKeyer = ({ source, sidetone, keyer, wpm, onSignalChange, onPaddleLogChange, onAutoStop }: UseDirectKeyerProps) => {
+  const [isListening, setIsListening] = useState(false);
+  const [activeSignalStart, setActiveSignalStart] = useState<number | null>(null);
+  const [isSignalOn, setIsSignalOn] = useState(false);
+
+  const driverRef = useRef<KeyInputDriver | null>(null);
+  const detectorRef = useRef(new KeyingDetector());
+  const keyerRef = useRef<IambicKeyer | null>(null);
+  const edgesRef = useRef<PaddleEdge[]>([]);
+  const contactsRef = useRef<Record<PaddleContact, boolean>>({ dit: false, dah: false });
+  const startTimeRef = useRef(0); // performance.now() of time zero, in ms
+  const rafRef = useRef<number>();
+
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const oscillatorRef = useRef<OscillatorNode | null>(null);
+  const gainRef = useRef<GainNode | null>(null);
+
+  const sidetoneRef = useRef(sidetone);
+  const keyerSettingsRef = useRef(keyer);
+  const unitRef = useRef(calculateDotLength(wpm) / 1000);
+  const onSignalChangeRef = useRef(onSignalChange);
+  const onPaddleLogChangeRef = useRef(onPaddleLogChange);
+  const onAutoStopRef = useRef(onAutoStop);
+
+  useEffect(() => {
+    sidetoneRef.current = sidetone;
+    if (oscillatorRef.current) oscillatorRef.current.frequency.value = sidetone.pitch;
+  }, [sidetone]);
+
+  useEffect(() => {
+    onSignalChangeRef.current = onSignalChange;
+    onPaddleLogChangeRef.current = onPaddleLogChange;
+    onAutoStopRef.current = onAutoStop;
+  }, [onSignalChange, onPaddleLogChange, onAutoStop]);
+
+  const relativeTime = (time: number) => Math.max(0, (time - startTimeRef.current) / 1000);
+
+  const setTone = (down: boolean) => {
+    const ctx = audioContextRef.current;
+    const gain = gainRef.current;
+    if (!ctx || !gain) return;
+    const { volume, riseTime } = sidetoneRef.current;
+    gain.gain.cancelScheduledValues(ctx.currentTime);
+    // setTargetAtTime reaches ~95% after three time constants
+    gain.gain.setTargetAtTime(down ? volume : 0, ctx.currentTime, Math.max(0.0005, riseTime / 3000));
+  };
+
+  // Keyer elements are known in full when they start, so the whole mark is scheduled at once
+  const scheduleTone = (start: number, end: number) => {
+    const ctx = audioContextRef.current;
+    const gain = gainRef.current;
+    if (!ctx || !gain) return;
+    const { volume, riseTime } = sidetoneRef.current;
+    const now = relativeTime(performance.now());
+    const toContext = (time: number) => ctx.currentTime + Math.max(0, time - now);
+    const timeConstant = Math.max(0.0005, riseTime / 3000);
+    gain.gain.cancelScheduledValues(ctx.currentTime);
+    gain.gain.setTargetAtTime(volume, toContext(start), timeConstant);
+    gain.gain.setTargetAtTime(0, toContext(end), timeConstant);
+  };
+
+  const reportPaddleLog = () => {
+    const keyer = keyerRef.current;
+    if (!onPaddleLogChangeRef.current) return;
+    onPaddleLogChangeRef.current(keyer
+      ? { keyer: keyerSettingsRef.current, edges: [...edgesRef.current], elements: [...keyer.elements] }
+      : null);
+  };
+
+  // Fresh detector (and keyer, in a keyer mode) for a new attempt starting now
+  const resetState = () => {
+    detectorRef.current = new KeyingDetector();
+    const settings = keyerSettingsRef.current;
+    keyerRef.current = settings.mode === 'straight' ? null : new IambicKeyer(settings, unitRef.current);
+    edgesRef.current = [];
+    contactsRef.current = { dit: false, dah: false };
+    startTimeRef.current = performance.now();
+  };
+
+  const cleanup = useCallback(() => {
+    if (rafRef.current) cancelAnimationFrame(rafRef.current);
+    driverRef.current?.stop();
+    driverRef.current = null;
+    audioContextRef.current?.close().catch(e => console.error("Error closing audio context", e));
+    audioContextRef.current = null;
+    oscillatorRef.current = null;
+    gainRef.current = null;
+    setIsListening(false);
+    setActiveSignalStart(null);
+    setIsSignalOn(false);
+  }, []);
+
+  // Feeds keyer output into the detector. The keyer's timing is exact, so its elements and
+  // spaces are committed as they are: at high speed they can be shorter than a glitch.
+  const applyTransitions = useCallback((transitions: KeyerTransition[]) => {
+    if (transitions.length === 0) return;
+    const detector = detectorRef.current;
+    transitions.forEach(({ down, time, element }) => {
+      if (down) scheduleTone(element.start, element.end);
+      detector.commitEdge(down, time);
+    });
+    setIsSignalOn(detector.isOn);
+    setActiveSignalStart(detector.isOn ? detector.lastChangeTime : null);
+    if (onSignalChangeRef.current) onSignalChangeRef.current([...detector.signals]);
+    reportPaddleLog();
+  }, []);
+
+  const stopListening = useCallback(() => {
+    const detector = detectorRef.current;
+    const now = relativeTime(performance.now());
+    if (driverRef.current && keyerRef.current) {
+      // Let an element in progress finish first
+      const keyer = keyerRef.current;
+      applyTransitions(keyer.advance(keyer.isSending ? Math.max(now, keyer.elements[keyer.elements.length - 1].end) : now));
+    }
+    if (driverRef.current && detector.finish(now) && onSignalChangeRef.current) {
+      onSignalChangeRef.current(detector.signals);
+    }
+    cleanup();
+  }, [cleanup, applyTransitions]);
+
+  // Runs the keyer clock, and auto-pauses after a long silence once keying has started
+  const updateUI = useCallback(() => {
+    const detector = detectorRef.current;
+    if (keyerRef.current) applyTransitions(keyerRef.current.advance(relativeTime(performance.now())));
+    if (!detector.isOn && !keyerRef.current?.isSending && detector.signals.length > 0 &&
+        relativeTime(performance.now()) - detector.lastChangeTime > AUTO_STOP_SECONDS) {
+      stopListening();
+      onAutoStopRef.current?.();
+      return;
+    }
+    rafRef.current = requestAnimationFrame(updateUI);
+  }, [stopListening, applyTransitions]);
+
+  const handleEdge = useCallback((down: boolean, time: number, contact: PaddleContact) => {
+    const contacts = contactsRef.current;
+    if (contacts[contact] === down) return;
+    contacts[contact] = down;
+
+    const keyer = keyerRef.current;
+    if (keyer) {
+      const edgeTime = relativeTime(time);
+      edgesRef.current.push({ contact, down, time: edgeTime });
+      applyTransitions(keyer.edge(contact, down, edgeTime));
+      return;
+    }
+
+    // Straight key: down while either contact is closed
+    const detector = detectorRef.current;
+    const keyDown = contacts.dit || contacts.dah;
+    if (keyDown === detector.isOn) return;
+    setTone(keyDown);
+
+    if (keyDown) detector.turnOn(relativeTime(time));
+    else detector.turnOff(relativeTime(time));
+
+    setIsSignalOn(detector.isOn);
+    setActiveSignalStart(detector.isOn ? detector.lastChangeTime : null);
+    if (onSignalChangeRef.current) onSignalChangeRef.current([...detector.signals]);
+  }, [applyTransitions]);
+
+  const startListening = useCallback(async () => {
+    try {
+      if (driverRef.current) cleanup();
+
+      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ latencyHint: 'interactive' });
+      if (ctx.state === 'suspended') await ctx.resume();
+      const oscillator = ctx.createOscillator();
+      oscillator.frequency.value = sidetoneRef.current.pitch;
+      const gain = ctx.createGain();
+      gain.gain.value = 0;
+      oscillator.connect(gain);
+      gain.connect(ctx.destination);
+      oscillator.start();
+      audioContextRef.current = ctx;
+      oscillatorRef.current = oscillator;
+      gainRef.current = gain;
+
+      // Drivers poll once as they start, so a contact already closed lands in the new attempt
+      resetState();
+      const driver = createKeyInputDriver(source);
+      try {
+        await driver.start(handleEdge);
+      } catch (err) {
+        // Release whatever it opened before failing, or the next start can't open it again
+        driver.stop();
+        throw err;
+      }
+      driverRef.current = driver;
+
+      reportPaddleLog();
+      setIsListening(true);
+      setActiveSignalStart(null);
+      rafRef.current = requestAnimationFrame(updateUI);
+    } catch (err) {
+      console.error("Error starting key input:", err);
+      cleanup();
+    }
+  }, [source, cleanup, handleEdge, updateUI]);
+
+  const resetSignals = useCallback(() => {
+    resetState();
+    setTone(false);
+    setIsSignalOn(false);
+    setActiveSignalStart(null);
+    if (onSignalChangeRef.current) onSignalChangeRef.current([]);
+    reportPaddleLog();
+  }, []);
+
+  useEffect(() => {
+    keyerSettingsRef.current = keyer;
+    unitRef.current = calculateDotLength(wpm) / 1000;
+    keyerRef.current?.configure(keyer, unitRef.current);
+    // Switching between straight key and keyer starts the attempt over
+    if (driverRef.current && (keyer.mode === 'straight') !== (keyerRef.current === null)) resetSignals();
+  }, [keyer, wpm, resetSignals]);
+
+  useEffect(() => {
+    return () => cleanup();
+  }, [cleanup]);
+
+  return {
+    isListening,
+    currentLevel: isSignalOn ? 1 : 0,
+    startListening,
+    stopListening,
+    resetSignals,
+    isSignalOn,
+    activeSignalStart,
+    getCurrentTime: () => (driverRef.current ? relativeTime(performance.now()) : 0)
+  };
+};
@@ -0,0 +1,54 @@
+import { useState, useCallback } from 'react';
+import { EchoDrillSettings, EchoPhase, EchoResult } from '../types';
+import { DEFAULT_ECHO_DRILL } from '../constants';
+import { rampEcho } from '../utils/echoDrill';
+
+/**
+ * Echo drill state: where the current call-and-response stands, the last reply's result and
+ * the run of passes toward the next speed step. Playback and listening stay with the caller,
+ * which moves the phase along as they start and stop. A speed step waits in rampedWpm until
+ * the next call, so the judged reply keeps being shown against the speed it was sent at.
+ */
+export const useEchoDrill = () => {
+  const [settings, setSettings] = useState<EchoDrillSettings>(DEFAULT_ECHO_DRILL);
+  const [phase, setPhase] = useState<EchoPhase>('idle');
+  const [streak, setStreak] = useState(0);
+  const [result, setResult] = useState<EchoResult | null>(null);
+  const [rampedWpm, setRampedWpm] = useState<number | null>(null);
+
+  // Play the hidden line (again)
+  const cue = useCallback(() => {
+    setResult(null);
+    setPhase('cue');
+  }, []);
+
+  const reset = useCallback(() => {
+    setResult(null);
+    setStreak(0);
+    setRampedWpm(null);
+    setPhase('idle');
+  }, []);
+
+  // Stores the judged reply, stepping the speed up when the streak completes
+  const record = useCallback((next: EchoResult, wpm: number) => {
+    const ramped = rampEcho(streak, next.passed, wpm, settings);
+    setStreak(ramped.streak);
+    setRampedWpm(ramped.wpm !== wpm ? ramped.wpm : null);
+    setResult(next);
+    setPhase('judged');
+  }, [streak, settings]);
+
+  return {
+    settings,
+    setSettings,
+    phase,
+    setPhase,
+    streak,
+    result,
+    rampedWpm,
+    clearRampedWpm: useCallback(() => setRampedWpm(null), []),
+    cue,
+    reset,
+    record,
+  };
+};
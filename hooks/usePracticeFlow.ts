@@ -0,0 +1,53 @@
+import { useState, useCallback, useMemo } from 'react';
+import { LineResult, PracticeFlowSettings, PracticeLine } from '../types';
+import { DEFAULT_PRACTICE_FLOW } from '../constants';
+import { addLineResult, createLineOrder, summarizePractice } from '../utils/practiceFlow';
+
+/**
+ * Practice session state on top of the line list: the order lines come up in, each
+ * line's attempts and best score, and whether the session has reached its end.
+ * Positions index `order`; the shuffle is redrawn on restart and when the line count changes.
+ */
+export const usePracticeFlow = (lines: PracticeLine[]) => {
+  const [settings, setSettings] = useState<PracticeFlowSettings>(DEFAULT_PRACTICE_FLOW);
+  const [seed, setSeed] = useState(() => Date.now());
+  const [results, setResults] = useState<Map<string, LineResult>>(() => new Map());
+  const [isFinished, setIsFinished] = useState(false);
+
+  const order = useMemo(
+    () => createLineOrder(lines.length, settings.order, seed),
+    [lines.length, settings.order, seed]
+  );
+
+  const lineAt = useCallback((position: number): PracticeLine | undefined => lines[order[position]], [lines, order]);
+
+  const recordResult = useCallback((lineText: string, score: number) => {
+    setResults(prev => new Map(prev).set(lineText, addLineResult(prev.get(lineText), score, settings.passScore)));
+  }, [settings.passScore]);
+
+  const isPassed = useCallback((lineText: string) => results.get(lineText)?.passed ?? false, [results]);
+
+  const summary = useMemo(() => summarizePractice(lines, results), [lines, results]);
+
+  // A fresh session over the same text: new shuffle, no results
+  const restart = useCallback(() => {
+    setSeed(Date.now());
+    setResults(new Map());
+    setIsFinished(false);
+  }, []);
+
+  return {
+    settings,
+    setSettings,
+    order,
+    lineAt,
+    results,
+    recordResult,
+    isPassed,
+    summary,
+    isFinished,
+    finish: useCallback(() => setIsFinished(true), []),
+    dismissSummary: useCallback(() => setIsFinished(false), []),
+    restart,
+  };
+};
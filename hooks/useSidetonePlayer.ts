@@ -0,0 +1,122 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { PlaybackTrack, SidetoneOptions, SignalInterval } from '../types';
+
+// Raised-cosine edge, sampled for setValueCurveAtTime
+const EDGE_STEPS = 32;
+const riseCurve = (volume: number) => Float32Array.from({ length: EDGE_STEPS }, (_, i) =>
+  volume * (1 - Math.cos(Math.PI * i / (EDGE_STEPS - 1))) / 2
+);
+
+// Lead-in so the first element isn't clipped while the oscillator starts
+const START_DELAY = 0.05;
+
+export const useSidetonePlayer = (options: SidetoneOptions) => {
+  const [playingTrack, setPlayingTrack] = useState<PlaybackTrack | null>(null);
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null);
+
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const oscillatorRef = useRef<OscillatorNode | null>(null);
+  const gainRef = useRef<GainNode | null>(null);
+  const rafRef = useRef<number>();
+
+  // Playback position is reported in the track's own timebase
+  const startedAtRef = useRef(0); // AudioContext time of the first element
+  const offsetRef = useRef(0);    // Track time of the first element
+  const endRef = useRef(0);       // Track time of the end of the last element
+
+  const stop = useCallback(() => {
+    if (rafRef.current) cancelAnimationFrame(rafRef.current);
+    if (oscillatorRef.current) {
+      try { oscillatorRef.current.stop(); } catch { /* already stopped */ }
+      oscillatorRef.current.disconnect();
+    }
+    if (gainRef.current) gainRef.current.disconnect();
+    oscillatorRef.current = null;
+    gainRef.current = null;
+    setPlayingTrack(null);
+    setPlaybackTime(null);
+  }, []);
+
+  const updatePlayhead = useCallback(() => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+    const time = offsetRef.current + Math.max(0, ctx.currentTime - startedAtRef.current);
+    if (time >= endRef.current) {
+      stop();
+      return;
+    }
+    setPlaybackTime(time);
+    rafRef.current = requestAnimationFrame(updatePlayhead);
+  }, [stop]);
+
+  // Plays the 'on' intervals as clean tone, starting at the first one
+  const play = useCallback(async (signals: SignalInterval[], track: PlaybackTrack) => {
+    stop();
+    const marks = signals.filter(s => s.state === 'on' && s.duration > 0);
+    if (marks.length === 0) return;
+
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({
+        latencyHint: 'interactive'
+      });
+    }
+    const ctx = audioContextRef.current;
+    if (ctx.state === 'suspended') await ctx.resume();
+
+    const oscillator = ctx.createOscillator();
+    oscillator.type = 'sine';
+    oscillator.frequency.value = options.pitch;
+    const gain = ctx.createGain();
+    gain.gain.value = 0;
+    oscillator.connect(gain);
+    gain.connect(ctx.destination);
+
+    const offset = marks[0].startTime;
+    const t0 = ctx.currentTime + START_DELAY;
+    const curve = riseCurve(options.volume);
+    const fallCurve = curve.slice().reverse();
+
+    marks.forEach(m => {
+      const start = t0 + (m.startTime - offset);
+      // Keep both edges inside the element, even for very short ones
+      const edge = Math.min(options.riseTime / 1000, m.duration / 3);
+      if (edge > 0) {
+        gain.gain.setValueCurveAtTime(curve, start, edge);
+        gain.gain.setValueCurveAtTime(fallCurve, start + m.duration - edge, edge);
+      } else {
+        gain.gain.setValueAtTime(options.volume, start);
+        gain.gain.setValueAtTime(0, start + m.duration);
+      }
+    });
+
+    const last = marks[marks.length - 1];
+    oscillator.start(t0);
+    oscillator.stop(t0 + (last.startTime + last.duration - offset) + 0.05);
+
+    oscillatorRef.current = oscillator;
+    gainRef.current = gain;
+    startedAtRef.current = t0;
+    offsetRef.current = offset;
+    endRef.current = last.startTime + last.duration;
+
+    setPlayingTrack(track);
+    setPlaybackTime(offset);
+    rafRef.current = requestAnimationFrame(updatePlayhead);
+  }, [options.pitch, options.volume, options.riseTime, stop, updatePlayhead]);
+
+  useEffect(() => {
+    return () => {
+      stop();
+      audioContextRef.current?.close().catch(e => console.error("Error closing audio context", e));
+      audioContextRef.current = null;
+    };
+  }, [stop]);
+
+  return {
+    isPlaying: playingTrack !== null,
+    playingTrack,
+    playbackTime,
+    play,
+    stop
+  };
+};
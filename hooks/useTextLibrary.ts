@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { TextSet } from '../types';
+import { BUILTIN_TEXT_SETS, DEFAULT_TEXT_SET_ID, textSetFromFile } from '../utils/textLibrary';
+import {
+  createTextSetId,
+  loadActiveTextSetId,
+  loadUserTextSets,
+  saveActiveTextSetId,
+  saveUserTextSets,
+} from '../services/textLibraryStore';
+
+// Generated drills and practice text all go into this one set, replacing its text each time
+const GENERATED_SET_ID = 'user:generated';
+
+/**
+ * The practice text library: the built-in sets plus the user's own, with the selected one
+ * feeding the Source Text box. Built-in sets are read-only, so editing one saves the edit
+ * as a new user set. Everything is persisted as it changes.
+ */
+export const useTextLibrary = () => {
+  const [userSets, setUserSets] = useState<TextSet[]>(loadUserTextSets);
+  const [activeId, setActiveId] = useState<string>(() => loadActiveTextSetId() ?? DEFAULT_TEXT_SET_ID);
+
+  const sets = useMemo(() => [...BUILTIN_TEXT_SETS, ...userSets], [userSets]);
+  const activeSet = sets.find(s => s.id === activeId) ?? BUILTIN_TEXT_SETS[0];
+
+  useEffect(() => {
+    saveUserTextSets(userSets);
+  }, [userSets]);
+
+  useEffect(() => {
+    saveActiveTextSetId(activeSet.id);
+  }, [activeSet.id]);
+
+  const addSet = useCallback((name: string, text: string, id: string = createTextSetId()) => {
+    setUserSets(prev => [...prev.filter(s => s.id !== id), { id, name, text }]);
+    setActiveId(id);
+  }, []);
+
+  const updateActiveText = useCallback((text: string) => {
+    if (activeSet.builtin) {
+      addSet(`${activeSet.name} (edited)`, text);
+    } else {
+      setUserSets(prev => prev.map(s => (s.id === activeSet.id ? { ...s, text } : s)));
+    }
+  }, [activeSet, addSet]);
+
+  const renameSet = useCallback((id: string, name: string) => {
+    setUserSets(prev => prev.map(s => (s.id === id ? { ...s, name } : s)));
+  }, []);
+
+  const deleteSet = useCallback((id: string) => {
+    setUserSets(prev => prev.filter(s => s.id !== id));
+    if (id === activeSet.id) setActiveId(DEFAULT_TEXT_SET_ID);
+  }, [activeSet.id]);
+
+  const loadGenerated = useCallback((text: string) => {
+    addSet('Generated', text, GENERATED_SET_ID);
+  }, [addSet]);
+
+  // Throws when the file holds no practice lines
+  const importFile = useCallback(async (file: File) => {
+    const { name, text } = textSetFromFile(file.name, await file.text());
+    addSet(name, text);
+  }, [addSet]);
+
+  return {
+    sets,
+    activeSet,
+    selectSet: setActiveId,
+    addSet,
+    updateActiveText,
+    renameSet,
+    deleteSet,
+    loadGenerated,
+    importFile,
+  };
+};
@@ -0,0 +1,56 @@
+import { SignalInterval, ToneDetectionConfig } from '../types';
+import { ToneKeyingDetector } from '../utils/toneDetector';
+
+// Same rate and block size as the live microphone path, so the envelope behaves identically
+const ANALYSIS_SAMPLE_RATE = 48000;
+const BLOCK_SIZE = 512;
+
+// Files are normalized to this peak so the threshold means the same for quiet and loud recordings
+const NORMALIZED_PEAK = 0.9;
+
+// Decodes the file and mixes it down to mono at the analysis rate
+const decodeToMono = async (file: File): Promise<Float32Array> => {
+  const data = await file.arrayBuffer();
+  const ctx = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  const buffer = await ctx.decodeAudioData(data);
+
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
+
+/**
+ * Runs a recording (WAV, MP3, OGG, whatever the browser decodes) through the
+ * keying detector offline. Throws if the file can't be decoded.
+ */
+export const analyzeAudioFile = async (
+  file: File,
+  threshold: number,
+  hysteresis: number,
+  detection: ToneDetectionConfig
+): Promise<SignalInterval[]> => {
+  const samples = await decodeToMono(file);
+
+  let peak = 0;
+  samples.forEach(s => { peak = Math.max(peak, Math.abs(s)); });
+  if (peak === 0) return [];
+  const gain = NORMALIZED_PEAK / peak;
+  samples.forEach((s, i) => { samples[i] = s * gain; });
+
+  const tone = new ToneKeyingDetector(detection, ANALYSIS_SAMPLE_RATE);
+  for (let offset = 0; offset < samples.length; offset += BLOCK_SIZE) {
+    const block = samples.subarray(offset, offset + BLOCK_SIZE);
+    tone.process(block, offset / ANALYSIS_SAMPLE_RATE, threshold, hysteresis);
+  }
+  tone.flush(threshold, hysteresis);
+  const detector = tone.detector;
+  detector.finish(samples.length / ANALYSIS_SAMPLE_RATE);
+
+  // Trailing silence says nothing about the fist
+  const signals = detector.signals;
+  while (signals.length > 0 && signals[signals.length - 1].state === 'off') signals.pop();
+  return signals;
+};
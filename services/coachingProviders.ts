@@ -0,0 +1,20 @@
+import { CoachingProvider } from '../types';
+import { coachLocally } from '../utils/coaching';
+import { generateCoaching, isGeminiConfigured } from './geminiService';
+
+export const localCoach: CoachingProvider = {
+  id: 'local',
+  label: 'Built-in',
+  isAvailable: () => true,
+  coach: async (input) => coachLocally(input),
+};
+
+// Only offered when the build provides an API key
+export const geminiCoach: CoachingProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  isAvailable: isGeminiConfigured,
+  coach: generateCoaching,
+};
+
+export const COACHING_PROVIDERS: CoachingProvider[] = [localCoach, geminiCoach];
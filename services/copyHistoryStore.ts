@@ -0,0 +1,27 @@
+import { CopyRecord } from '../types';
+
+// Copy results are small, so they live in localStorage; the oldest are dropped past the cap
+const COPY_HISTORY_KEY = 'cw-fistcheck:copy-history';
+const MAX_COPY_RECORDS = 1000;
+
+export const loadCopyHistory = (): CopyRecord[] => {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(COPY_HISTORY_KEY) ?? '[]');
+    return Array.isArray(parsed)
+      ? parsed.filter((r): r is CopyRecord => typeof r?.lineText === 'string' && typeof r?.typed === 'string')
+      : [];
+  } catch (error) {
+    console.error("Error loading copy history:", error);
+    return [];
+  }
+};
+
+export const saveCopyHistory = (records: CopyRecord[]): CopyRecord[] => {
+  const kept = records.slice(-MAX_COPY_RECORDS);
+  try {
+    localStorage.setItem(COPY_HISTORY_KEY, JSON.stringify(kept));
+  } catch (error) {
+    console.error("Error saving copy history:", error);
+  }
+  return kept;
+};
@@ -1,7 +1,19 @@
 import { GoogleGenAI } from "@google/genai";
+import { CoachingInput, CoachingTip, PracticeTextKind, PracticeTextRequest } from "../types";
+
+// process.env only exists when the build defines it, so guard the lookup
+const getApiKey = (): string | undefined => {
+  try {
+    return process.env.API_KEY || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const isGeminiConfigured = (): boolean => getApiKey() !== undefined;
 
 const getClient = () => {
-  const apiKey = process.env.API_KEY;
+  const apiKey = getApiKey();
   if (!apiKey) {
     console.error("API_KEY is missing from environment variables");
     return null;
@@ -9,28 +21,64 @@ const getClient = () => {
   return new GoogleGenAI({ apiKey });
 };
 
-export const generatePracticeText = async (type: 'callsigns' | 'qso' | 'words', userCallsign?: string): Promise<string> => {
-  const client = getClient();
-  if (!client) return "ERROR: API Key not found.";
+const CONTEST_EXCHANGES: Partial<Record<PracticeTextKind, string>> = {
+  'contest-serial': 'a 3-digit serial number (e.g. "DL2ABC 5NN 042")',
+  'contest-zone': 'the CQ zone of the callsign\'s country (e.g. "JA1XYZ 5NN 25")',
+  'contest-state': 'a US state or Canadian province abbreviation (e.g. "W1AW 5NN CT")',
+};
 
-  let prompt = "";
-  if (type === 'callsigns') {
-    prompt = "Generate a list of 10 random amateur radio callsigns separated by spaces. Do not include any other text.";
-  } else if (type === 'qso') {
+const buildPrompt = ({ kind, lineCount = 20, userCallsign }: PracticeTextRequest): string => {
+  if (kind === 'callsigns') {
+    return `Generate ${lineCount} lines of 3 or 4 random, realistic amateur radio callsigns separated by spaces. Do not include any other text.`;
+  }
+  if (kind === 'qso') {
     const callsignCtx = userCallsign ? ` Use the callsign "${userCallsign}" for one of the stations.` : "";
-    prompt = `Generate a realistic amateur radio CW (Morse code) QSO script.${callsignCtx} Do not include speaker labels (like 'Station A:'). Start with 'CQ CQ'. Use standard CW abbreviations (e.g. TNX, UR, RST, QTH). End each transmission with 'K', 'AR' or 'SK'. Keep it under 60 words. Format as plain text lines.`;
-  } else {
-    prompt = "Generate 10 random common english words for Morse code practice, separated by spaces.";
+    return `Generate a realistic amateur radio CW (Morse code) QSO script.${callsignCtx} Do not include speaker labels (like 'Station A:'). Start with 'CQ CQ'. Use standard CW abbreviations (e.g. TNX, UR, RST, QTH). End each transmission with 'K', 'AR' or 'SK'. Keep it under 60 words. Format as plain text lines.`;
   }
-
-  try {
-    const response = await client.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-    });
-    return response.text || "Failed to generate text.";
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    return "Error generating text. Please check API configuration.";
+  const exchange = CONTEST_EXCHANGES[kind];
+  if (exchange) {
+    return `Generate ${lineCount} CW contest exchanges, one per line, each a realistic amateur radio callsign, 5NN and ${exchange}. Do not include any other text.`;
   }
-};
\ No newline at end of file
+  return `Generate ${lineCount} lines of 3 to 5 random common english words for Morse code practice, separated by spaces. Do not include any other text.`;
+};
+
+// Throws when the key is missing or the request fails, so callers can show the reason
+export const generatePracticeText = async (request: PracticeTextRequest): Promise<string> => {
+  const client = getClient();
+  if (!client) throw new Error("Gemini API key not found");
+
+  const response = await client.models.generateContent({
+    model: 'gemini-3-flash-preview',
+    contents: buildPrompt(request),
+    config: { seed: request.seed },
+  });
+  const text = response.text?.trim();
+  if (!text) throw new Error("Gemini returned no text");
+  return text;
+};
+
+// Tips come back one per line; bullets and numbering are stripped
+const MAX_COACHING_TIPS = 4;
+
+export const generateCoaching = async (input: CoachingInput): Promise<CoachingTip[]> => {
+  const client = getClient();
+  if (!client) throw new Error("Gemini API key not found");
+
+  const prompt = `You are a Morse code (CW) sending coach. Below are timing metrics from one attempt at sending a line with a straight key or keyer. Gap and mark lengths are in dits of the sender's own measured speed; ideal ratios are what the target timing uses. speedDrift is the % change in mark length from start to end of the line (positive = slowing down). Misreads show text that decoded differently ("split" = gap inside a letter too long, "merged" = letter gap too short).
+
+${JSON.stringify(input)}
+
+Give at most ${MAX_COACHING_TIPS} short, specific tips about this sender's habits, most important first, one per line, each under 25 words. Refer to the actual numbers and letters. No preamble, no bullets.`;
+
+  const response = await client.models.generateContent({
+    model: 'gemini-3-flash-preview',
+    contents: prompt,
+  });
+  const tips = (response.text ?? '')
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+    .filter(line => line.length > 0)
+    .slice(0, MAX_COACHING_TIPS);
+  if (tips.length === 0) throw new Error("Gemini returned no advice");
+  return tips.map(text => ({ topic: 'general' as const, text }));
+};
@@ -0,0 +1,74 @@
+import { AttemptRecord } from '../types';
+
+const DB_NAME = 'cw-fistcheck';
+const DB_VERSION = 1;
+const ATTEMPTS_STORE = 'attempts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ATTEMPTS_STORE)) {
+          const store = db.createObjectStore(ATTEMPTS_STORE, { keyPath: 'id', autoIncrement: true });
+          store.createIndex('sessionId', 'sessionId');
+          store.createIndex('timestamp', 'timestamp');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Wraps a single-request transaction in a promise
+const runRequest = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ATTEMPTS_STORE, mode);
+    const request = fn(tx.objectStore(ATTEMPTS_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const createSessionId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+export const saveAttempt = async (record: AttemptRecord): Promise<AttemptRecord | null> => {
+  try {
+    const { id: _ignored, ...data } = record;
+    const id = await runRequest('readwrite', store => store.add(data));
+    return { ...data, id: id as number };
+  } catch (error) {
+    console.error("Error saving attempt:", error);
+    return null;
+  }
+};
+
+// All attempts, oldest first
+export const listAttempts = async (): Promise<AttemptRecord[]> => {
+  try {
+    return await runRequest('readonly', store => store.index('timestamp').getAll() as IDBRequest<AttemptRecord[]>);
+  } catch (error) {
+    console.error("Error loading history:", error);
+    return [];
+  }
+};
+
+export const deleteAttempt = async (id: number): Promise<boolean> => {
+  try {
+    await runRequest('readwrite', store => store.delete(id));
+    return true;
+  } catch (error) {
+    console.error("Error deleting attempt:", error);
+    return false;
+  }
+};
@@ -0,0 +1,228 @@
+import { KeyInputSource, PaddleContact } from '../types';
+
+// Key edge from a driver; `time` is a performance.now() timestamp in milliseconds.
+// Straight keys report on the dit contact; paddles use both.
+export type KeyEdgeHandler = (down: boolean, time: number, contact: PaddleContact) => void;
+
+export interface KeyInputDriver {
+  start: (onEdge: KeyEdgeHandler) => Promise<void>;
+  stop: () => void;
+}
+
+// Elements marked with this attribute act as a mouse key: left button dit, right button dah
+export const KEY_PAD_ATTRIBUTE = 'data-key-pad';
+
+// Keyboard paddles, in the layout USB paddle adapters that emulate a keyboard use
+const KEY_CONTACTS: Record<string, PaddleContact> = {
+  Space: 'dit',
+  ControlLeft: 'dit',
+  BracketLeft: 'dit',
+  ControlRight: 'dah',
+  BracketRight: 'dah',
+};
+
+// MIDI adapters send one note per contact; this one is the dah, any other note the dit
+const MIDI_DAH_NOTE = 2;
+
+// Serial lines are polled; browsers clamp timers to a few ms anyway
+const SERIAL_POLL_MS = 1;
+
+// Web Serial isn't in the DOM typings yet; this is the part we use
+interface SerialPortLike {
+  open: (options: { baudRate: number }) => Promise<void>;
+  close: () => Promise<void>;
+  setSignals: (signals: { dataTerminalReady?: boolean; requestToSend?: boolean }) => Promise<void>;
+  getSignals: () => Promise<{ clearToSend: boolean; dataSetReady: boolean }>;
+}
+
+interface SerialLike {
+  getPorts: () => Promise<SerialPortLike[]>;
+  requestPort: () => Promise<SerialPortLike>;
+}
+
+// A driver is created per attempt; the next one waits for the last one's port to close
+let serialClosed: Promise<void> = Promise.resolve();
+
+const isTyping = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  return !!el && (el.tagName === 'TEXTAREA' || el.tagName === 'SELECT' ||
+    (el.tagName === 'INPUT' && (el as HTMLInputElement).type !== 'range' && (el as HTMLInputElement).type !== 'checkbox'));
+};
+
+const onKeyPad = (target: EventTarget | null) => !!(target as Element | null)?.closest?.(`[${KEY_PAD_ATTRIBUTE}]`);
+
+const mouseContact = (button: number): PaddleContact | null => (button === 0 ? 'dit' : button === 2 ? 'dah' : null);
+
+// Keys anywhere (outside text fields), or the mouse buttons on a key pad
+const keyboardDriver = (): KeyInputDriver => {
+  let cleanup = () => {};
+  return {
+    start: async (onEdge) => {
+      const keysDown = new Set<string>();
+      const buttonsDown = new Set<PaddleContact>();
+
+      const onKeyDown = (e: KeyboardEvent) => {
+        const contact = KEY_CONTACTS[e.code];
+        if (!contact || isTyping(e.target)) return;
+        // Keep space from scrolling the page or clicking the focused button
+        e.preventDefault();
+        if (e.repeat || keysDown.has(e.code)) return;
+        keysDown.add(e.code);
+        onEdge(true, e.timeStamp, contact);
+      };
+      const onKeyUp = (e: KeyboardEvent) => {
+        if (!keysDown.has(e.code)) return;
+        e.preventDefault();
+        keysDown.delete(e.code);
+        onEdge(false, e.timeStamp, KEY_CONTACTS[e.code]);
+      };
+      const onMouseDown = (e: MouseEvent) => {
+        const contact = mouseContact(e.button);
+        if (!contact || !onKeyPad(e.target)) return;
+        e.preventDefault();
+        buttonsDown.add(contact);
+        onEdge(true, e.timeStamp, contact);
+      };
+      // Released anywhere, so dragging off the pad doesn't leave the key down
+      const onMouseUp = (e: MouseEvent) => {
+        const contact = mouseContact(e.button);
+        if (!contact || !buttonsDown.has(contact)) return;
+        buttonsDown.delete(contact);
+        onEdge(false, e.timeStamp, contact);
+      };
+      // The right button is the dah paddle on the pad, not a menu
+      const onContextMenu = (e: MouseEvent) => {
+        if (onKeyPad(e.target)) e.preventDefault();
+      };
+
+      // Capture phase, so the spacebar never reaches a focused button
+      window.addEventListener('keydown', onKeyDown, true);
+      window.addEventListener('keyup', onKeyUp, true);
+      window.addEventListener('mousedown', onMouseDown);
+      window.addEventListener('mouseup', onMouseUp);
+      window.addEventListener('contextmenu', onContextMenu);
+      cleanup = () => {
+        window.removeEventListener('keydown', onKeyDown, true);
+        window.removeEventListener('keyup', onKeyUp, true);
+        window.removeEventListener('mousedown', onMouseDown);
+        window.removeEventListener('mouseup', onMouseUp);
+        window.removeEventListener('contextmenu', onContextMenu);
+      };
+    },
+    stop: () => cleanup(),
+  };
+};
+
+// Note on/off from any MIDI input, as sent by common USB key adapters
+const midiDriver = (): KeyInputDriver => {
+  let access: MIDIAccess | null = null;
+  const attach = (onEdge: KeyEdgeHandler) => {
+    access?.inputs.forEach(input => {
+      input.onmidimessage = (e: MIDIMessageEvent) => {
+        if (!e.data || e.data.length < 3) return;
+        const [status, note, velocity] = e.data;
+        const command = status & 0xf0;
+        const contact: PaddleContact = note === MIDI_DAH_NOTE ? 'dah' : 'dit';
+        if (command === 0x90) onEdge(velocity > 0, e.timeStamp, contact);
+        else if (command === 0x80) onEdge(false, e.timeStamp, contact);
+      };
+    });
+  };
+  return {
+    start: async (onEdge) => {
+      if (!navigator.requestMIDIAccess) throw new Error('Web MIDI is not supported in this browser');
+      access = await navigator.requestMIDIAccess();
+      attach(onEdge);
+      // Adapters plugged in later
+      access.onstatechange = () => attach(onEdge);
+    },
+    stop: () => {
+      access?.inputs.forEach(input => { input.onmidimessage = null; });
+      if (access) access.onstatechange = null;
+      access = null;
+    },
+  };
+};
+
+// Serial adapter: DTR (and RTS) held high as the supply, the key (or dit paddle)
+// closes it onto CTS and the dah paddle onto DSR. The port chooser only comes up while no
+// port has been granted yet (it needs a click); later attempts reopen the granted port.
+const serialDriver = (): KeyInputDriver => {
+  let port: SerialPortLike | null = null;
+  let running = false;
+  return {
+    start: async (onEdge) => {
+      const serial = (navigator as Navigator & { serial?: SerialLike }).serial;
+      if (!serial) throw new Error('Web Serial is not supported in this browser');
+      const [granted] = await serial.getPorts();
+      port = granted ?? await serial.requestPort();
+      await serialClosed;
+      await port.open({ baudRate: 9600 });
+      await port.setSignals({ dataTerminalReady: true, requestToSend: true });
+      running = true;
+
+      let dit = false;
+      let dah = false;
+      const poll = async () => {
+        if (!running || !port) return;
+        try {
+          const signals = await port.getSignals();
+          const time = performance.now();
+          if (signals.clearToSend !== dit) {
+            dit = signals.clearToSend;
+            onEdge(dit, time, 'dit');
+          }
+          if (signals.dataSetReady !== dah) {
+            dah = signals.dataSetReady;
+            onEdge(dah, time, 'dah');
+          }
+          window.setTimeout(poll, SERIAL_POLL_MS);
+        } catch (e) {
+          console.error("Error reading serial key:", e);
+        }
+      };
+      poll();
+    },
+    stop: () => {
+      running = false;
+      if (port) serialClosed = port.close().catch(e => console.error("Error closing serial port", e));
+      port = null;
+    },
+  };
+};
+
+// First two buttons of any connected gamepad, dit and dah
+// (foot switches and arcade buttons show up as these)
+const gamepadDriver = (): KeyInputDriver => {
+  let raf: number | undefined;
+  return {
+    start: async (onEdge) => {
+      const down: Record<PaddleContact, boolean> = { dit: false, dah: false };
+      const poll = () => {
+        const pads = Array.from(navigator.getGamepads()).filter((pad): pad is Gamepad => pad !== null);
+        // The pad's own update time is closer to the press than this frame
+        const time = Math.max(0, ...pads.map(pad => pad.timestamp)) || performance.now();
+        (['dit', 'dah'] as PaddleContact[]).forEach((contact, button) => {
+          const pressed = pads.some(pad => pad.buttons[button]?.pressed);
+          if (pressed === down[contact]) return;
+          down[contact] = pressed;
+          onEdge(pressed, time, contact);
+        });
+        raf = requestAnimationFrame(poll);
+      };
+      poll();
+    },
+    stop: () => {
+      if (raf) cancelAnimationFrame(raf);
+    },
+  };
+};
+
+export const createKeyInputDriver = (source: KeyInputSource): KeyInputDriver => {
+  switch (source) {
+    case 'keyboard': return keyboardDriver();
+    case 'midi': return midiDriver();
+    case 'serial': return serialDriver();
+    case 'gamepad': return gamepadDriver();
+  }
+};
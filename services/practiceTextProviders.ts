@@ -0,0 +1,20 @@
+import { PracticeTextProvider } from '../types';
+import { generatePracticeLines } from '../utils/practiceText';
+import { generatePracticeText, isGeminiConfigured } from './geminiService';
+
+export const localPracticeText: PracticeTextProvider = {
+  id: 'local',
+  label: 'Built-in',
+  isAvailable: () => true,
+  generate: async (request) => generatePracticeLines(request),
+};
+
+// Only offered when the build provides an API key
+export const geminiPracticeText: PracticeTextProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  isAvailable: isGeminiConfigured,
+  generate: generatePracticeText,
+};
+
+export const PRACTICE_TEXT_PROVIDERS: PracticeTextProvider[] = [localPracticeText, geminiPracticeText];
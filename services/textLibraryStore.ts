@@ -0,0 +1,52 @@
+import { TextSet } from '../types';
+
+// User text sets and the selected set live in localStorage; they're small and read once on load
+const SETS_KEY = 'cw-fistcheck:text-sets';
+const ACTIVE_KEY = 'cw-fistcheck:active-text-set';
+
+export const createTextSetId = (): string => {
+  return `user:${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+const isTextSet = (value: unknown): value is TextSet => {
+  const set = value as TextSet;
+  return typeof set === 'object' && set !== null
+    && typeof set.id === 'string' && typeof set.name === 'string' && typeof set.text === 'string';
+};
+
+export const loadUserTextSets = (): TextSet[] => {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(SETS_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter(isTextSet).map(({ id, name, text }) => ({ id, name, text })) : [];
+  } catch (error) {
+    console.error("Error loading text sets:", error);
+    return [];
+  }
+};
+
+export const saveUserTextSets = (sets: TextSet[]): boolean => {
+  try {
+    localStorage.setItem(SETS_KEY, JSON.stringify(sets.map(({ id, name, text }) => ({ id, name, text }))));
+    return true;
+  } catch (error) {
+    // Quota exceeded or storage disabled
+    console.error("Error saving text sets:", error);
+    return false;
+  }
+};
+
+export const loadActiveTextSetId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const saveActiveTextSetId = (id: string) => {
+  try {
+    localStorage.setItem(ACTIVE_KEY, id);
+  } catch (error) {
+    console.error("Error saving selected text set:", error);
+  }
+};
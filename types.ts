@@ -1,9 +1,17 @@
+export type ElementKind = 'dit' | 'dah' | 'intra' | 'char' | 'word';
+
 export interface SignalInterval {
   startTime: number; // Relative to start of recording/line
   duration: number;
   state: 'on' | 'off';
+  // Only set on generated (ideal) timing
+  kind?: ElementKind;
+  char?: string;      // Character (or bracketed prosign) the element belongs to
+  charIndex?: number; // Index of that character in the line; gaps carry the preceding one
 }
 
+export type AlphabetId = 'international' | 'latin' | 'cyrillic' | 'greek' | 'wabun';
+
 export interface MorseChar {
   char: string;
   code: string;
@@ -11,6 +19,32 @@ export interface MorseChar {
 
 export type MorseTiming = SignalInterval[];
 
+// Farnsworth stretches letter and word spaces, Wordsworth only word spaces
+export type SpacingMode = 'farnsworth' | 'wordsworth';
+
+export interface TimingOptions {
+  effectiveWpm: number | null; // Overall speed; null (or >= character speed) = standard spacing
+  spacing: SpacingMode;
+  weight: number;   // Keyer weight in percent, 50 = standard
+  dahRatio: number; // Dah length in dits, 3 = standard
+}
+
+export type KeyCommandAction = 'next' | 'prev' | 'restart';
+
+// A sequence keyed on its own after a pause that triggers an action instead of being sent
+export interface KeyCommand {
+  action: KeyCommandAction;
+  sequence: string; // Text such as "K" or "<BK>", or a raw code such as "........"
+}
+
+export interface SidetoneOptions {
+  pitch: number;    // Hz
+  volume: number;   // 0-1
+  riseTime: number; // Rise/fall time of each element (ms)
+}
+
+export type PlaybackTrack = 'ideal' | 'user';
+
 export interface AudioConfig {
   wpm: number;
   threshold: number; // Audio amplitude threshold 0-1
@@ -21,3 +55,377 @@ export enum DetectionState {
   LISTENING,
   PROCESSING
 }
+
+export interface DurationStats {
+  count: number;
+  mean: number;   // seconds
+  stdDev: number; // seconds
+}
+
+// Gap and dah lengths expressed as multiples of the mean dit
+export interface TimingRatios {
+  dah: number | null;
+  intra: number | null;
+  char: number | null;
+  word: number | null;
+}
+
+export interface ElementError {
+  idealIndex: number;
+  userIndex: number;
+  kind: ElementKind;
+  idealDuration: number;
+  userDuration: number;
+  error: number;      // user - ideal, seconds
+  errorUnits: number; // error expressed in ideal dit units
+}
+
+export interface FistMetrics {
+  unit: number; // Measured dit length of the attempt (seconds)
+  stats: Record<ElementKind, DurationStats>;
+  idealStats: Record<ElementKind, DurationStats>;
+  ratios: TimingRatios;
+  idealRatios: TimingRatios;
+  elements: ElementError[];
+  meanAbsErrorUnits: number;
+  missingMarks: number; // Ideal marks with no matching user mark
+  extraMarks: number;   // User marks with no matching ideal mark
+  ratioScore: number;       // 0-100
+  consistencyScore: number; // 0-100
+  accuracyScore: number;    // 0-100
+  score: number;            // 0-100 overall
+}
+
+// char is ' ' for a word break, '*' for an unknown code
+export interface DecodedChar extends MorseChar {
+  startTime: number;
+  endTime: number;
+}
+
+export interface DecodeResult {
+  text: string;
+  chars: DecodedChar[];
+  unit: number; // Final adapted dit length (seconds)
+}
+
+// Decoder classification of a recorded interval ('end' = trailing silence)
+export type ElementClass = '.' | '-' | 'intra' | 'char' | 'word' | 'end';
+
+export interface ClassifiedElement {
+  index: number; // Index into the original signal array
+  cls: ElementClass;
+  unit: number;  // Running dit estimate at this element (seconds)
+}
+
+export interface AlignedPair {
+  idealIndex: number | null; // null = element the user inserted
+  userIndex: number | null;  // null = element the user dropped
+}
+
+export interface SpeedEstimate {
+  characterWpm: number; // Speed implied by the measured dit length
+  effectiveWpm: number; // PARIS words actually sent per minute, spacing included
+  unit: number;         // Measured dit length (seconds)
+}
+
+export type DiffOpType = 'match' | 'wrong' | 'missing' | 'extra';
+
+export interface DiffOp<T> {
+  type: DiffOpType;
+  expected?: T;
+  actual?: T;
+}
+
+// One recorded attempt at a line, as kept in the local history
+export interface AttemptRecord {
+  id?: number; // Assigned by the store
+  sessionId: string;
+  sessionStartedAt: number;
+  timestamp: number;
+  lineText: string;
+  wpm: number;
+  timing: TimingOptions;
+  alphabet: AlphabetId;
+  threshold: number;
+  signals: SignalInterval[];
+  metrics: FistMetrics | null;
+  decodedText: string;
+  characters?: CharacterResult[]; // Worked out when saved; missing on attempts stored before that
+  paddle?: PaddleLog; // Set when the software keyer generated the signals
+}
+
+// Portable form of one attempt (JSON export). The ideal timing follows from the settings,
+// but is included for tools that don't implement it.
+export interface AttemptExport {
+  format: 'cw-fistcheck-attempt';
+  version: number;
+  exportedAt: number;
+  timestamp: number;
+  lineText: string;
+  wpm: number;
+  timing: TimingOptions;
+  alphabet: AlphabetId;
+  threshold: number;
+  idealSignals: SignalInterval[];
+  userSignals: SignalInterval[];
+  metrics: FistMetrics | null;
+  decodedText: string;
+  paddle?: PaddleLog;
+}
+
+// Outcome of one character in one attempt
+export interface CharacterResult {
+  char: string;
+  next: string | null;         // Following character in the same word, for pair statistics
+  correct: boolean;            // Decoded as the expected code
+  deviation: number | null;    // Mean element timing error (dit units)
+  gapDeviation: number | null; // Letter-gap timing error towards `next` (dit units)
+}
+
+export interface CharacterStat {
+  key: string; // Character, or two characters for a pair
+  attempts: number;
+  errors: number;
+  errorRate: number;
+  meanDeviation: number; // dit units
+  weakness: number;      // Ranking score, higher = weaker
+}
+
+export interface CharacterStats {
+  chars: CharacterStat[]; // Weakest first
+  pairs: CharacterStat[]; // Weakest first
+}
+
+// Where keying comes from: the microphone, or a key wired to the computer
+export type KeyInputSource = 'keyboard' | 'midi' | 'serial' | 'gamepad';
+export type InputSource = 'microphone' | KeyInputSource;
+
+// The two contacts of a paddle; a straight key closes the dit contact
+export type PaddleContact = 'dit' | 'dah';
+
+// Straight passes the key through; the others run the software keyer on the paddle contacts
+export type KeyerMode = 'straight' | 'iambic-a' | 'iambic-b' | 'ultimatic';
+
+export interface KeyerSettings {
+  mode: KeyerMode;
+  ditMemory: boolean; // Remember a dit paddle tap made during a dah
+  dahMemory: boolean; // Remember a dah paddle tap made during a dit
+  weight: number;     // Mark/space weight in percent, 50 = standard
+}
+
+// A paddle contact closing or opening (seconds from the start of the attempt)
+export interface PaddleEdge {
+  contact: PaddleContact;
+  down: boolean;
+  time: number;
+}
+
+// An element the keyer sent
+export interface KeyerElement {
+  kind: PaddleContact;
+  start: number;
+  end: number;        // End of the mark
+  sampleTime: number; // End of the following space, where the keyer decides what comes next
+}
+
+// Paddle activity behind a keyer-generated attempt, kept for the paddle analysis
+export interface PaddleLog {
+  keyer: KeyerSettings;
+  edges: PaddleEdge[];
+  elements: KeyerElement[];
+}
+
+// squeeze = the other paddle for the next element of a letter; release = the end of a letter
+export type PaddleEventType = 'squeeze' | 'release';
+
+export interface PaddleTimingEvent {
+  type: PaddleEventType;
+  char: string;
+  charIndex: number;
+  time: number;        // The keyer's sample point the paddle had to beat
+  marginUnits: number; // How far ahead of the sample point the paddle moved (dits); negative = late
+}
+
+export interface PaddleMetrics {
+  events: PaddleTimingEvent[];
+  lateSqueezes: number;
+  lateReleases: number;
+  squeezeMargin: number | null; // Mean margin (dits)
+  releaseMargin: number | null; // Mean margin (dits)
+}
+
+// Broadband keys on any sound; tone band-passes around the sidetone pitch
+export type DetectionMode = 'broadband' | 'tone';
+
+export interface ToneDetectionConfig {
+  mode: DetectionMode;
+  pitch: number;      // Hz; the fallback when auto pitch finds nothing
+  bandwidth: number;  // Hz, -3 dB width of the band-pass
+  autoPitch: boolean; // Lock onto the strongest tone at the start of listening
+}
+
+// Measured signal levels (block peaks of the detector input) and the thresholds set from them
+export interface KeyingLevels {
+  noiseFloor: number;
+  toneLevel: number;
+  threshold: number;  // Turns on above this
+  hysteresis: number; // Turns off below threshold * hysteresis
+}
+
+export type CalibrationPhase = 'idle' | 'noise' | 'tone' | 'done' | 'failed';
+
+// Messages between useAudioKeyer and the keying detector AudioWorklet
+export type KeyingControlMessage =
+  | { type: 'reset'; startTime: number; epoch: number } // AudioContext time that becomes time zero
+  | { type: 'threshold'; threshold: number; hysteresis: number }
+  | { type: 'tracking'; levels: KeyingLevels | null } // null turns noise tracking off
+  | { type: 'detection'; config: ToneDetectionConfig };
+
+export type KeyingEvent =
+  | { type: 'transition'; signals: SignalInterval[]; isOn: boolean; lastChangeTime: number }
+  | { type: 'level'; peak: number }
+  | { type: 'audio'; samples: Float32Array }
+  | { type: 'pitch'; pitch: number | null }
+  | { type: 'levels'; levels: KeyingLevels };
+
+// Events carry the epoch of the last reset, so ones still queued from an earlier attempt can be dropped
+export type KeyingEventMessage = KeyingEvent & { epoch: number };
+
+// Generated practice material. Contest kinds differ in the exchange sent after the report.
+export type PracticeTextKind = 'callsigns' | 'qso' | 'contest-serial' | 'contest-zone' | 'contest-state' | 'words';
+
+export interface PracticeTextRequest {
+  kind: PracticeTextKind;
+  seed: number;
+  lineCount?: number;
+  userCallsign?: string; // Used as the operator's own station in QSOs; other kinds ignore it
+}
+
+// A backend for the source text generator: the local templates, or a language model
+export interface PracticeTextProvider {
+  id: string;
+  label: string;
+  isAvailable: () => boolean;
+  generate: (request: PracticeTextRequest) => Promise<string>;
+}
+
+// A stretch of the line that decoded differently from the text, e.g. L read as ED
+export interface CoachingMisread {
+  expected: string;
+  decoded: string;
+  cause: 'split' | 'merged' | 'wrong'; // Gap inside a letter too long, letter gap too short, or wrong elements
+}
+
+// What the coach is told about an attempt. Gap and mark lengths are in measured dits.
+export interface CoachingInput {
+  wpm: number;                 // Configured speed
+  measuredWpm: number | null;  // Character speed actually sent
+  ratios: TimingRatios;
+  idealRatios: TimingRatios;
+  ditVariation: number | null; // Coefficient of variation of the dits
+  dahVariation: number | null;
+  charGapAfterDit: number | null; // Mean letter gap after a letter ending in a dit
+  charGapAfterDah: number | null; // ... ending in a dah
+  speedDrift: number | null;      // % change in mark length from start to end of the line; positive = slowing
+  missingMarks: number;
+  extraMarks: number;
+  misreads: CoachingMisread[];
+  score: number;
+}
+
+export type CoachingTopic = 'decoding' | 'spacing' | 'ratio' | 'consistency' | 'speed' | 'general';
+
+export interface CoachingTip {
+  topic: CoachingTopic;
+  text: string;
+}
+
+// A backend for coaching advice: the local rules, or a language model
+export interface CoachingProvider {
+  id: string;
+  label: string;
+  isAvailable: () => boolean;
+  coach: (input: CoachingInput) => Promise<CoachingTip[]>;
+}
+
+// One line of practice text after comments are stripped, with its optional "| wpm=20" settings
+export interface PracticeLine {
+  text: string;
+  wpm?: number;
+  effectiveWpm?: number; // Farnsworth/Wordsworth speed for this line
+}
+
+// A named practice text in the library. Built-in sets are read-only.
+export interface TextSet {
+  id: string;
+  name: string;
+  text: string;
+  builtin?: boolean;
+}
+
+// How a practice session moves through the lines
+export type PracticeOrder = 'sequential' | 'shuffle';
+
+export interface PracticeFlowSettings {
+  order: PracticeOrder;
+  repeatUntilPass: boolean; // Stay on a line until an attempt scores passScore or more
+  passScore: number;        // 0-100
+  autoAdvance: boolean;     // Move on (or retry) by itself when keying stops
+}
+
+// Outcome of one line over a practice session
+export interface LineResult {
+  attempts: number;
+  bestScore: number;
+  passed: boolean;
+}
+
+export interface PracticeSummary {
+  total: number;     // Lines in the text
+  attempted: number; // Lines with at least one attempt
+  passed: number;
+  retried: number;   // Lines that took more than one attempt
+  attempts: number;
+  meanBestScore: number | null;
+}
+
+// Sending practice (keying, analysed against the ideal), receiving (copying by ear),
+// or echo (hear the hidden line, then send it back)
+export type PracticeMode = 'send' | 'copy' | 'echo';
+
+// One copied line: what was played and what was typed
+export interface CopyRecord {
+  timestamp: number;
+  lineText: string;
+  typed: string;
+  wpm: number;
+  timing: TimingOptions;
+  alphabet: AlphabetId;
+  plays: number; // Times the line was played before checking
+  score: number; // 0-100, characters copied correctly
+}
+
+export interface ReceiveCharStat {
+  key: string;
+  seen: number;
+  errors: number;
+  errorRate: number;
+  confusions: Array<{ char: string; count: number }>; // What it was copied as instead, most often first
+}
+
+// Echo drill: speed goes up after enough passing replies in a row
+export interface EchoDrillSettings {
+  rampAfter: number; // Consecutive passes before the speed steps up
+  rampStep: number;  // WPM added per step
+  maxWpm: number;
+}
+
+// cue: playback requested; playing: the line is sounding; reply: listening for the answer;
+// judging: the reply is complete and gets scored on the next render; failed: the line couldn't be played
+export type EchoPhase = 'idle' | 'cue' | 'playing' | 'reply' | 'judging' | 'judged' | 'failed';
+
+export interface EchoResult {
+  copied: boolean;     // The decoded reply reads as the hidden line
+  timingScore: number; // Fist score of the reply against the ideal timing
+  passed: boolean;     // Copied, with timing at or above the pass score
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { AttemptRecord } from '../types';
+import { DEFAULT_KEYER, DEFAULT_TIMING_OPTIONS } from '../constants';
+import { attemptFromJson, attemptToJson } from './attemptExport';
+import { textToIdealTiming } from './morseUtils';
+
+const WPM = 20;
+const ideal = textToIdealTiming('TEST', WPM, DEFAULT_TIMING_OPTIONS, 'international');
+
+const record: AttemptRecord = {
+  sessionId: 'session',
+  sessionStartedAt: 0,
+  timestamp: 1000,
+  lineText: 'TEST',
+  wpm: WPM,
+  timing: DEFAULT_TIMING_OPTIONS,
+  alphabet: 'international',
+  threshold: 0.2,
+  signals: ideal.map(({ startTime, duration, state }) => ({ startTime, duration, state })),
+  metrics: null,
+  decodedText: 'TEST',
+  paddle: {
+    keyer: { ...DEFAULT_KEYER, mode: 'iambic-b' },
+    edges: [{ contact: 'dah', down: true, time: 0 }, { contact: 'dah', down: false, time: 0.1 }],
+    elements: [{ kind: 'dah', start: 0, end: 0.18, sampleTime: 0.24 }],
+  },
+};
+
+// The exported JSON with some fields replaced
+const tampered = (patch: Record<string, unknown>) =>
+  JSON.stringify({ ...JSON.parse(attemptToJson(record, ideal)), ...patch });
+
+describe('attemptFromJson', () => {
+  it('reads back an exported attempt, paddle log included', () => {
+    const imported = attemptFromJson(attemptToJson(record, ideal));
+    expect(imported.lineText).toBe('TEST');
+    expect(imported.signals).toEqual(record.signals);
+    expect(imported.paddle).toEqual(record.paddle);
+    expect(imported.metrics?.score).toBeGreaterThan(90);
+  });
+
+  it('recomputes the metrics instead of trusting the file', () => {
+    const imported = attemptFromJson(tampered({ metrics: { score: 'high' } }));
+    expect(imported.metrics?.score).toBeGreaterThan(90);
+  });
+
+  it('rejects a damaged paddle log', () => {
+    expect(() => attemptFromJson(tampered({ paddle: { keyer: record.paddle!.keyer } }))).toThrow('Paddle log is invalid');
+    expect(() => attemptFromJson(tampered({ paddle: { ...record.paddle, elements: [{ kind: 'dit' }] } })))
+      .toThrow('Paddle element 0 is invalid');
+    expect(() => attemptFromJson(tampered({ paddle: { ...record.paddle, keyer: { mode: 'bug' } } })))
+      .toThrow('Paddle log keyer settings are invalid');
+  });
+
+  it('rejects timing options that are not an object', () => {
+    expect(() => attemptFromJson(tampered({ timing: 'farnsworth' }))).toThrow('Timing options are missing');
+    expect(() => attemptFromJson(tampered({ timing: { spacing: 'fast' } }))).toThrow('Timing options are invalid');
+  });
+});
@@ -0,0 +1,332 @@
+import { AlphabetId, AttemptExport, AttemptRecord, KeyerMode, PaddleLog, SignalInterval, SpacingMode, TimingOptions } from '../types';
+import { DEFAULT_TIMING_OPTIONS } from '../constants';
+import { textToIdealTiming } from './morseUtils';
+import { analyzeFist } from './fistAnalysis';
+import { decodeSignals } from './morseDecoder';
+import { csvRow, parseCsv } from './csv';
+
+const EXPORT_FORMAT = 'cw-fistcheck-attempt';
+const EXPORT_VERSION = 1;
+
+// Imported attempts aren't part of any local session
+export const IMPORTED_SESSION_ID = 'imported';
+
+// URL hash key of a shared attempt: #attempt=<base64url>
+const HASH_KEY = 'attempt';
+const LINK_VERSION = 1;
+
+const CSV_HEADER = ['track', 'index', 'state', 'startTime', 'duration', 'kind', 'char', 'charIndex'];
+
+const ALPHABETS: AlphabetId[] = ['international', 'latin', 'cyrillic', 'greek', 'wabun'];
+const SPACING_MODES: SpacingMode[] = ['farnsworth', 'wordsworth'];
+const KEYER_MODES: KeyerMode[] = ['straight', 'iambic-a', 'iambic-b', 'ultimatic'];
+
+const fail = (message: string): never => {
+  throw new Error(message);
+};
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+const isContact = (v: unknown) => v === 'dit' || v === 'dah';
+
+// --- Validation ---
+
+const checkSignals = (value: unknown, name: string): SignalInterval[] => {
+  if (!Array.isArray(value)) return fail(`${name} is missing`);
+  value.forEach((s, i) => {
+    if (!s || !isNumber(s.startTime) || !isNumber(s.duration) || (s.state !== 'on' && s.state !== 'off')) {
+      fail(`${name}[${i}] is not a signal interval`);
+    }
+  });
+  return value as SignalInterval[];
+};
+
+const checkTiming = (value: unknown): TimingOptions => {
+  if (!isObject(value)) return fail('Timing options are missing');
+  const timing = { ...DEFAULT_TIMING_OPTIONS, ...value };
+  if ((timing.effectiveWpm !== null && !isNumber(timing.effectiveWpm)) || !SPACING_MODES.includes(timing.spacing as SpacingMode) ||
+      !isNumber(timing.weight) || !isNumber(timing.dahRatio)) {
+    fail('Timing options are invalid');
+  }
+  return timing as TimingOptions;
+};
+
+// The paddle analysis walks these arrays as they are, so a damaged log is rejected outright
+const checkPaddle = (value: unknown): PaddleLog => {
+  if (!isObject(value) || !isObject(value.keyer) || !Array.isArray(value.edges) || !Array.isArray(value.elements)) {
+    return fail('Paddle log is invalid');
+  }
+  const { keyer, edges, elements } = value;
+  if (!KEYER_MODES.includes(keyer.mode as KeyerMode) || typeof keyer.ditMemory !== 'boolean' ||
+      typeof keyer.dahMemory !== 'boolean' || !isNumber(keyer.weight)) {
+    fail('Paddle log keyer settings are invalid');
+  }
+  edges.forEach((e: unknown, i) => {
+    if (!isObject(e) || !isContact(e.contact) || typeof e.down !== 'boolean' || !isNumber(e.time)) {
+      fail(`Paddle edge ${i} is invalid`);
+    }
+  });
+  elements.forEach((e: unknown, i) => {
+    if (!isObject(e) || !isContact(e.kind) || !isNumber(e.start) || !isNumber(e.end) || !isNumber(e.sampleTime)) {
+      fail(`Paddle element ${i} is invalid`);
+    }
+  });
+  return value as unknown as PaddleLog;
+};
+
+// The parts every format carries; the rest is recomputed where a format leaves it out
+interface AttemptCore {
+  timestamp: number;
+  lineText: string;
+  wpm: number;
+  timing: TimingOptions;
+  alphabet: AlphabetId;
+  threshold: number;
+  signals: SignalInterval[];
+}
+
+const checkCore = (core: Partial<Record<keyof AttemptCore, unknown>>): AttemptCore => {
+  if (typeof core.lineText !== 'string') fail('Line text is missing');
+  if (!isNumber(core.wpm) || core.wpm <= 0) fail('Speed is missing');
+  if (!ALPHABETS.includes(core.alphabet as AlphabetId)) fail('Unknown alphabet');
+  return {
+    timestamp: isNumber(core.timestamp) ? core.timestamp : Date.now(),
+    lineText: core.lineText as string,
+    wpm: core.wpm as number,
+    timing: checkTiming(core.timing),
+    alphabet: core.alphabet as AlphabetId,
+    threshold: isNumber(core.threshold) ? core.threshold : 0,
+    signals: checkSignals(core.signals, 'User signals'),
+  };
+};
+
+// A review-only record; metrics are always recomputed, the decoded text unless the export had it
+const toRecord = (core: AttemptCore, extra: Partial<AttemptRecord> = {}): AttemptRecord => {
+  const ideal = textToIdealTiming(core.lineText, core.wpm, core.timing, core.alphabet);
+  return {
+    sessionId: IMPORTED_SESSION_ID,
+    sessionStartedAt: core.timestamp,
+    timestamp: core.timestamp,
+    lineText: core.lineText,
+    wpm: core.wpm,
+    timing: core.timing,
+    alphabet: core.alphabet,
+    threshold: core.threshold,
+    signals: core.signals,
+    metrics: analyzeFist(ideal, core.signals, core.wpm),
+    decodedText: decodeSignals(core.signals, core.wpm, core.alphabet).text,
+    ...extra,
+  };
+};
+
+// --- JSON ---
+
+export const attemptToJson = (record: AttemptRecord, idealSignals: SignalInterval[]): string => {
+  const data: AttemptExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: Date.now(),
+    timestamp: record.timestamp,
+    lineText: record.lineText,
+    wpm: record.wpm,
+    timing: record.timing,
+    alphabet: record.alphabet,
+    threshold: record.threshold,
+    idealSignals,
+    userSignals: record.signals,
+    metrics: record.metrics,
+    decodedText: record.decodedText,
+    ...(record.paddle ? { paddle: record.paddle } : {}),
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+export const attemptFromJson = (text: string): AttemptRecord => {
+  let data: Partial<AttemptExport>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return fail('Not a valid JSON file');
+  }
+  if (data.format !== EXPORT_FORMAT) fail('Not a CW Fistcheck attempt');
+  if (!isNumber(data.version) || data.version > EXPORT_VERSION) fail('Exported by a newer version');
+
+  // Metrics are recomputed from the signals rather than trusted from the file
+  const core = checkCore({ ...data, signals: data.userSignals });
+  return toRecord(core, {
+    ...(typeof data.decodedText === 'string' ? { decodedText: data.decodedText } : {}),
+    ...(data.paddle !== undefined ? { paddle: checkPaddle(data.paddle) } : {}),
+  });
+};
+
+// --- CSV ---
+// Settings and scores come first as "# name,value" rows, then one row per interval of both tracks.
+// Numbers are written with full precision, so an import gives back the same values.
+
+export const attemptToCsv = (record: AttemptRecord, idealSignals: SignalInterval[]): string => {
+  const { metrics } = record;
+  const settings: Array<[string, string | number | null]> = [
+    ['format', `${EXPORT_FORMAT}/${EXPORT_VERSION}`],
+    ['timestamp', record.timestamp],
+    ['lineText', record.lineText],
+    ['wpm', record.wpm],
+    ['effectiveWpm', record.timing.effectiveWpm],
+    ['spacing', record.timing.spacing],
+    ['weight', record.timing.weight],
+    ['dahRatio', record.timing.dahRatio],
+    ['alphabet', record.alphabet],
+    ['threshold', record.threshold],
+    ['decodedText', record.decodedText],
+    ...(metrics ? [
+      ['score', metrics.score],
+      ['ratioScore', metrics.ratioScore],
+      ['consistencyScore', metrics.consistencyScore],
+      ['accuracyScore', metrics.accuracyScore],
+      ['meanAbsErrorUnits', metrics.meanAbsErrorUnits],
+      ['unit', metrics.unit],
+    ] as Array<[string, number]> : []),
+  ];
+
+  const intervals = (track: string, signals: SignalInterval[]) =>
+    signals.map((s, i) => csvRow([track, i, s.state, s.startTime, s.duration, s.kind, s.char, s.charIndex]));
+
+  return [
+    ...settings.map(([name, value]) => csvRow([`# ${name}`, value])),
+    csvRow(CSV_HEADER),
+    ...intervals('ideal', idealSignals),
+    ...intervals('user', record.signals),
+  ].join('\n') + '\n';
+};
+
+export const attemptFromCsv = (text: string): AttemptRecord => {
+  const rows = parseCsv(text);
+  const settings = new Map<string, string>();
+  rows.filter(r => r[0].startsWith('#')).forEach(r => settings.set(r[0].slice(1).trim(), r[1] ?? ''));
+  if (!settings.get('format')?.startsWith(EXPORT_FORMAT)) fail('Not a CW Fistcheck attempt');
+
+  const num = (name: string) => {
+    const value = settings.get(name);
+    return value !== undefined && value !== '' ? Number(value) : undefined;
+  };
+
+  const header = rows.find(r => !r[0].startsWith('#'));
+  if (!header || CSV_HEADER.some((name, i) => header[i] !== name)) fail('Interval table header is missing');
+  const signals = rows
+    .filter(r => r[0] === 'user')
+    .map(r => ({ startTime: Number(r[3]), duration: Number(r[4]), state: r[2] as SignalInterval['state'] }));
+
+  const core = checkCore({
+    timestamp: num('timestamp'),
+    lineText: settings.get('lineText'),
+    wpm: num('wpm'),
+    timing: {
+      effectiveWpm: num('effectiveWpm') ?? null,
+      spacing: settings.get('spacing'),
+      weight: num('weight'),
+      dahRatio: num('dahRatio'),
+    },
+    alphabet: settings.get('alphabet'),
+    threshold: num('threshold'),
+    signals,
+  });
+  return toRecord(core);
+};
+
+// --- Shareable link ---
+// Binary payload: version byte, JSON length (uint16), JSON settings, then each user interval as
+// two float64s (start, duration), so the timing comes back bit for bit.
+// States are in the JSON as a string of 1s and 0s. Paddle logs stay out to keep links short.
+
+interface LinkSettings {
+  l: string;
+  w: number;
+  t: TimingOptions;
+  a: AlphabetId;
+  th: number;
+  ts: number;
+  o: string; // '1' = on, '0' = off, per interval
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+// The hash fragment (without '#') that opens this attempt
+export const attemptToHash = (record: AttemptRecord): string => {
+  const settings: LinkSettings = {
+    l: record.lineText,
+    w: record.wpm,
+    t: record.timing,
+    a: record.alphabet,
+    th: record.threshold,
+    ts: record.timestamp,
+    o: record.signals.map(s => (s.state === 'on' ? '1' : '0')).join(''),
+  };
+  const json = new TextEncoder().encode(JSON.stringify(settings));
+  const bytes = new Uint8Array(3 + json.length + record.signals.length * 16);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, LINK_VERSION);
+  view.setUint16(1, json.length);
+  bytes.set(json, 3);
+  record.signals.forEach((s, i) => {
+    view.setFloat64(3 + json.length + i * 16, s.startTime);
+    view.setFloat64(3 + json.length + i * 16 + 8, s.duration);
+  });
+  return `${HASH_KEY}=${toBase64Url(bytes)}`;
+};
+
+// The attempt in a URL hash, or null if the hash doesn't hold one. Throws if it's damaged.
+export const attemptFromHash = (hash: string): AttemptRecord | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const encoded = params.get(HASH_KEY);
+  if (!encoded) return null;
+
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(encoded);
+  } catch {
+    return fail('The link is damaged');
+  }
+  if (bytes.length < 3) fail('The link is damaged');
+  const view = new DataView(bytes.buffer);
+  if (view.getUint8(0) > LINK_VERSION) fail('Link made by a newer version');
+  const jsonLength = view.getUint16(1);
+
+  let settings: LinkSettings;
+  try {
+    settings = JSON.parse(new TextDecoder().decode(bytes.subarray(3, 3 + jsonLength)));
+  } catch {
+    return fail('The link is damaged');
+  }
+  const count = typeof settings.o === 'string' ? settings.o.length : 0;
+  if (bytes.length !== 3 + jsonLength + count * 16) fail('The link is damaged');
+
+  const signals: SignalInterval[] = Array.from({ length: count }, (_, i) => ({
+    startTime: view.getFloat64(3 + jsonLength + i * 16),
+    duration: view.getFloat64(3 + jsonLength + i * 16 + 8),
+    state: settings.o[i] === '1' ? 'on' : 'off',
+  }));
+
+  return toRecord(checkCore({
+    timestamp: settings.ts,
+    lineText: settings.l,
+    wpm: settings.w,
+    timing: settings.t,
+    alphabet: settings.a,
+    threshold: settings.th,
+    signals,
+  }));
+};
+
+// JSON or CSV, told apart by content
+export const importAttempt = (text: string): AttemptRecord =>
+  text.trimStart().startsWith('{') ? attemptFromJson(text) : attemptFromCsv(text);
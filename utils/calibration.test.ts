@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { ToneDetectionConfig } from '../types';
+import { computeCalibration, levelsFromMeasurements } from './calibration';
+
+const SAMPLE_RATE = 48000;
+const BROADBAND: ToneDetectionConfig = { mode: 'broadband', pitch: 600, bandwidth: 100, autoPitch: false };
+
+// Constant-level recording: `noise` for the quiet part, then `tone` for the rest
+const recording = (noise: number, tone: number, noiseSeconds = 1, toneSeconds = 1): Float32Array => {
+  const noiseEnd = noiseSeconds * SAMPLE_RATE;
+  const samples = new Float32Array(noiseEnd + toneSeconds * SAMPLE_RATE);
+  samples.fill(noise, 0, noiseEnd);
+  samples.fill(tone, noiseEnd);
+  return samples;
+};
+
+describe('levelsFromMeasurements', () => {
+  it('puts the thresholds between the noise floor and the tone level', () => {
+    const levels = levelsFromMeasurements(0.02, 0.42);
+    expect(levels).not.toBeNull();
+    expect(levels!.threshold).toBeCloseTo(0.22, 6);
+    expect(levels!.threshold * levels!.hysteresis).toBeCloseTo(0.12, 6);
+  });
+
+  it('rejects levels that are too close, or not numbers', () => {
+    expect(levelsFromMeasurements(0.1, 0.2)).toBeNull();
+    expect(levelsFromMeasurements(0.02, NaN)).toBeNull();
+    expect(levelsFromMeasurements(NaN, 0.4)).toBeNull();
+    expect(levelsFromMeasurements(Infinity, Infinity)).toBeNull();
+  });
+});
+
+describe('computeCalibration', () => {
+  it('measures a recording with a clear tone', () => {
+    const samples = recording(0.02, 0.4);
+    const levels = computeCalibration(samples, SAMPLE_RATE, SAMPLE_RATE, BROADBAND, null);
+    expect(levels).not.toBeNull();
+    expect(levels!.toneLevel).toBeCloseTo(0.4, 6);
+    expect(Number.isFinite(levels!.threshold)).toBe(true);
+  });
+
+  it('returns null when nothing in the tone phase rises above the noise floor', () => {
+    const samples = recording(0.05, 0.01);
+    expect(computeCalibration(samples, SAMPLE_RATE, SAMPLE_RATE, BROADBAND, null)).toBeNull();
+  });
+});
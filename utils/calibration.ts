@@ -0,0 +1,139 @@
+import { KeyingLevels, ToneDetectionConfig } from '../types';
+import { BandpassFilter, findStrongestTone } from './toneDetector';
+
+// Levels are peaks over blocks of this many frames, the same blocks the level meter shows
+export const LEVEL_BLOCK_FRAMES = 512;
+
+// Calibration: quiet first, then a few long dahs
+export const CALIBRATION_NOISE_SECONDS = 2;
+export const CALIBRATION_TONE_SECONDS = 5;
+
+// Where the on/off thresholds sit between the noise floor (0) and the tone level (1)
+const ON_POSITION = 0.5;
+const OFF_POSITION = 0.25;
+
+// The tone has to be this many times the noise floor to calibrate at all
+const MIN_SNR = 3;
+
+// Noise floor = mean + this many standard deviations of the quiet block peaks
+const NOISE_SPREAD = 2;
+
+// Continuous tracking follows slow changes only (seconds)
+const NOISE_TIME_CONSTANT = 5;
+const TONE_TIME_CONSTANT = 3;
+
+// Thresholds from a noise floor and tone level, or null if they're too close to key reliably
+export const levelsFromMeasurements = (noiseFloor: number, toneLevel: number): KeyingLevels | null => {
+  if (!Number.isFinite(noiseFloor) || !Number.isFinite(toneLevel)) return null;
+  if (toneLevel <= 0 || toneLevel < noiseFloor * MIN_SNR) return null;
+  const span = toneLevel - noiseFloor;
+  const threshold = noiseFloor + ON_POSITION * span;
+  const off = noiseFloor + OFF_POSITION * span;
+  return { noiseFloor, toneLevel, threshold, hysteresis: off / threshold };
+};
+
+// The levels implied by hand-set thresholds (the inverse of levelsFromMeasurements)
+export const levelsFromThresholds = (threshold: number, hysteresis: number): KeyingLevels => {
+  const off = threshold * hysteresis;
+  const span = (threshold - off) / (ON_POSITION - OFF_POSITION);
+  const noiseFloor = Math.max(0, threshold - ON_POSITION * span);
+  return { noiseFloor, toneLevel: noiseFloor + span, threshold, hysteresis };
+};
+
+const blockPeaks = (samples: Float32Array): number[] => {
+  const peaks: number[] = [];
+  for (let offset = 0; offset + LEVEL_BLOCK_FRAMES <= samples.length; offset += LEVEL_BLOCK_FRAMES) {
+    let peak = 0;
+    for (let i = offset; i < offset + LEVEL_BLOCK_FRAMES; i++) peak = Math.max(peak, Math.abs(samples[i]));
+    peaks.push(peak);
+  }
+  return peaks;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Sets thresholds from a calibration recording: `noiseEnd` samples of quiet followed
+ * by long dahs. In tone mode the audio goes through the same band-pass the detector
+ * uses (at the locked pitch, or the strongest tone in the dahs). Returns null if
+ * nothing usable was measured.
+ */
+export const computeCalibration = (
+  samples: Float32Array,
+  sampleRate: number,
+  noiseEnd: number,
+  detection: ToneDetectionConfig,
+  lockedPitch: number | null
+): KeyingLevels | null => {
+  let input = samples;
+  if (detection.mode === 'tone') {
+    const pitch = lockedPitch
+      ?? (detection.autoPitch ? findStrongestTone(samples.subarray(noiseEnd), sampleRate) : null)
+      ?? detection.pitch;
+    input = new BandpassFilter(pitch, detection.bandwidth, sampleRate).process(samples);
+  }
+
+  const noisePeaks = blockPeaks(input.subarray(0, noiseEnd));
+  const tonePeaks = blockPeaks(input.subarray(noiseEnd));
+  if (noisePeaks.length === 0 || tonePeaks.length === 0) return null;
+
+  const noiseMean = noisePeaks.reduce((a, b) => a + b, 0) / noisePeaks.length;
+  const noiseSd = Math.sqrt(noisePeaks.reduce((a, b) => a + (b - noiseMean) ** 2, 0) / noisePeaks.length);
+  const noiseFloor = noiseMean + NOISE_SPREAD * noiseSd;
+
+  // The dahs are the blocks in the upper half of the range; the gaps between them don't count
+  const loudest = Math.max(...tonePeaks);
+  const midpoint = (noiseFloor + loudest) / 2;
+  const dahPeaks = tonePeaks.filter(p => p > midpoint);
+  // Nothing above the noise floor: no tone was sent
+  if (dahPeaks.length === 0) return null;
+
+  return levelsFromMeasurements(noiseFloor, median(dahPeaks));
+};
+
+/**
+ * Follows slow level changes during a session: the noise floor from quiet blocks
+ * while the key is up, the tone level from blocks while it is down.
+ */
+export class LevelTracker {
+  levels: KeyingLevels;
+  private noiseMean = 0;
+  private noiseVar = 0;
+  private toneLevel = 0;
+
+  constructor(levels: KeyingLevels) {
+    this.levels = levels;
+    this.reset(levels);
+  }
+
+  reset(levels: KeyingLevels) {
+    this.levels = levels;
+    // Only the floor is known, so assume a modest spread around a lower mean
+    this.noiseMean = levels.noiseFloor / (1 + NOISE_SPREAD * 0.2);
+    this.noiseVar = (this.noiseMean * 0.2) ** 2;
+    this.toneLevel = levels.toneLevel;
+  }
+
+  // Feeds one block peak; returns the (possibly updated) levels
+  update(peak: number, isOn: boolean, seconds: number): KeyingLevels {
+    const { threshold, hysteresis } = this.levels;
+    if (!isOn && peak < threshold * hysteresis) {
+      const a = 1 - Math.exp(-seconds / NOISE_TIME_CONSTANT);
+      const d = peak - this.noiseMean;
+      this.noiseMean += a * d;
+      this.noiseVar = (1 - a) * (this.noiseVar + a * d * d);
+    } else if (isOn && peak > threshold) {
+      const a = 1 - Math.exp(-seconds / TONE_TIME_CONSTANT);
+      this.toneLevel += a * (peak - this.toneLevel);
+    } else {
+      return this.levels;
+    }
+
+    const next = levelsFromMeasurements(this.noiseMean + NOISE_SPREAD * Math.sqrt(this.noiseVar), this.toneLevel);
+    if (next) this.levels = next;
+    return this.levels;
+  }
+}
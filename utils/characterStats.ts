@@ -0,0 +1,129 @@
+import { calculateDotLength } from '../constants';
+import { AttemptRecord, CharacterResult, CharacterStat, CharacterStats } from '../types';
+import { decodeSignals } from './morseDecoder';
+import { textToIdealTiming, tokenizeText } from './morseUtils';
+import { alignSignals } from './signalAlignment';
+import { diffSequences } from './textDiff';
+
+// Deviation is capped so a single dropped element doesn't outweigh everything else
+const MAX_DEVIATION = 1;
+const DEVIATION_WEIGHT = 0.5;
+
+// Per-character outcome of an attempt: decoded correctly or not, and how far its elements
+// (and the letter gap after it) were from the ideal timing. Characters after the last one
+// the user actually sent are left out, so a line abandoned halfway doesn't count as errors.
+export const analyzeAttemptCharacters = (attempt: AttemptRecord): CharacterResult[] => {
+  const { lineText, wpm, timing, alphabet, signals } = attempt;
+  const tokens = tokenizeText(lineText, alphabet);
+  const ideal = textToIdealTiming(lineText, wpm, timing, alphabet);
+  const decoded = decodeSignals(signals, wpm, alphabet);
+  if (tokens.length === 0 || decoded.chars.length === 0) return [];
+
+  const ops = diffSequences(tokens, decoded.chars, (a, b) => a.code === b.code);
+  const correct = new Array<boolean>(tokens.length).fill(false);
+  let position = 0;
+  let lastSent = -1;
+  ops.forEach(op => {
+    if (op.type === 'extra') return;
+    if (op.type === 'match') correct[position] = true;
+    if (op.type !== 'missing') lastSent = position;
+    position++;
+  });
+
+  const unit = calculateDotLength(wpm) / 1000;
+  const deviations = tokens.map(() => [] as number[]);
+  const gapDeviations = new Array<number | null>(tokens.length).fill(null);
+
+  alignSignals(ideal, signals, wpm).forEach(p => {
+    if (p.idealIndex === null) return;
+    const element = ideal[p.idealIndex];
+    if (element.charIndex === undefined) return;
+    const deviation = p.userIndex === null
+      ? MAX_DEVIATION
+      : Math.min(MAX_DEVIATION, Math.abs(signals[p.userIndex].duration - element.duration) / unit);
+
+    if (element.kind === 'char') gapDeviations[element.charIndex] = deviation;
+    else if (element.kind !== 'word') deviations[element.charIndex].push(deviation);
+  });
+
+  const results: CharacterResult[] = [];
+  tokens.forEach((token, i) => {
+    if (token.char === ' ' || i > lastSent) return;
+    const next = i + 1 <= lastSent && tokens[i + 1]?.char !== ' ' ? tokens[i + 1].char : null;
+    results.push({
+      char: token.char,
+      next,
+      correct: correct[i],
+      deviation: deviations[i].length > 0 ? deviations[i].reduce((a, b) => a + b, 0) / deviations[i].length : null,
+      gapDeviation: next !== null ? gapDeviations[i] : null,
+    });
+  });
+  return results;
+};
+
+// Outcomes of attempts stored without them, so each is only worked out once per page load
+const computedResults = new WeakMap<AttemptRecord, CharacterResult[]>();
+
+const attemptCharacters = (attempt: AttemptRecord): CharacterResult[] => {
+  if (attempt.characters) return attempt.characters;
+  let results = computedResults.get(attempt);
+  if (!results) {
+    results = analyzeAttemptCharacters(attempt);
+    computedResults.set(attempt, results);
+  }
+  return results;
+};
+
+interface Accumulator {
+  attempts: number;
+  errors: number;
+  deviationSum: number;
+  deviationCount: number;
+}
+
+const toStats = (acc: Map<string, Accumulator>): CharacterStat[] => {
+  return Array.from(acc.entries())
+    .map(([key, a]) => {
+      const errorRate = a.errors / a.attempts;
+      const meanDeviation = a.deviationCount > 0 ? a.deviationSum / a.deviationCount : 0;
+      return {
+        key,
+        attempts: a.attempts,
+        errors: a.errors,
+        errorRate,
+        meanDeviation,
+        weakness: errorRate + Math.min(MAX_DEVIATION, meanDeviation) * DEVIATION_WEIGHT,
+      };
+    })
+    .sort((a, b) => b.weakness - a.weakness);
+};
+
+const add = (acc: Map<string, Accumulator>, key: string, error: boolean, deviation: number | null) => {
+  const entry = acc.get(key) ?? { attempts: 0, errors: 0, deviationSum: 0, deviationCount: 0 };
+  entry.attempts++;
+  if (error) entry.errors++;
+  if (deviation !== null) {
+    entry.deviationSum += deviation;
+    entry.deviationCount++;
+  }
+  acc.set(key, entry);
+};
+
+// Error rate and timing deviation per character and per character pair across attempts
+export const aggregateCharacterStats = (attempts: AttemptRecord[]): CharacterStats => {
+  const chars = new Map<string, Accumulator>();
+  const pairs = new Map<string, Accumulator>();
+
+  attempts.forEach(attempt => {
+    const results = attemptCharacters(attempt);
+    results.forEach((r, i) => {
+      add(chars, r.char, !r.correct, r.deviation);
+      if (r.next !== null && i + 1 < results.length) {
+        const following = results[i + 1];
+        add(pairs, r.char + r.next, !r.correct || !following.correct, r.gapDeviation);
+      }
+    });
+  });
+
+  return { chars: toStats(chars), pairs: toStats(pairs) };
+};
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { CoachingInput, MorseChar } from '../types';
+import { coachLocally, collectMisreads } from './coaching';
+import { tokenizeText } from './morseUtils';
+import { diffSequences } from './textDiff';
+
+// The diff the app shows: expected line against the decoded letters, compared by code
+const diff = (expected: string, decoded: string) =>
+  diffSequences(tokenizeText(expected, 'international'), tokenizeText(decoded, 'international'),
+    (a: MorseChar, b: MorseChar) => a.code === b.code);
+
+describe('collectMisreads', () => {
+  it('finds an L split into ED, even where the diff pairs the E with a match', () => {
+    expect(collectMisreads(diff('TELL', 'TEEDL'))).toEqual([{ expected: 'L', decoded: 'ED', cause: 'split' }]);
+  });
+
+  it('keeps misreads on either side of a clean letter apart', () => {
+    expect(collectMisreads(diff('LOL', 'EDOED'))).toEqual([
+      { expected: 'L', decoded: 'ED', cause: 'split' },
+      { expected: 'L', decoded: 'ED', cause: 'split' },
+    ]);
+  });
+
+  it('finds AN merged into P', () => {
+    expect(collectMisreads(diff('PAN', 'PP'))).toEqual([{ expected: 'AN', decoded: 'P', cause: 'merged' }]);
+  });
+
+  it('calls a letter with different elements wrong', () => {
+    expect(collectMisreads(diff('SOS', 'HOS'))).toEqual([{ expected: 'S', decoded: 'H', cause: 'wrong' }]);
+  });
+
+  it('finds nothing in a clean decode', () => {
+    expect(collectMisreads(diff('CQ DE K1ABC', 'CQ DE K1ABC'))).toEqual([]);
+  });
+});
+
+// An attempt with every figure on target
+const clean: CoachingInput = {
+  wpm: 20,
+  measuredWpm: 20,
+  ratios: { dah: 3, intra: 1, char: 3, word: 7 },
+  idealRatios: { dah: 3, intra: 1, char: 3, word: 7 },
+  ditVariation: 0.1,
+  dahVariation: 0.1,
+  charGapAfterDit: 3,
+  charGapAfterDah: 3,
+  speedDrift: 0,
+  missingMarks: 0,
+  extraMarks: 0,
+  misreads: [],
+  score: 95,
+};
+
+const topics = (input: Partial<CoachingInput>) => coachLocally({ ...clean, ...input }).map(t => t.topic);
+
+describe('coachLocally', () => {
+  it('praises a clean attempt', () => {
+    expect(topics({})).toEqual(['general']);
+  });
+
+  it('is deterministic', () => {
+    const input = { ...clean, ratios: { ...clean.ratios, dah: 2.4 }, ditVariation: 0.3 };
+    expect(coachLocally(input)).toEqual(coachLocally(input));
+  });
+
+  it('flags the dah ratio 0.4 dits or more off', () => {
+    expect(topics({ ratios: { ...clean.ratios, dah: 2.7 } })).toEqual(['general']);
+    expect(topics({ ratios: { ...clean.ratios, dah: 2.5 } })).toEqual(['ratio']);
+    expect(coachLocally({ ...clean, ratios: { ...clean.ratios, dah: 3.5 } })[0].text).toContain('clip them');
+  });
+
+  it('flags letter spaces from 0.6 dits off and word spaces from 1.5', () => {
+    expect(topics({ ratios: { ...clean.ratios, char: 2.5 } })).toEqual(['general']);
+    expect(topics({ ratios: { ...clean.ratios, char: 2.4 } })).toEqual(['spacing']);
+    expect(topics({ ratios: { ...clean.ratios, word: 5.6 } })).toEqual(['general']);
+    expect(topics({ ratios: { ...clean.ratios, word: 5.5 } })).toEqual(['spacing']);
+  });
+
+  it('flags letter spaces that differ by half a dit after dits and dahs', () => {
+    expect(topics({ charGapAfterDah: 2.6 })).toEqual(['general']);
+    const tips = coachLocally({ ...clean, charGapAfterDah: 2.5 });
+    expect(tips.map(t => t.topic)).toEqual(['spacing']);
+    expect(tips[0].text).toContain('collapse after dahs');
+  });
+
+  it('flags element variation above 20%, worst kind only', () => {
+    expect(topics({ ditVariation: 0.2 })).toEqual(['general']);
+    const tips = coachLocally({ ...clean, ditVariation: 0.25, dahVariation: 0.3 });
+    expect(tips.map(t => t.topic)).toEqual(['consistency']);
+    expect(tips[0].text).toContain('dahs vary by ±30%');
+  });
+
+  it('flags drift from 10% and a speed 15% off the setting', () => {
+    expect(topics({ speedDrift: 9.9 })).toEqual(['general']);
+    expect(coachLocally({ ...clean, speedDrift: -10 })[0].text).toContain('speed up');
+    expect(topics({ measuredWpm: 17.5 })).toEqual(['general']);
+    expect(topics({ measuredWpm: 17 })).toEqual(['speed']);
+  });
+
+  it('puts misreads first and keeps at most two of them', () => {
+    const tips = coachLocally({
+      ...clean,
+      misreads: [
+        { expected: 'L', decoded: 'ED', cause: 'split' },
+        { expected: 'AN', decoded: 'P', cause: 'merged' },
+        { expected: 'S', decoded: 'H', cause: 'wrong' },
+      ],
+    });
+    expect(tips.map(t => t.text)).toEqual([
+      'Your L read as ED: a gap inside the letter stretched into a letter space.',
+      'Your AN read as P: the letter space was short enough to join the letters.',
+    ]);
+  });
+
+  it('stops at four tips', () => {
+    expect(topics({
+      misreads: [{ expected: 'L', decoded: 'ED', cause: 'split' }],
+      ratios: { dah: 2, intra: 2, char: 5, word: 10 },
+      ditVariation: 0.5,
+    })).toHaveLength(4);
+  });
+
+  it('mentions dropped elements only when nothing else explains them', () => {
+    expect(topics({ missingMarks: 2 })).toEqual(['decoding']);
+    expect(topics({ missingMarks: 2, ditVariation: 0.5 })).toEqual(['consistency']);
+  });
+});
@@ -0,0 +1,217 @@
+import { CoachingInput, CoachingMisread, CoachingTip, DiffOp, FistMetrics, MorseChar, SignalInterval, SpeedEstimate } from '../types';
+import { fitTrend } from './timingDistribution';
+
+// Fewer marks than this don't say anything about drift over the line
+const MIN_DRIFT_MARKS = 6;
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null);
+
+const variation = (stats: FistMetrics['stats']['dit']) =>
+  stats.count >= 2 && stats.mean > 0 ? stats.stdDev / stats.mean : null;
+
+const codeOf = (chars: MorseChar[]) => chars.map(c => c.code).join('');
+
+// How far a misread may reach past its run into neighbouring ops to make the codes add up
+const MAX_MISREAD_EXTENSION = 3;
+
+// Runs of non-matching diff ops between matches, as expected text vs what was decoded.
+// The cause comes from the codes: the same elements split into more letters means a gap
+// inside a letter was read as a letter gap, fewer letters means letters ran together.
+// Edit distance may pair a stray letter with a neighbouring match (TELL read as TEEDL matches
+// the first E), so a run that doesn't add up reaches into the ops around it until it does,
+// and letters the two sides then share at either end are trimmed off again.
+export const collectMisreads = (diff: DiffOp<MorseChar>[]): CoachingMisread[] => {
+  const side = (from: number, to: number, key: 'expected' | 'actual') =>
+    diff.slice(from, to + 1).map(op => op[key]).filter((c): c is MorseChar => c !== undefined && c.char !== ' ');
+  const sameCode = (from: number, to: number) => codeOf(side(from, to, 'expected')) === codeOf(side(from, to, 'actual'));
+
+  const misreads: CoachingMisread[] = [];
+  let consumed = 0; // Ops before this belong to an earlier misread
+  let i = 0;
+  while (i < diff.length) {
+    if (diff[i].type === 'match') {
+      i++;
+      continue;
+    }
+    let from = i;
+    let to = i;
+    while (to + 1 < diff.length && diff[to + 1].type !== 'match') to++;
+
+    for (let back = 1; !sameCode(from, to) && back <= MAX_MISREAD_EXTENSION && i - back >= consumed; back++) {
+      if (sameCode(i - back, to)) from = i - back;
+    }
+    const runEnd = to;
+    for (let ahead = 1; !sameCode(from, to) && ahead <= MAX_MISREAD_EXTENSION && runEnd + ahead < diff.length; ahead++) {
+      if (sameCode(from, runEnd + ahead)) to = runEnd + ahead;
+    }
+    i = to + 1;
+
+    const expected = side(from, to, 'expected');
+    const decoded = side(from, to, 'actual');
+    while (expected.length > 1 && decoded.length > 1 && expected[0].code === decoded[0].code) {
+      expected.shift();
+      decoded.shift();
+    }
+    while (expected.length > 1 && decoded.length > 1 && expected[expected.length - 1].code === decoded[decoded.length - 1].code) {
+      expected.pop();
+      decoded.pop();
+    }
+    if (expected.length === 0 || decoded.length === 0) continue;
+    consumed = i;
+    misreads.push({
+      expected: expected.map(c => c.char).join(''),
+      decoded: decoded.map(c => c.char).join(''),
+      cause: codeOf(expected) !== codeOf(decoded) ? 'wrong' : decoded.length > expected.length ? 'split' : 'merged',
+    });
+  }
+  return misreads;
+};
+
+/**
+ * Condenses an analysed attempt into the figures the coach works from. Letter gaps are split
+ * by the mark that ends the letter, and drift is the trend of each mark's length against its
+ * ideal over the line.
+ */
+export const buildCoachingInput = (
+  idealSignals: SignalInterval[],
+  wpm: number,
+  metrics: FistMetrics,
+  diff: DiffOp<MorseChar>[],
+  speed: SpeedEstimate | null
+): CoachingInput => {
+  const afterDit: number[] = [];
+  const afterDah: number[] = [];
+  const driftPoints: Array<[number, number]> = [];
+  const lineEnd = idealSignals.length > 0
+    ? idealSignals[idealSignals.length - 1].startTime + idealSignals[idealSignals.length - 1].duration
+    : 0;
+
+  metrics.elements.forEach(e => {
+    if (e.kind === 'char') {
+      const before = idealSignals[e.idealIndex - 1]?.kind;
+      if (before === 'dit') afterDit.push(e.userDuration / metrics.unit);
+      if (before === 'dah') afterDah.push(e.userDuration / metrics.unit);
+    }
+    if ((e.kind === 'dit' || e.kind === 'dah') && lineEnd > 0) {
+      driftPoints.push([idealSignals[e.idealIndex].startTime / lineEnd, e.userDuration / e.idealDuration]);
+    }
+  });
+
+  const trend = driftPoints.length >= MIN_DRIFT_MARKS ? fitTrend(driftPoints) : null;
+
+  return {
+    wpm,
+    measuredWpm: speed ? speed.characterWpm : null,
+    ratios: metrics.ratios,
+    idealRatios: metrics.idealRatios,
+    ditVariation: variation(metrics.stats.dit),
+    dahVariation: variation(metrics.stats.dah),
+    charGapAfterDit: mean(afterDit),
+    charGapAfterDah: mean(afterDah),
+    speedDrift: trend && trend.intercept > 0 ? (trend.slope / trend.intercept) * 100 : null,
+    missingMarks: metrics.missingMarks,
+    extraMarks: metrics.extraMarks,
+    misreads: collectMisreads(diff),
+    score: metrics.score,
+  };
+};
+
+// Thresholds for the local coach, in dits unless noted
+const RATIO_TOLERANCE = { dah: 0.4, intra: 0.3, char: 0.6, word: 1.5 };
+const GAP_SIDE_DIFFERENCE = 0.5;
+const MAX_VARIATION = 0.2;
+const MAX_DRIFT_PERCENT = 10;
+const MAX_SPEED_OFFSET = 0.15; // Fraction of the set speed
+const MAX_TIPS = 4;
+const MAX_MISREAD_TIPS = 2;
+
+const fmt = (v: number) => v.toFixed(1);
+
+const MISREAD_REASONS: Record<CoachingMisread['cause'], string> = {
+  split: 'a gap inside the letter stretched into a letter space',
+  merged: 'the letter space was short enough to join the letters',
+  wrong: 'the elements themselves came out wrong',
+};
+
+/**
+ * Rule-based advice from the attempt figures, most important first: what failed to decode,
+ * then the spacing and ratio habits behind it, then consistency and speed. Deterministic, so
+ * it works offline and gives the same advice for the same attempt.
+ */
+export const coachLocally = (input: CoachingInput): CoachingTip[] => {
+  const tips: CoachingTip[] = [];
+  const { ratios, idealRatios } = input;
+
+  input.misreads.slice(0, MAX_MISREAD_TIPS).forEach(m => {
+    tips.push({
+      topic: 'decoding',
+      text: `Your ${m.expected.toUpperCase()} read as ${m.decoded.toUpperCase()}: ${MISREAD_REASONS[m.cause]}.`,
+    });
+  });
+
+  // Letter spaces that shrink after one kind of element are a habit of their own
+  const { charGapAfterDit: dit, charGapAfterDah: dah } = input;
+  if (dit !== null && dah !== null && Math.abs(dit - dah) >= GAP_SIDE_DIFFERENCE) {
+    const [shortSide, longSide, shortLen, longLen] = dah < dit
+      ? ['dahs', 'dits', dah, dit]
+      : ['dits', 'dahs', dit, dah];
+    tips.push({
+      topic: 'spacing',
+      text: `Your letter spaces collapse after ${shortSide} (${fmt(shortLen)} dits, vs ${fmt(longLen)} after ${longSide}). Wait out the full space before the next letter.`,
+    });
+  }
+
+  const ratioTip = (key: keyof typeof RATIO_TOLERANCE, what: string, shortAdvice: string, longAdvice: string) => {
+    const actual = ratios[key];
+    const target = idealRatios[key];
+    if (actual === null || target === null || Math.abs(actual - target) < RATIO_TOLERANCE[key]) return;
+    tips.push({
+      topic: key === 'dah' ? 'ratio' : 'spacing',
+      text: `${what} average ${fmt(actual)} dits against ${fmt(target)}: ${actual < target ? shortAdvice : longAdvice}`,
+    });
+  };
+  ratioTip('dah', 'Dahs', 'hold them longer.', 'clip them a little.');
+  ratioTip('char', 'Letter spaces', 'letters run together.', 'letters drift apart.');
+  ratioTip('intra', 'Gaps inside letters', 'elements are crowding each other.', 'letters sound broken up.');
+  ratioTip('word', 'Word spaces', 'words run together.', 'leave less pause between words.');
+
+  const worstVariation = [
+    { name: 'dits', v: input.ditVariation },
+    { name: 'dahs', v: input.dahVariation },
+  ].filter((x): x is { name: string; v: number } => x.v !== null && x.v > MAX_VARIATION)
+    .sort((a, b) => b.v - a.v)[0];
+  if (worstVariation) {
+    tips.push({
+      topic: 'consistency',
+      text: `Your ${worstVariation.name} vary by ±${Math.round(worstVariation.v * 100)}%; aim for a steady, even length.`,
+    });
+  }
+
+  if (input.speedDrift !== null && Math.abs(input.speedDrift) >= MAX_DRIFT_PERCENT) {
+    tips.push({
+      topic: 'speed',
+      text: input.speedDrift > 0
+        ? `Marks lengthen by ${Math.round(input.speedDrift)}% over the line: you slow down as you go.`
+        : `Marks shorten by ${Math.round(-input.speedDrift)}% over the line: you speed up as you go.`,
+    });
+  }
+
+  if (input.measuredWpm !== null && Math.abs(input.measuredWpm / input.wpm - 1) >= MAX_SPEED_OFFSET) {
+    tips.push({
+      topic: 'speed',
+      text: `You sent at ${Math.round(input.measuredWpm)} WPM against the set ${input.wpm}.`,
+    });
+  }
+
+  if (input.missingMarks + input.extraMarks > 0 && tips.length === 0) {
+    tips.push({
+      topic: 'decoding',
+      text: `${input.missingMarks} dropped and ${input.extraMarks} extra elements; slow down until every element lands.`,
+    });
+  }
+
+  if (tips.length === 0) {
+    tips.push({ topic: 'general', text: 'Clean sending: ratios, spacing and speed are all within tolerance.' });
+  }
+  return tips.slice(0, MAX_TIPS);
+};
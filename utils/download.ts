@@ -0,0 +1,14 @@
+// Saves a blob through a temporary link
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download asynchronously, after click() has returned
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// fistcheck-2024-05-01T12-00-00-000Z.<extension>
+export const timestampedFileName = (extension: string) =>
+  `fistcheck-${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`;
@@ -0,0 +1,64 @@
+import { COMMON_WORDS } from '../constants';
+import { CharacterStats } from '../types';
+import { createRandom, pick, randomInt, weightedPick } from './random';
+
+export interface DrillOptions {
+  seed: number;
+  lineCount?: number;
+  weakCount?: number; // How many of the weakest characters/pairs to target
+}
+
+// Every character keeps a small base weight so drills don't collapse onto one letter
+const BASE_WEIGHT = 0.05;
+const GROUP_LENGTH = 5;
+
+// Practice lines weighted toward the weakest characters and pairs: each line mixes real
+// words rich in weak characters with a random code group built from them.
+export const generateDrill = (stats: CharacterStats, options: DrillOptions): string => {
+  const { seed, lineCount = 20, weakCount = 8 } = options;
+  const random = createRandom(seed);
+
+  const weakChars = stats.chars.slice(0, weakCount);
+  const weakPairs = stats.pairs.slice(0, weakCount);
+  if (weakChars.length === 0) return '';
+
+  const charWeight = new Map<string, number>();
+  weakChars.forEach(c => charWeight.set(c.key, c.weakness + BASE_WEIGHT));
+
+  // Words scored by how much weak material they contain per character
+  const scoredWords = COMMON_WORDS
+    .map(word => {
+      const upper = word.toUpperCase();
+      let score = 0;
+      for (const c of upper) score += charWeight.get(c) ?? 0;
+      weakPairs.forEach(p => {
+        if (upper.includes(p.key)) score += p.weakness + BASE_WEIGHT;
+      });
+      return { word, score: score / upper.length };
+    })
+    .filter(w => w.score > 0);
+
+  const group = () => {
+    let text = '';
+    for (let i = 0; i < GROUP_LENGTH; i++) {
+      // Pairs go in whole so the transition between them gets practised too
+      if (weakPairs.length > 0 && i < GROUP_LENGTH - 1 && random() < 0.3) {
+        text += weightedPick(random, weakPairs, p => p.weakness + BASE_WEIGHT).key;
+        i++;
+      } else {
+        text += weightedPick(random, weakChars, c => c.weakness + BASE_WEIGHT).key;
+      }
+    }
+    return text.toLowerCase();
+  };
+
+  const word = () => (scoredWords.length > 0 ? weightedPick(random, scoredWords, w => w.score).word : group());
+
+  const lines: string[] = [];
+  for (let i = 0; i < lineCount; i++) {
+    const parts = [word(), group()];
+    if (randomInt(random, 0, 1) === 1) parts.push(word());
+    lines.push(pick(random, [parts, [...parts].reverse()]).join(' '));
+  }
+  return lines.join('\n');
+};
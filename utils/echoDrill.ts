@@ -0,0 +1,38 @@
+import { DiffOp, EchoDrillSettings, EchoResult, FistMetrics, MorseChar, SignalInterval } from '../types';
+
+// The reply is complete once the key has been up this much longer than the longest gap in the
+// cue, so a slow letter or word space doesn't cut it short
+const REPLY_GAP_FACTOR = 2;
+const MIN_REPLY_TIMEOUT = 1; // seconds
+
+// Pause after a judged reply before auto-advance plays the next call (ms)
+export const ECHO_ADVANCE_DELAY = 1500;
+
+export const replyTimeout = (idealSignals: SignalInterval[]): number => {
+  const longestGap = idealSignals.reduce((max, s) => (s.state === 'off' ? Math.max(max, s.duration) : max), 0);
+  return Math.max(MIN_REPLY_TIMEOUT, longestGap * REPLY_GAP_FACTOR);
+};
+
+// A reply passes when every character decodes as the hidden line (word breaks aside) and its
+// timing scores at least passScore. No reply, or one too broken to analyse, fails.
+export const judgeEcho = (diff: DiffOp<MorseChar>[], metrics: FistMetrics | null, passScore: number): EchoResult => {
+  const isChar = (c: MorseChar | undefined) => c !== undefined && c.char !== ' ';
+  const charOps = diff.filter(op => isChar(op.expected) || isChar(op.actual));
+  const copied = charOps.length > 0 && charOps.every(op => op.type === 'match');
+  const timingScore = metrics?.score ?? 0;
+  return { copied, timingScore, passed: copied && timingScore >= passScore };
+};
+
+// Streak and speed after one judged reply: a miss clears the streak, and every rampAfter
+// passes in a row step the speed up (up to maxWpm)
+export const rampEcho = (
+  streak: number,
+  passed: boolean,
+  wpm: number,
+  settings: EchoDrillSettings
+): { streak: number; wpm: number } => {
+  if (!passed) return { streak: 0, wpm };
+  const next = streak + 1;
+  if (next < settings.rampAfter) return { streak: next, wpm };
+  return { streak: 0, wpm: Math.min(settings.maxWpm, Number((wpm + settings.rampStep).toFixed(1))) };
+};
@@ -0,0 +1,138 @@
+import { calculateDotLength } from '../constants';
+import { AlignedPair, DurationStats, ElementError, ElementKind, FistMetrics, SignalInterval, TimingRatios } from '../types';
+import { alignSignals } from './signalAlignment';
+
+const ELEMENT_KINDS: ElementKind[] = ['dit', 'dah', 'intra', 'char', 'word'];
+
+// Score weighting: rhythm shape, repeatability, absolute timing against the ideal
+const RATIO_WEIGHT = 0.4;
+const CONSISTENCY_WEIGHT = 0.3;
+const ACCURACY_WEIGHT = 0.3;
+
+// A coefficient of variation this large (or larger) scores zero consistency
+const MAX_CV = 0.5;
+
+// Error bands (dit units) shared by the metrics panel and the timeline colors
+export type ErrorSeverity = 'good' | 'fair' | 'poor';
+
+export const errorSeverity = (errorUnits: number): ErrorSeverity => {
+  const abs = Math.abs(errorUnits);
+  if (abs < 0.25) return 'good';
+  if (abs < 0.75) return 'fair';
+  return 'poor';
+};
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const computeStats = (durations: number[]): DurationStats => {
+  if (durations.length === 0) return { count: 0, mean: 0, stdDev: 0 };
+  const m = mean(durations);
+  const variance = durations.reduce((acc, d) => acc + (d - m) * (d - m), 0) / durations.length;
+  return { count: durations.length, mean: m, stdDev: Math.sqrt(variance) };
+};
+
+const statsByKind = (durations: Record<ElementKind, number[]>): Record<ElementKind, DurationStats> => {
+  return ELEMENT_KINDS.reduce((acc, kind) => {
+    acc[kind] = computeStats(durations[kind]);
+    return acc;
+  }, {} as Record<ElementKind, DurationStats>);
+};
+
+const computeRatios = (stats: Record<ElementKind, DurationStats>): TimingRatios => {
+  const dit = stats.dit.count > 0 ? stats.dit.mean : 0;
+  const ratio = (kind: ElementKind) => (dit > 0 && stats[kind].count > 0 ? stats[kind].mean / dit : null);
+  return {
+    dah: ratio('dah'),
+    intra: ratio('intra'),
+    char: ratio('char'),
+    word: ratio('word'),
+  };
+};
+
+export const analyzeFist = (
+  idealSignals: SignalInterval[],
+  userSignals: SignalInterval[],
+  wpm: number,
+  alignment: AlignedPair[] = alignSignals(idealSignals, userSignals, wpm)
+): FistMetrics | null => {
+  if (!userSignals.some(s => s.state === 'on')) return null;
+
+  const idealDot = calculateDotLength(wpm) / 1000;
+  const pairs = alignment.filter(
+    (p): p is { idealIndex: number; userIndex: number } => p.idealIndex !== null && p.userIndex !== null
+  );
+  if (pairs.length === 0) return null;
+
+  // Marks the user dropped or added; each counts as a full-length error in the accuracy score
+  const missingMarks = alignment.filter(p => p.userIndex === null && idealSignals[p.idealIndex!].state === 'on').length;
+  const extraMarks = alignment.filter(p => p.idealIndex === null && userSignals[p.userIndex!].state === 'on').length;
+
+  const idealDurations: Record<ElementKind, number[]> = { dit: [], dah: [], intra: [], char: [], word: [] };
+  const userDurations: Record<ElementKind, number[]> = { dit: [], dah: [], intra: [], char: [], word: [] };
+  const elements: ElementError[] = [];
+
+  pairs.forEach(({ idealIndex, userIndex }) => {
+    const ideal = idealSignals[idealIndex];
+    const user = userSignals[userIndex];
+    const kind = ideal.kind ?? (ideal.state === 'on' ? 'dit' : 'intra');
+    const error = user.duration - ideal.duration;
+
+    idealDurations[kind].push(ideal.duration);
+    userDurations[kind].push(user.duration);
+    elements.push({
+      idealIndex,
+      userIndex,
+      kind,
+      idealDuration: ideal.duration,
+      userDuration: user.duration,
+      error,
+      errorUnits: error / idealDot,
+    });
+  });
+
+  const stats = statsByKind(userDurations);
+  const idealStats = statsByKind(idealDurations);
+  const ratios = computeRatios(stats);
+  const idealRatios = computeRatios(idealStats);
+
+  // Ratio score: how close each gap/dah ratio is to the one the ideal timing uses
+  const ratioAccuracies = (Object.keys(ratios) as Array<keyof TimingRatios>)
+    .map(key => {
+      const actual = ratios[key];
+      const target = idealRatios[key];
+      return actual !== null && target !== null ? clamp01(1 - Math.abs(actual / target - 1)) : null;
+    })
+    .filter((v): v is number => v !== null);
+
+  // Consistency score: spread of each element class relative to its own mean
+  const consistencies = (['dit', 'dah', 'intra', 'char'] as ElementKind[])
+    .filter(kind => stats[kind].count >= 2 && stats[kind].mean > 0)
+    .map(kind => clamp01(1 - (stats[kind].stdDev / stats[kind].mean) / MAX_CV));
+
+  // Accuracy score: mean relative deviation of every element from its ideal duration
+  const deviations = elements.map(e => Math.min(1, Math.abs(e.error) / e.idealDuration));
+  const unmatched = new Array<number>(missingMarks + extraMarks).fill(1);
+  const accuracy = clamp01(1 - mean([...deviations, ...unmatched]));
+
+  const ratioScore = ratioAccuracies.length > 0 ? mean(ratioAccuracies) : accuracy;
+  const consistencyScore = consistencies.length > 0 ? mean(consistencies) : accuracy;
+  const score = RATIO_WEIGHT * ratioScore + CONSISTENCY_WEIGHT * consistencyScore + ACCURACY_WEIGHT * accuracy;
+
+  return {
+    unit: stats.dit.count > 0 ? stats.dit.mean : idealDot,
+    stats,
+    idealStats,
+    ratios,
+    idealRatios,
+    elements,
+    meanAbsErrorUnits: mean(elements.map(e => Math.abs(e.errorUnits))),
+    missingMarks,
+    extraMarks,
+    ratioScore: Math.round(ratioScore * 100),
+    consistencyScore: Math.round(consistencyScore * 100),
+    accuracyScore: Math.round(accuracy * 100),
+    score: Math.round(score * 100),
+  };
+};
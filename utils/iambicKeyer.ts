@@ -0,0 +1,115 @@
+import { KeyerElement, KeyerSettings, PaddleContact } from '../types';
+
+// A change of the keyer output; `element` is the one starting (down) or ending (up)
+export interface KeyerTransition {
+  down: boolean;
+  time: number;
+  element: KeyerElement;
+}
+
+const other = (contact: PaddleContact): PaddleContact => (contact === 'dit' ? 'dah' : 'dit');
+
+/**
+ * Software iambic keyer. It runs on event time rather than timers: paddle edges and
+ * `advance` calls carry their own timestamps (seconds), and the output transitions come
+ * back with the exact times they happen at, however late the caller gets to them. The
+ * same edges therefore always give the same elements, live or replayed.
+ *
+ * After each element and its space the keyer samples the paddles:
+ * - both held: Iambic A/B alternate, Ultimatic repeats the paddle pressed last
+ * - a remembered tap of the other paddle (dit/dah memory) is sent next
+ * - Iambic B: a squeeze at any time during the element adds one more alternate element
+ * - otherwise a held paddle repeats its element
+ */
+export class IambicKeyer {
+  readonly elements: KeyerElement[] = [];
+  private held: Record<PaddleContact, boolean> = { dit: false, dah: false };
+  private memory: Record<PaddleContact, boolean> = { dit: false, dah: false };
+  private lastPressed: PaddleContact = 'dit';
+  private squeezed = false; // Both paddles were down during the current element
+  private current: KeyerElement | null = null;
+  private markEnded = false;
+
+  constructor(private settings: KeyerSettings, private unit: number) {}
+
+  // New settings or speed take effect from the next element
+  configure(settings: KeyerSettings, unit: number) {
+    this.settings = settings;
+    this.unit = unit;
+  }
+
+  get isSending(): boolean {
+    return this.current !== null;
+  }
+
+  // A paddle contact closed or opened at `time`; returns the output up to and including it
+  edge(contact: PaddleContact, down: boolean, time: number): KeyerTransition[] {
+    const out = this.advance(time);
+    if (this.held[contact] === down) return out;
+    this.held[contact] = down;
+    if (!down) return out;
+
+    this.lastPressed = contact;
+    if (!this.current) {
+      out.push(this.begin(contact, time));
+      return out;
+    }
+    if (this.held.dit && this.held.dah) this.squeezed = true;
+    if (contact !== this.current.kind && this.hasMemory(contact)) this.memory[contact] = true;
+    return out;
+  }
+
+  // Runs the keyer up to `time`; returns the transitions that happened on the way
+  advance(time: number): KeyerTransition[] {
+    const out: KeyerTransition[] = [];
+    while (this.current) {
+      const element = this.current;
+      if (!this.markEnded) {
+        if (element.end > time) break;
+        this.markEnded = true;
+        out.push({ down: false, time: element.end, element });
+      } else {
+        if (element.sampleTime > time) break;
+        const next = this.nextElement(element.kind);
+        this.current = null;
+        if (next) out.push(this.begin(next, element.sampleTime));
+      }
+    }
+    return out;
+  }
+
+  private hasMemory(contact: PaddleContact): boolean {
+    return contact === 'dit' ? this.settings.ditMemory : this.settings.dahMemory;
+  }
+
+  // What to send after an element of `previous` kind, from the paddles at the sample point
+  private nextElement(previous: PaddleContact): PaddleContact | null {
+    const alternate = other(previous);
+    if (this.held.dit && this.held.dah) {
+      return this.settings.mode === 'ultimatic' ? this.lastPressed : alternate;
+    }
+    if (this.memory[alternate]) return alternate;
+    if (this.settings.mode === 'iambic-b' && this.squeezed) return alternate;
+    if (this.held.dit) return 'dit';
+    if (this.held.dah) return 'dah';
+    return null;
+  }
+
+  private begin(kind: PaddleContact, time: number): KeyerTransition {
+    // Weight moves time between the mark and its space, as in the ideal timing
+    const shift = this.unit * (this.settings.weight - 50) / 50;
+    const mark = (kind === 'dit' ? this.unit : 3 * this.unit) + shift;
+    const element: KeyerElement = {
+      kind,
+      start: time,
+      end: time + mark,
+      sampleTime: time + mark + this.unit - shift
+    };
+    this.current = element;
+    this.markEnded = false;
+    this.memory[kind] = false;
+    this.squeezed = this.held.dit && this.held.dah;
+    this.elements.push(element);
+    return { down: true, time, element };
+  }
+}
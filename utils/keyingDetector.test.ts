@@ -0,0 +1,187 @@
+import { describe, expect, it } from 'vitest';
+import { SignalInterval } from '../types';
+import { KeyingDetector } from './keyingDetector';
+import { createRandom } from './random';
+
+const SAMPLE_RATE = 48000;
+const BLOCK = 128;
+const THRESHOLD = 0.2;
+const HYSTERESIS = 0.6; // Off below 0.12
+
+// A keyed segment: `level` is the tone amplitude (0 = silence)
+interface Segment {
+  seconds: number;
+  level: number;
+}
+
+// Keyed 600 Hz sine tone plus optional seeded white noise
+const synthesize = (segments: Segment[], { noise = 0 }: { noise?: number } = {}): Float32Array => {
+  const total = Math.round(segments.reduce((sum, s) => sum + s.seconds, 0) * SAMPLE_RATE);
+  const samples = new Float32Array(total);
+  const random = createRandom(1);
+  let i = 0;
+  segments.forEach(segment => {
+    const end = i + Math.round(segment.seconds * SAMPLE_RATE);
+    for (; i < end; i++) {
+      const t = i / SAMPLE_RATE;
+      let v = segment.level * Math.sin(2 * Math.PI * 600 * t);
+      if (noise > 0) v += noise * (random() * 2 - 1);
+      samples[i] = v;
+    }
+  });
+  return samples;
+};
+
+// Constant levels, so the envelope sits exactly at each segment's level (a sine at this
+// sample rate sags between peaks)
+const steady = (segments: Segment[]): Float32Array => {
+  const samples = new Float32Array(Math.round(segments.reduce((sum, s) => sum + s.seconds, 0) * SAMPLE_RATE));
+  let i = 0;
+  segments.forEach(segment => {
+    const end = i + Math.round(segment.seconds * SAMPLE_RATE);
+    samples.fill(segment.level, i, end);
+    i = end;
+  });
+  return samples;
+};
+
+// Feeds the buffer block by block, like the worklet does
+const feed = (detector: KeyingDetector, samples: Float32Array, hysteresis = HYSTERESIS) => {
+  for (let offset = 0; offset < samples.length; offset += BLOCK) {
+    detector.process(samples.subarray(offset, offset + BLOCK), SAMPLE_RATE, offset / SAMPLE_RATE, THRESHOLD, hysteresis);
+  }
+};
+
+// Runs the whole buffer, then commits the open segment
+const runDetector = (samples: Float32Array, hysteresis = HYSTERESIS): SignalInterval[] => {
+  const detector = new KeyingDetector();
+  feed(detector, samples, hysteresis);
+  detector.finish(samples.length / SAMPLE_RATE);
+  return detector.signals;
+};
+
+const marks = (signals: SignalInterval[]) => signals.filter(s => s.state === 'on');
+
+// Envelope attack and release move the edges by a few milliseconds
+const EDGE_TOLERANCE = 0.003;
+
+describe('KeyingDetector', () => {
+  it('commits tone and gap intervals, without the leading silence', () => {
+    const signals = runDetector(synthesize([
+      { seconds: 0.05, level: 0 },
+      { seconds: 0.1, level: 0.5 },
+      { seconds: 0.1, level: 0 },
+      { seconds: 0.3, level: 0.5 },
+      { seconds: 0.2, level: 0 },
+    ], { noise: 0.02 }));
+
+    expect(signals.map(s => s.state)).toEqual(['on', 'off', 'on', 'off']);
+    expect(signals[0].startTime).toBeCloseTo(0.05, 2);
+    [0.1, 0.1, 0.3, 0.2].forEach((seconds, i) => {
+      expect(Math.abs(signals[i].duration - seconds)).toBeLessThan(EDGE_TOLERANCE);
+    });
+  });
+
+  it('holds its state while the level is between the off and on thresholds', () => {
+    const signals = runDetector(steady([
+      { seconds: 0.1, level: 0.5 },
+      { seconds: 0.1, level: 0.16 }, // Below the on level but above the off level: stays on
+      { seconds: 0.1, level: 0 },
+      { seconds: 0.1, level: 0.16 }, // Same level from off: stays off
+      { seconds: 0.1, level: 0 },
+    ]));
+
+    expect(marks(signals)).toHaveLength(1);
+    expect(Math.abs(marks(signals)[0].duration - 0.2)).toBeLessThan(EDGE_TOLERANCE);
+  });
+
+  it('without hysteresis, the same level drops the signal', () => {
+    const signals = runDetector(steady([
+      { seconds: 0.1, level: 0.5 },
+      { seconds: 0.1, level: 0.16 },
+      { seconds: 0.1, level: 0 },
+    ]), 1);
+
+    expect(marks(signals)).toHaveLength(1);
+    expect(Math.abs(marks(signals)[0].duration - 0.1)).toBeLessThan(EDGE_TOLERANCE);
+  });
+
+  it('merges a gap shorter than 15 ms into the surrounding tone', () => {
+    const signals = runDetector(synthesize([
+      { seconds: 0.1, level: 0.5 },
+      { seconds: 0.012, level: 0 },
+      { seconds: 0.1, level: 0.5 },
+      { seconds: 0.1, level: 0 },
+    ]));
+
+    expect(marks(signals)).toHaveLength(1);
+    expect(Math.abs(marks(signals)[0].duration - 0.212)).toBeLessThan(EDGE_TOLERANCE);
+  });
+
+  it('keeps a gap longer than 15 ms', () => {
+    const signals = runDetector(synthesize([
+      { seconds: 0.1, level: 0.5 },
+      { seconds: 0.04, level: 0 },
+      { seconds: 0.1, level: 0.5 },
+      { seconds: 0.1, level: 0 },
+    ]));
+
+    expect(marks(signals)).toHaveLength(2);
+  });
+
+  it('drops a pulse shorter than 15 ms and re-opens the gap before it', () => {
+    const signals = runDetector(steady([
+      { seconds: 0.1, level: 0 },
+      { seconds: 0.1, level: 0.5 },
+      { seconds: 0.3, level: 0 },
+      { seconds: 0.005, level: 0.5 },
+      { seconds: 0.195, level: 0 },
+      { seconds: 0.1, level: 0.5 },
+      { seconds: 0.1, level: 0 },
+    ]));
+
+    expect(signals.map(s => s.state)).toEqual(['on', 'off', 'on', 'off']);
+    expect(signals[1].startTime).toBeCloseTo(0.2, 2);
+    expect(Math.abs(signals[1].duration - 0.5)).toBeLessThan(EDGE_TOLERANCE);
+  });
+
+  it('commits the segment still open on finish', () => {
+    const signals = runDetector(synthesize([
+      { seconds: 0.05, level: 0 },
+      { seconds: 0.2, level: 0.5 }, // Audio ends while the tone is still on
+    ]));
+
+    expect(signals).toHaveLength(1);
+    expect(signals[0].state).toBe('on');
+    expect(Math.abs(signals[0].duration - 0.2)).toBeLessThan(EDGE_TOLERANCE);
+  });
+
+  it('does not commit a final segment of 10 ms or less', () => {
+    const detector = new KeyingDetector();
+    feed(detector, steady([
+      { seconds: 0.1, level: 0 },
+      { seconds: 0.1, level: 0.5 },
+      { seconds: 0.1, level: 0 },
+    ]));
+    const offAt = detector.lastChangeTime;
+
+    expect(detector.finish(offAt + 0.005)).toBe(false);
+    expect(detector.signals).toHaveLength(1);
+    expect(detector.finish(offAt + 0.1)).toBe(true);
+    expect(detector.signals[1]).toEqual({ startTime: offAt, duration: expect.closeTo(0.1, 6), state: 'off' });
+  });
+
+  it('commits keyer edges without merging short elements or spaces', () => {
+    const detector = new KeyingDetector();
+    detector.commitEdge(true, 0.1);
+    detector.commitEdge(false, 0.112); // A 12 ms dit
+    detector.commitEdge(true, 0.122);  // after a 10 ms space
+    detector.commitEdge(false, 0.2);
+
+    expect(detector.signals).toEqual([
+      { startTime: 0.1, duration: expect.closeTo(0.012, 6), state: 'on' },
+      { startTime: 0.112, duration: expect.closeTo(0.01, 6), state: 'off' },
+      { startTime: 0.122, duration: expect.closeTo(0.078, 6), state: 'on' },
+    ]);
+  });
+});
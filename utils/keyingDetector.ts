@@ -0,0 +1,172 @@
+import { SignalInterval } from '../types';
+
+// Envelope follower: fast attack, slow release (per sample)
+const ATTACK_KEEP = 0.6;
+const RELEASE_KEEP = 0.98;
+
+// Signal turns off below this fraction of the threshold, unless calibration says otherwise
+export const DEFAULT_HYSTERESIS = 0.6;
+
+// Gaps and pulses shorter than this are treated as glitches and merged away
+const GLITCH_SECONDS = 0.015;
+
+// A trailing segment shorter than this isn't worth committing
+const MIN_FINAL_SECONDS = 0.01;
+
+// Name the AudioWorklet processor running the detector is registered under
+export const KEYING_PROCESSOR_NAME = 'keying-detector';
+
+// What the detector has committed so far, enough to finish the attempt elsewhere
+export interface KeyingSnapshot {
+  signals: SignalInterval[];
+  isOn: boolean;          // The stable (debounced) state
+  lastChangeTime: number; // Start of the segment currently open, in seconds
+}
+
+/**
+ * Tone-keying detector: envelope follower, hysteresis, glitch merging and segment
+ * commit. It holds no audio or React state, so the same class runs in the AudioWorklet,
+ * on decoded audio files, on direct key edges and on synthetic sample buffers in Node.
+ */
+export class KeyingDetector {
+  signals: SignalInterval[] = [];
+  isOn = false;
+  lastChangeTime = 0;
+  private envelope = 0;
+
+  /**
+   * Runs one block of samples through the detector. `blockTime` is the time of the
+   * first sample relative to the start of the attempt. The signal turns on above
+   * `threshold` and off below `threshold * hysteresis`. Returns the block's peak level.
+   */
+  process(samples: Float32Array, sampleRate: number, blockTime: number, threshold: number, hysteresis = DEFAULT_HYSTERESIS): number {
+    const lowerTh = threshold * hysteresis;
+    let env = this.envelope;
+    let peak = 0;
+
+    for (let i = 0; i < samples.length; i++) {
+      const absVal = Math.abs(samples[i]);
+      if (absVal > peak) peak = absVal;
+
+      if (absVal > env) {
+        env = env * ATTACK_KEEP + absVal * (1 - ATTACK_KEEP);
+      } else {
+        env = env * RELEASE_KEEP;
+      }
+
+      // Ensure time never goes backwards due to clock drift or reset race conditions
+      const relativeTime = Math.max(0, blockTime + i / sampleRate);
+
+      if (!this.isOn && env > threshold) {
+        this.turnOn(relativeTime);
+      } else if (this.isOn && env < lowerTh) {
+        this.turnOff(relativeTime);
+      }
+    }
+
+    this.envelope = env;
+    return peak;
+  }
+
+  /**
+   * Commits the segment still open at `endTime`. Returns true if a segment was added.
+   */
+  finish(endTime: number): boolean {
+    const duration = endTime - this.lastChangeTime;
+    if (duration <= MIN_FINAL_SECONDS) return false;
+    this.signals = [
+      ...this.signals,
+      {
+        startTime: this.lastChangeTime,
+        duration,
+        state: this.isOn ? 'on' : 'off'
+      }
+    ];
+    return true;
+  }
+
+  reset() {
+    this.signals = [];
+    this.isOn = false;
+    this.lastChangeTime = 0;
+    this.envelope = 0;
+  }
+
+  snapshot(): KeyingSnapshot {
+    return { signals: [...this.signals], isOn: this.isOn, lastChangeTime: this.lastChangeTime };
+  }
+
+  // Takes over the committed state from a detector running elsewhere (e.g. the worklet)
+  restore(snapshot: KeyingSnapshot) {
+    this.signals = snapshot.signals;
+    this.isOn = snapshot.isOn;
+    this.lastChangeTime = snapshot.lastChangeTime;
+  }
+
+  /**
+   * Key-down edge at `time`. Level detection calls this on threshold crossings; direct
+   * key inputs call it on contact closure, so both get the same glitch merging.
+   */
+  turnOn(time: number) {
+    const durationSinceLast = time - this.lastChangeTime;
+
+    if (durationSinceLast < GLITCH_SECONDS && this.signals.length > 0) {
+      // The gap was too short: drop it and continue the previous ON interval
+      const lastSig = this.signals.pop();
+      if (lastSig && lastSig.state === 'on') {
+        this.lastChangeTime = lastSig.startTime;
+      }
+    } else {
+      // Valid OFF segment. Leading silence before the first tone isn't recorded.
+      if (this.signals.length > 0 || this.lastChangeTime > 0) {
+        this.signals.push({
+          startTime: this.lastChangeTime,
+          duration: durationSinceLast,
+          state: 'off'
+        });
+      }
+      this.lastChangeTime = time;
+    }
+    this.isOn = true;
+  }
+
+  // Key-up edge at `time`
+  turnOff(time: number) {
+    const durationSinceLast = time - this.lastChangeTime;
+
+    if (durationSinceLast < GLITCH_SECONDS) {
+      // Pulse too short: re-open the preceding OFF interval, as if the ON never happened
+      const lastSig = this.signals.length > 0 ? this.signals[this.signals.length - 1] : null;
+      if (lastSig && lastSig.state === 'off') {
+        this.signals.pop();
+        this.lastChangeTime = lastSig.startTime;
+      }
+    } else {
+      this.signals.push({
+        startTime: this.lastChangeTime,
+        duration: durationSinceLast,
+        state: 'on'
+      });
+      this.lastChangeTime = time;
+    }
+    this.isOn = false;
+  }
+
+  /**
+   * Edge at `time` from a source with nothing to debounce, like the software keyer: the
+   * segment it ends is committed however short it is.
+   */
+  commitEdge(isOn: boolean, time: number) {
+    if (isOn === this.isOn) return;
+    // Leading silence before the first element isn't recorded, as in turnOn
+    if (this.isOn || this.signals.length > 0 || this.lastChangeTime > 0) {
+      this.signals.push({
+        startTime: this.lastChangeTime,
+        duration: time - this.lastChangeTime,
+        state: this.isOn ? 'on' : 'off'
+      });
+    }
+    this.lastChangeTime = time;
+    this.isOn = isOn;
+  }
+}
@@ -0,0 +1,130 @@
+import { calculateDotLength, getReverseMorseMap } from '../constants';
+import { AlphabetId, ClassifiedElement, DecodeResult, DecodedChar, SignalInterval } from '../types';
+
+// How quickly the running dit estimate follows the sender (0 = frozen, 1 = last element only)
+const ADAPT_RATE = 0.2;
+
+// Two duration clusters are only trusted as distinct if their centres are this far apart
+const MIN_MARK_SEPARATION = 1.8;
+const MIN_GAP_SEPARATION = 1.5;
+
+// Fallback letter/word boundary in dit units when the gaps do not form two clusters
+const DEFAULT_WORD_GAP_UNITS = 5;
+
+// Simple 1-D two-means on log durations. Returns the two cluster centres (short, long)
+// or null if the values don't split into two groups.
+const twoMeans = (values: number[], shortSeed: number, longSeed: number): [number, number] | null => {
+  if (values.length < 2) return null;
+  const logs = values.map(v => Math.log(v));
+  let a = Math.log(shortSeed);
+  let b = Math.log(longSeed);
+
+  for (let iter = 0; iter < 20; iter++) {
+    const short: number[] = [];
+    const long: number[] = [];
+    logs.forEach(v => (Math.abs(v - a) <= Math.abs(v - b) ? short : long).push(v));
+    if (short.length === 0 || long.length === 0) return null;
+    const nextA = short.reduce((s, v) => s + v, 0) / short.length;
+    const nextB = long.reduce((s, v) => s + v, 0) / long.length;
+    if (Math.abs(nextA - a) < 1e-6 && Math.abs(nextB - b) < 1e-6) break;
+    a = nextA;
+    b = nextB;
+  }
+  return [Math.exp(a), Math.exp(b)];
+};
+
+// Initial dit estimate from the whole attempt. Uses the mark clusters when dits and dahs are
+// both present, otherwise decides from the configured speed which of the two was sent.
+const estimateInitialUnit = (marks: number[], wpm: number): number => {
+  const configuredDot = calculateDotLength(wpm) / 1000;
+  if (marks.length === 0) return configuredDot;
+
+  const clusters = twoMeans(marks, configuredDot, configuredDot * 3);
+  if (clusters && clusters[1] / clusters[0] >= MIN_MARK_SEPARATION) {
+    return (clusters[0] + clusters[1] / 3) / 2;
+  }
+
+  const meanMark = marks.reduce((s, v) => s + v, 0) / marks.length;
+  return meanMark < configuredDot * 2 ? meanMark : meanMark / 3;
+};
+
+// Letter/word boundary in dit units, from the gaps that are clearly not element gaps
+const estimateWordGapUnits = (gaps: number[], unit: number): number => {
+  const spaces = gaps.filter(g => g >= unit * 2);
+  const clusters = twoMeans(spaces, unit * 3, unit * 7);
+  if (clusters && clusters[1] / clusters[0] >= MIN_GAP_SEPARATION) {
+    return Math.sqrt(clusters[0] * clusters[1]) / unit;
+  }
+  return DEFAULT_WORD_GAP_UNITS;
+};
+
+// Classifies every interval from the first mark onwards. Dit/dah and gap thresholds are derived
+// from the attempt itself and a running dit estimate follows speed drift, so the configured wpm
+// is only a hint.
+export const classifyElements = (signals: SignalInterval[], wpm: number): ClassifiedElement[] => {
+  const first = signals.findIndex(s => s.state === 'on');
+  if (first === -1) return [];
+
+  const elements = signals.slice(first);
+  const marks = elements.filter(s => s.state === 'on').map(s => s.duration);
+  const gaps = elements.filter(s => s.state === 'off').map(s => s.duration);
+
+  let unit = estimateInitialUnit(marks, wpm);
+  const wordGapUnits = estimateWordGapUnits(gaps, unit);
+
+  return elements.map((s, i) => {
+    const index = first + i;
+    if (s.state === 'on') {
+      const isDah = s.duration >= unit * 2;
+      unit = unit * (1 - ADAPT_RATE) + (isDah ? s.duration / 3 : s.duration) * ADAPT_RATE;
+      return { index, cls: isDah ? '-' : '.', unit };
+    }
+
+    // Trailing silence after the last mark ends the attempt; it is not a word break
+    if (i === elements.length - 1 && s.duration >= unit * 2) return { index, cls: 'end', unit };
+    if (s.duration < unit * 2) {
+      unit = unit * (1 - ADAPT_RATE) + s.duration * ADAPT_RATE;
+      return { index, cls: 'intra', unit };
+    }
+    return { index, cls: s.duration >= unit * wordGapUnits ? 'word' : 'char', unit };
+  });
+};
+
+// Decodes recorded keying into text. Codes the alphabet doesn't know come back as '*'.
+export const decodeSignals = (
+  signals: SignalInterval[],
+  wpm: number,
+  alphabet: AlphabetId = 'international'
+): DecodeResult => {
+  const classified = classifyElements(signals, wpm);
+  if (classified.length === 0) return { text: '', chars: [], unit: calculateDotLength(wpm) / 1000 };
+
+  const reverseMap = getReverseMorseMap(alphabet);
+  const chars: DecodedChar[] = [];
+  let code = '';
+  let charStart = 0;
+  let charEnd = 0;
+
+  const flushChar = () => {
+    if (code.length === 0) return;
+    chars.push({ char: reverseMap[code] ?? '*', code, startTime: charStart, endTime: charEnd });
+    code = '';
+  };
+
+  classified.forEach(({ index, cls }) => {
+    const s = signals[index];
+    if (cls === '.' || cls === '-') {
+      if (code.length === 0) charStart = s.startTime;
+      code += cls;
+      charEnd = s.startTime + s.duration;
+    } else if (cls !== 'intra') {
+      flushChar();
+      if (cls === 'word') {
+        chars.push({ char: ' ', code: '/', startTime: s.startTime, endTime: s.startTime + s.duration });
+      }
+    }
+  });
+  flushChar();
+
+  return { text: chars.map(c => c.char).join(''), chars, unit: classified[classified.length - 1].unit };
+};
@@ -1,45 +1,115 @@
-import { MORSE_MAP, calculateDotLength } from '../constants';
-import { SignalInterval } from '../types';
+import { COMMAND_PAUSE_SECONDS, DEFAULT_TIMING_OPTIONS, calculateDotLength, getMorseMap } from '../constants';
+import { AlphabetId, KeyCommand, MorseChar, SignalInterval, TimingOptions } from '../types';
+import { decodeSignals } from './morseDecoder';
 
-export const textToIdealTiming = (text: string, wpm: number): SignalInterval[] => {
+// Splits text into the characters that are keyed. Text is uppercased, bracketed groups such as
+// <AR> become one run-together character, whitespace and characters with no Morse code become
+// word breaks (' ', code '/') and runs of them collapse into one.
+export const tokenizeText = (text: string, alphabet: AlphabetId = 'international'): MorseChar[] => {
+  const map = getMorseMap(alphabet);
+  // Wabun keys voiced kana as base kana + mark, and hiragana like katakana
+  const prepared = alphabet === 'wabun'
+    ? text.normalize('NFD').replace(/[\u3041-\u3096]/g, c => String.fromCharCode(c.charCodeAt(0) + 0x60))
+    : text.normalize('NFC');
+  const upper = prepared.toUpperCase();
+
+  const tokens: MorseChar[] = [];
+  const pushSpace = () => {
+    if (tokens.length > 0 && tokens[tokens.length - 1].char !== ' ') tokens.push({ char: ' ', code: '/' });
+  };
+
+  const pattern = /<([^<>\s]+)>|[\s\S]/gu;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(upper)) !== null) {
+    if (match[1] !== undefined) {
+      const codes = Array.from(match[1]).map(c => map[c]);
+      if (codes.every(Boolean)) {
+        tokens.push({ char: match[0], code: codes.join('') });
+        continue;
+      }
+      pushSpace();
+      continue;
+    }
+    const code = match[0] === ' ' ? undefined : map[match[0]];
+    if (code) tokens.push({ char: match[0], code });
+    else pushSpace();
+  }
+
+  if (tokens.length > 0 && tokens[tokens.length - 1].char === ' ') tokens.pop();
+  return tokens;
+};
+
+// Element and space lengths (seconds) for the given speed and keying options.
+// Character speed sets the dit; Farnsworth stretches letter and word spaces and Wordsworth
+// only word spaces so that PARIS comes out at the effective speed. Weight moves time from
+// each space into the mark before it, keeping every element period unchanged.
+export const getElementDurations = (wpm: number, options: Partial<TimingOptions> = {}) => {
+  const { effectiveWpm, spacing, weight, dahRatio } = { ...DEFAULT_TIMING_OPTIONS, ...options };
   const dotMs = calculateDotLength(wpm) / 1000; // seconds
+  const weightShift = dotMs * (weight - 50) / 50;
+
+  let charSpace = 3 * dotMs;
+  let wordSpace = 7 * dotMs;
+  if (effectiveWpm !== null && effectiveWpm < wpm) {
+    if (spacing === 'farnsworth') {
+      // ARRL Farnsworth formula: added delay per PARIS word, spread over its 19 space units
+      const delay = (60 * wpm - 37.2 * effectiveWpm) / (wpm * effectiveWpm);
+      charSpace = 3 * delay / 19;
+      wordSpace = 7 * delay / 19;
+    } else {
+      // Wordsworth: one word space per PARIS word absorbs the whole slowdown
+      wordSpace += 60 / effectiveWpm - 60 / wpm;
+    }
+  }
+
+  return {
+    dit: dotMs + weightShift,
+    dah: dahRatio * dotMs + weightShift,
+    intra: dotMs - weightShift,
+    char: charSpace - weightShift,
+    word: wordSpace - weightShift
+  };
+};
+
+export const textToIdealTiming = (
+  text: string,
+  wpm: number,
+  options: Partial<TimingOptions> = {},
+  alphabet: AlphabetId = 'international'
+): SignalInterval[] => {
+  const durations = getElementDurations(wpm, options);
   const intervals: SignalInterval[] = [];
   let currentTime = 0;
 
-  const cleanText = text.toUpperCase().replace(/[^A-Z0-9 .,?'!/()&:;=+_"$@-]/g, ' ');
+  const tokens = tokenizeText(text, alphabet);
 
-  for (let i = 0; i < cleanText.length; i++) {
-    const char = cleanText[i];
+  for (let i = 0; i < tokens.length; i++) {
+    const { char, code } = tokens[i];
     
     if (char === ' ') {
-      // Word space: 7 units
-      // However, we usually just had a char space (3 units) from the previous char.
-      // Standard: 7 units between words.
-      // If we are strictly appending, the previous char ended with a Mark.
-      // We added a 3 unit gap after it.
-      // To make it a 7 unit gap total, we add 4 more.
-      
-      // Let's refine: The loop below adds a 3-unit gap AFTER every char.
-      // If we hit a space, we extend that gap to 7.
+      // Word space: the loop below adds a letter space AFTER every char.
+      // If we hit a space, we extend that gap to a full word space.
       if (intervals.length > 0 && intervals[intervals.length - 1].state === 'off') {
-        intervals[intervals.length - 1].duration += (4 * dotMs);
-        currentTime += (4 * dotMs);
+        const extension = durations.word - durations.char;
+        intervals[intervals.length - 1].duration += extension;
+        intervals[intervals.length - 1].kind = 'word';
+        currentTime += extension;
       }
       continue;
     }
 
-    const code = MORSE_MAP[char];
-    if (!code) continue;
-
     for (let j = 0; j < code.length; j++) {
       const symbol = code[j];
-      const duration = symbol === '.' ? dotMs : 3 * dotMs;
+      const duration = symbol === '.' ? durations.dit : durations.dah;
       
       // Mark
       intervals.push({
         startTime: currentTime,
         duration: duration,
-        state: 'on'
+        state: 'on',
+        kind: symbol === '.' ? 'dit' : 'dah',
+        char,
+        charIndex: i
       });
       currentTime += duration;
 
@@ -47,57 +117,82 @@ export const textToIdealTiming = (text: string, wpm: number): SignalInterval[] =
       if (j < code.length - 1) {
         intervals.push({
           startTime: currentTime,
-          duration: dotMs,
-          state: 'off'
+          duration: durations.intra,
+          state: 'off',
+          kind: 'intra',
+          char,
+          charIndex: i
         });
-        currentTime += dotMs;
+        currentTime += durations.intra;
       }
     }
 
-    // Inter-char space (3 units)
+    // Inter-char space (3 units, longer with Farnsworth)
     // We add this after every char. If the next char is a space, we extend it.
     intervals.push({
       startTime: currentTime,
-      duration: 3 * dotMs,
-      state: 'off'
+      duration: durations.char,
+      state: 'off',
+      kind: 'char',
+      char,
+      charIndex: i
     });
-    currentTime += 3 * dotMs;
+    currentTime += durations.char;
   }
 
   return intervals;
 };
 
-// Heuristic decoder to check for "K" (-.-)
-// Returns true if the last sequence of signals matches "K" and is followed by a significant pause
+// Codes of a command sequence: a raw dit/dah string, or text keyed character by character
+export const commandCodes = (sequence: string, alphabet: AlphabetId = 'international'): string[] => {
+  const trimmed = sequence.trim();
+  if (/^[.-]+$/.test(trimmed)) return [trimmed];
+  return tokenizeText(trimmed, alphabet).filter(t => t.char !== ' ').map(t => t.code);
+};
+
+export interface DetectedCommand {
+  command: KeyCommand;
+  signals: SignalInterval[]; // The attempt with the command (and the gap before it) removed
+}
+
+// Looks for a command keyed as the last word of the signals and followed by at least
+// `pauseSeconds` of silence. The signals must end with that silence as an 'off' interval.
+// If `expectedText` is given, a last word that is simply the next word of the line
+// (e.g. a QSO line ending in K) is not taken as a command.
 export const detectCommand = (
   signals: SignalInterval[], 
   wpm: number, 
-  commandChar: string = 'K'
-): boolean => {
-  if (signals.length < 3) return false;
-
-  const dotMs = calculateDotLength(wpm) / 1000;
-  // Tolerances
-  const dotMax = dotMs * 2.0; 
-  const dahMin = dotMs * 2.0;
-  
-  // Look at the last few 'on' signals
-  // Filter only 'on' signals
-  const onSignals = signals.filter(s => s.state === 'on');
-  if (onSignals.length < 3) return false;
-
-  const last3 = onSignals.slice(-3);
-  
-  const isDah1 = last3[0].duration > dahMin;
-  const isDit = last3[1].duration < dotMax;
-  const isDah2 = last3[2].duration > dahMin;
-
-  const targetCode = MORSE_MAP[commandChar]; 
-  // For K (-.-): Dah, Dit, Dah
-  
-  if (targetCode === '-.-' && isDah1 && isDit && isDah2) {
-      return true;
+  commands: KeyCommand[],
+  options: { pauseSeconds?: number; alphabet?: AlphabetId; expectedText?: string } = {}
+): DetectedCommand | null => {
+  const { pauseSeconds = COMMAND_PAUSE_SECONDS, alphabet = 'international', expectedText } = options;
+  const last = signals[signals.length - 1];
+  if (!last || last.state !== 'off' || last.duration < pauseSeconds) return null;
+
+  const decoded = decodeSignals(signals, wpm, alphabet);
+  const wordStart = decoded.chars.map(c => c.char).lastIndexOf(' ') + 1;
+  const lastWord = decoded.chars.slice(wordStart);
+  if (lastWord.length === 0) return null;
+  const lastCodes = lastWord.map(c => c.code).join(' ');
+
+  const command = commands.find(c => {
+    const codes = commandCodes(c.sequence, alphabet);
+    return codes.length > 0 && codes.join(' ') === lastCodes;
+  });
+  if (!command) return null;
+
+  if (expectedText !== undefined) {
+    const sentWords = decoded.chars.slice(0, wordStart).filter(c => c.char === ' ').length;
+    const expectedWords = tokenizeText(expectedText, alphabet)
+      .map(t => (t.char === ' ' ? '/' : t.code))
+      .join(' ')
+      .split(' / ');
+    if (expectedWords[sentWords] === lastCodes) return null;
   }
 
-  return false;
+  // Keep everything before the word space that preceded the command
+  const commandStart = lastWord[0].startTime;
+  const kept = signals.filter(s => s.startTime + s.duration <= commandStart);
+  while (kept.length > 0 && kept[kept.length - 1].state === 'off') kept.pop();
+  return { command, signals: kept };
 };
@@ -0,0 +1,129 @@
+import { calculateDotLength } from '../constants';
+import { AlignedPair, KeyerElement, PaddleContact, PaddleEdge, PaddleLog, PaddleMetrics, PaddleTimingEvent, SignalInterval } from '../types';
+import { alignSignals } from './signalAlignment';
+
+// A detected mark and the keyer element behind it start at the same time, give or take float noise
+const MATCH_TOLERANCE = 0.001;
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null);
+
+// Whether `contact` is down at `time`, from the edges before it
+const isDownAt = (edges: PaddleEdge[], contact: PaddleContact, time: number): boolean => {
+  let down = false;
+  for (const e of edges) {
+    if (e.time > time) break;
+    if (e.contact === contact) down = e.down;
+  }
+  return down;
+};
+
+const lastPress = (edges: PaddleEdge[], contact: PaddleContact, time: number): PaddleEdge | undefined =>
+  [...edges].reverse().find(e => e.contact === contact && e.down && e.time <= time);
+
+const nextPress = (edges: PaddleEdge[], contact: PaddleContact, time: number): PaddleEdge | undefined =>
+  edges.find(e => e.contact === contact && e.down && e.time > time);
+
+// First moment at or after `time` with both paddles open
+const releaseTime = (edges: PaddleEdge[], time: number): number => {
+  if (!isDownAt(edges, 'dit', time) && !isDownAt(edges, 'dah', time)) return time;
+  const release = edges.find(e => e.time > time && !e.down &&
+    !isDownAt(edges, 'dit', e.time) && !isDownAt(edges, 'dah', e.time));
+  return release ? release.time : Infinity;
+};
+
+/**
+ * Paddle timing behind a keyer-generated attempt. The keyer makes every element and
+ * element gap exact, so the operator's faults are in when the paddles move relative to
+ * the keyer's sample points (the end of each element's space):
+ * - squeeze: where the next element of a letter is the other kind, that paddle has to be
+ *   down (or remembered) by the sample point, or the letter breaks off
+ * - release: at the end of a letter both paddles have to be open by the sample point,
+ *   or the keyer adds an element
+ * Returns null without a paddle log or anything to measure.
+ */
+export const analyzePaddle = (
+  idealSignals: SignalInterval[],
+  userSignals: SignalInterval[],
+  log: PaddleLog | null | undefined,
+  wpm: number,
+  alignment: AlignedPair[] = alignSignals(idealSignals, userSignals, wpm)
+): PaddleMetrics | null => {
+  if (!log || log.elements.length === 0) return null;
+  const unit = calculateDotLength(wpm) / 1000;
+  const { edges, elements, keyer } = log;
+
+  const elementAt = (mark: SignalInterval): KeyerElement | undefined =>
+    elements.find(e => Math.abs(e.start - mark.startTime) < MATCH_TOLERANCE);
+
+  // The elements the keyer sent back to back from `first` on, i.e. one keyed letter
+  const chainFrom = (first: KeyerElement): KeyerElement[] => {
+    const chain = [first];
+    for (let i = elements.indexOf(first) + 1; i < elements.length; i++) {
+      if (Math.abs(elements[i].start - chain[chain.length - 1].sampleTime) >= MATCH_TOLERANCE) break;
+      chain.push(elements[i]);
+    }
+    return chain;
+  };
+
+  // Marks of each letter in the ideal timing, and the user mark aligned to the first one
+  const letters = new Map<number, { marks: SignalInterval[]; firstUser: number | null }>();
+  idealSignals.forEach(s => {
+    if (s.state !== 'on' || s.charIndex === undefined) return;
+    const letter = letters.get(s.charIndex) ?? { marks: [], firstUser: null };
+    letter.marks.push(s);
+    letters.set(s.charIndex, letter);
+  });
+  alignment.forEach(({ idealIndex, userIndex }) => {
+    if (idealIndex === null || userIndex === null) return;
+    const ideal = idealSignals[idealIndex];
+    const letter = ideal.charIndex !== undefined ? letters.get(ideal.charIndex) : undefined;
+    if (letter && letter.marks[0] === ideal) letter.firstUser = userIndex;
+  });
+
+  const events: PaddleTimingEvent[] = [];
+  letters.forEach(({ marks, firstUser }, charIndex) => {
+    const first = firstUser !== null ? elementAt(userSignals[firstUser]) : undefined;
+    if (!first) return;
+    const chain = chainFrom(first);
+    const char = marks[0].char ?? '';
+
+    for (let i = 0; i < marks.length - 1 && i < chain.length; i++) {
+      const contact: PaddleContact = marks[i + 1].kind === 'dah' ? 'dah' : 'dit';
+      if (contact === marks[i].kind) continue;
+      const element = chain[i];
+
+      // In time if held at the sample point, or tapped during the element with memory on
+      const press = lastPress(edges, contact, element.sampleTime);
+      const remembered = press !== undefined && press.time >= element.start &&
+        (contact === 'dit' ? keyer.ditMemory : keyer.dahMemory);
+      let margin: number;
+      if (press && (remembered || isDownAt(edges, contact, element.sampleTime))) {
+        // Held from before the element counts as pressed at its start
+        margin = element.sampleTime - Math.max(press.time, element.start);
+      } else {
+        const late = nextPress(edges, contact, element.sampleTime);
+        if (!late) continue;
+        margin = element.sampleTime - late.time;
+      }
+      events.push({ type: 'squeeze', char, charIndex, time: element.sampleTime, marginUnits: margin / unit });
+    }
+
+    // A letter that broke off early has its fault in the squeezes; only complete ones count here
+    const last = chain[marks.length - 1];
+    if (!last) return;
+    const release = releaseTime(edges, last.start);
+    if (!Number.isFinite(release)) return;
+    events.push({ type: 'release', char, charIndex, time: last.sampleTime, marginUnits: (last.sampleTime - release) / unit });
+  });
+
+  if (events.length === 0) return null;
+  const squeezes = events.filter(e => e.type === 'squeeze');
+  const releases = events.filter(e => e.type === 'release');
+  return {
+    events,
+    lateSqueezes: squeezes.filter(e => e.marginUnits < 0).length,
+    lateReleases: releases.filter(e => e.marginUnits < 0).length,
+    squeezeMargin: mean(squeezes.map(e => e.marginUnits)),
+    releaseMargin: mean(releases.map(e => e.marginUnits))
+  };
+};
@@ -0,0 +1,37 @@
+import { LineResult, PracticeLine, PracticeOrder, PracticeSummary } from '../types';
+import { createRandom, shuffle } from './random';
+
+// Line indices in the order they're practised; a shuffle visits every line exactly once
+export const createLineOrder = (count: number, order: PracticeOrder, seed: number): number[] => {
+  const indices = Array.from({ length: count }, (_, i) => i);
+  return order === 'shuffle' ? shuffle(createRandom(seed), indices) : indices;
+};
+
+export const addLineResult = (result: LineResult | undefined, score: number, passScore: number): LineResult => ({
+  attempts: (result?.attempts ?? 0) + 1,
+  bestScore: Math.max(result?.bestScore ?? 0, score),
+  passed: (result?.passed ?? false) || score >= passScore,
+});
+
+// Results are keyed by line text, so lines that repeat in the text count together
+export const summarizePractice = (lines: PracticeLine[], results: Map<string, LineResult>): PracticeSummary => {
+  const seen = new Set<string>();
+  const lineResults: LineResult[] = [];
+  lines.forEach(line => {
+    if (seen.has(line.text)) return;
+    seen.add(line.text);
+    const result = results.get(line.text);
+    if (result) lineResults.push(result);
+  });
+
+  return {
+    total: seen.size,
+    attempted: lineResults.length,
+    passed: lineResults.filter(r => r.passed).length,
+    retried: lineResults.filter(r => r.attempts > 1).length,
+    attempts: lineResults.reduce((sum, r) => sum + r.attempts, 0),
+    meanBestScore: lineResults.length > 0
+      ? lineResults.reduce((sum, r) => sum + r.bestScore, 0) / lineResults.length
+      : null,
+  };
+};
@@ -0,0 +1,193 @@
+import { COMMON_WORDS } from '../constants';
+import { PracticeTextKind, PracticeTextRequest } from '../types';
+import { Random, createRandom, pick, randomInt, weightedPick } from './random';
+
+// Amateur callsigns follow the ITU pattern prefix + digit + suffix, where the prefix comes
+// from the country's allocated block. Each entry is one prefix family with its digits and
+// suffix lengths as actually issued, weighted roughly by how often it is heard on CW.
+interface PrefixRule {
+  prefixes: string[];
+  digits: string;
+  suffix: [number, number]; // Min/max suffix letters
+  weight: number;
+  cqZones: number[];
+  qths: string[];
+  states?: string[]; // State/province multipliers for QSO-party style contests
+}
+
+const US_BASE = {
+  digits: '0123456789',
+  cqZones: [3, 4, 5],
+  qths: ['boston', 'denver', 'austin', 'seattle', 'atlanta', 'chicago', 'phoenix', 'ohio', 'maine', 'iowa', 'nr dallas', 'portland'],
+  states: ['ma', 'co', 'tx', 'wa', 'ga', 'il', 'az', 'oh', 'me', 'ia', 'ny', 'ca', 'fl', 'mn', 'or', 'va', 'nc', 'mi', 'pa', 'nh'],
+};
+
+const VE_BASE = {
+  digits: '123456789',
+  cqZones: [4, 5],
+  qths: ['ottawa', 'toronto', 'halifax', 'calgary', 'winnipeg', 'quebec'],
+  states: ['on', 'qc', 'ns', 'ab', 'mb', 'bc', 'sk', 'nb'],
+};
+
+const PREFIX_RULES: PrefixRule[] = [
+  { ...US_BASE, prefixes: ['K', 'N', 'W'], suffix: [2, 3], weight: 10 },
+  { ...US_BASE, prefixes: ['KA', 'KB', 'KC', 'KD', 'KE', 'KF', 'KG', 'KI', 'KJ', 'KO', 'NA', 'NJ', 'WA', 'WB', 'WD'], suffix: [2, 3], weight: 6 },
+  { ...US_BASE, prefixes: ['AA', 'AB', 'AC', 'AD', 'AE', 'AF', 'AG', 'AI', 'AJ', 'AK'], suffix: [2, 2], weight: 3 },
+  { ...VE_BASE, prefixes: ['VE', 'VA'], suffix: [2, 3], weight: 3 },
+  { prefixes: ['G', 'M'], digits: '0345', suffix: [3, 3], weight: 4, cqZones: [14], qths: ['london', 'leeds', 'bristol', 'york', 'kent'] },
+  { prefixes: ['GM', 'MM'], digits: '034', suffix: [3, 3], weight: 1, cqZones: [14], qths: ['glasgow', 'edinburgh', 'aberdeen'] },
+  { prefixes: ['DL', 'DK', 'DJ', 'DF', 'DG', 'DH', 'DB', 'DC', 'DD', 'DO'], digits: '123456789', suffix: [2, 3], weight: 8, cqZones: [14], qths: ['berlin', 'munich', 'hamburg', 'koeln', 'dresden', 'bremen'] },
+  { prefixes: ['JA', 'JE', 'JF', 'JG', 'JH', 'JI', 'JJ', 'JR', '7K', '7L', '7M', '7N'], digits: '0123456789', suffix: [3, 3], weight: 6, cqZones: [25], qths: ['tokyo', 'osaka', 'nagoya', 'sapporo', 'kyoto'] },
+  { prefixes: ['I', 'IK', 'IZ', 'IW'], digits: '0123456789', suffix: [2, 3], weight: 4, cqZones: [15], qths: ['roma', 'milano', 'torino', 'napoli', 'firenze'] },
+  { prefixes: ['F'], digits: '4568', suffix: [3, 3], weight: 3, cqZones: [14], qths: ['paris', 'lyon', 'lille', 'nantes', 'bordeaux'] },
+  { prefixes: ['EA'], digits: '123456789', suffix: [2, 3], weight: 3, cqZones: [14], qths: ['madrid', 'sevilla', 'valencia', 'bilbao'] },
+  { prefixes: ['UA', 'RA', 'RV', 'RW', 'RX', 'RZ', 'R'], digits: '0134569', suffix: [2, 3], weight: 5, cqZones: [16, 17, 18], qths: ['moscow', 'omsk', 'kazan', 'samara', 'perm'] },
+  { prefixes: ['UR', 'UT', 'US', 'UX'], digits: '0123456789', suffix: [2, 3], weight: 2, cqZones: [16], qths: ['kyiv', 'lviv', 'odesa', 'kharkiv'] },
+  { prefixes: ['SP', 'SQ', 'SO'], digits: '123456789', suffix: [2, 3], weight: 3, cqZones: [15], qths: ['warszawa', 'krakow', 'gdansk', 'poznan'] },
+  { prefixes: ['OK', 'OL'], digits: '12', suffix: [2, 3], weight: 2, cqZones: [15], qths: ['praha', 'brno', 'ostrava'] },
+  { prefixes: ['PA', 'PD', 'PE', 'PH'], digits: '0123456789', suffix: [2, 3], weight: 2, cqZones: [14], qths: ['amsterdam', 'utrecht', 'den haag'] },
+  { prefixes: ['ON'], digits: '3456789', suffix: [2, 3], weight: 1, cqZones: [14], qths: ['brussel', 'gent', 'liege'] },
+  { prefixes: ['OE'], digits: '123456789', suffix: [2, 3], weight: 1, cqZones: [15], qths: ['wien', 'graz', 'linz'] },
+  { prefixes: ['HB9'], digits: '', suffix: [2, 3], weight: 1, cqZones: [14], qths: ['zurich', 'bern', 'geneva'] },
+  { prefixes: ['SM', 'SA'], digits: '01234567', suffix: [2, 3], weight: 2, cqZones: [14], qths: ['stockholm', 'goteborg', 'malmo'] },
+  { prefixes: ['OH', 'OG'], digits: '0123456789', suffix: [2, 3], weight: 2, cqZones: [15], qths: ['helsinki', 'tampere', 'oulu'] },
+  { prefixes: ['HA', 'HG'], digits: '0123456789', suffix: [2, 3], weight: 1, cqZones: [15], qths: ['budapest', 'debrecen'] },
+  { prefixes: ['S5'], digits: '0123456789', suffix: [2, 3], weight: 1, cqZones: [15], qths: ['ljubljana', 'maribor'] },
+  { prefixes: ['9A'], digits: '123456789', suffix: [2, 3], weight: 1, cqZones: [15], qths: ['zagreb', 'split'] },
+  { prefixes: ['CT'], digits: '1237', suffix: [2, 3], weight: 1, cqZones: [14], qths: ['lisboa', 'porto'] },
+  { prefixes: ['EI'], digits: '23456789', suffix: [2, 3], weight: 1, cqZones: [14], qths: ['dublin', 'cork'] },
+  { prefixes: ['4X', '4Z'], digits: '1456', suffix: [2, 3], weight: 1, cqZones: [20], qths: ['tel aviv', 'haifa'] },
+  { prefixes: ['VK'], digits: '12345678', suffix: [2, 3], weight: 2, cqZones: [29, 30], qths: ['sydney', 'melbourne', 'perth', 'brisbane'] },
+  { prefixes: ['ZL'], digits: '1234', suffix: [2, 3], weight: 1, cqZones: [32], qths: ['auckland', 'wellington'] },
+  { prefixes: ['PY', 'PU'], digits: '123456789', suffix: [2, 3], weight: 2, cqZones: [11], qths: ['sao paulo', 'rio', 'curitiba'] },
+  { prefixes: ['LU'], digits: '123456789', suffix: [2, 3], weight: 1, cqZones: [13], qths: ['buenos aires', 'cordoba'] },
+  { prefixes: ['ZS'], digits: '123456', suffix: [2, 3], weight: 1, cqZones: [38], qths: ['cape town', 'durban', 'pretoria'] },
+];
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+interface Station {
+  call: string;
+  rule: PrefixRule;
+}
+
+const generateStation = (random: Random, rules: PrefixRule[] = PREFIX_RULES): Station => {
+  const rule = weightedPick(random, rules, r => r.weight);
+  let suffix = '';
+  const length = randomInt(random, rule.suffix[0], rule.suffix[1]);
+  for (let i = 0; i < length; i++) suffix += pick(random, Array.from(LETTERS));
+  // Prefixes that already end in the call area digit (HB9) take no extra one
+  const digit = rule.digits ? pick(random, Array.from(rule.digits)) : '';
+  return { call: `${pick(random, rule.prefixes)}${digit}${suffix}`.toLowerCase(), rule };
+};
+
+export const generateCallsign = (random: Random): string => generateStation(random).call;
+
+const NAMES = ['bob', 'jim', 'tom', 'ann', 'joe', 'mike', 'sue', 'dave', 'hans', 'yuki', 'pete', 'ed', 'al', 'kay', 'ray', 'bill', 'ken', 'don', 'max', 'lou', 'jan', 'ivo'];
+const RIGS = ['ic7300', 'k3', 'ft991', 'ts590', 'ftdx10', 'kx2', 'k4', 'ic705', 'homebrew'];
+const ANTENNAS = ['dipole', '3el yagi', 'vertical', 'efhw', 'loop', 'g5rv', 'long wire', 'hexbeam'];
+const POWERS = ['100w', '5w', '50w', '500w', '10w', '1kw'];
+const WEATHER = ['sunny', 'cldy', 'rain', 'snow', 'fb', 'windy', 'fog'];
+const REPORTS = ['599', '589', '579', '569', '559', '449', '339'];
+
+const pickRst = (random: Random) => pick(random, REPORTS);
+
+// A ragchew QSO as the calling station (a) and the answering station (b) send it, one
+// short over segment per line. Fields use the usual abbreviations and <BT>/<AR>/<KN>/<SK>.
+const generateQso = (random: Random, userCallsign?: string): string[] => {
+  const a = userCallsign ? { ...generateStation(random), call: userCallsign.toLowerCase() } : generateStation(random);
+  let b = generateStation(random);
+  while (b.call === a.call) b = generateStation(random);
+  const nameA = pick(random, NAMES);
+  const nameB = pick(random, NAMES.filter(n => n !== nameA));
+  const greeting = pick(random, ['gm', 'ga', 'ge']);
+  const rstA = pickRst(random);
+  const rstB = pickRst(random);
+
+  const details = (station: Station, name: string, rst: string) => {
+    const qth = pick(random, station.rule.qths);
+    const lines = [
+      `ur rst ${rst} ${rst} <bt>`,
+      `${pick(random, ['name', 'name hr', 'op'])} ${name} ${name} <bt>`,
+      `${pick(random, ['qth', 'qth hr', 'qth is'])} ${qth} ${qth} <bt>`,
+    ];
+    if (random() < 0.7) lines.push(`rig ${pick(random, RIGS)} pwr ${pick(random, POWERS)} <bt>`);
+    if (random() < 0.6) lines.push(`ant ${pick(random, ANTENNAS)} <bt>`);
+    if (random() < 0.5) {
+      const temp = random() < 0.5 ? `${randomInt(random, -5, 30)}c` : `${randomInt(random, 25, 90)}f`;
+      lines.push(`wx ${pick(random, WEATHER)} temp ${temp} <bt>`);
+    }
+    return lines;
+  };
+
+  return [
+    `cq cq cq de ${a.call} ${a.call} k`,
+    `${a.call} de ${b.call} ${b.call} k`,
+    `${b.call} de ${a.call}`,
+    `${greeting} om es tnx fer call`,
+    ...details(a, nameA, rstA),
+    `hw cpy? <ar> ${b.call} de ${a.call} <kn>`,
+    `${a.call} de ${b.call}`,
+    `r r fb ${nameA} tnx fer rpt`,
+    ...details(b, nameB, rstB),
+    `so hw? <ar> ${a.call} de ${b.call} <kn>`,
+    `${b.call} de ${a.call}`,
+    `r tnx fer fb qso ${nameB}`,
+    `${pick(random, ['hpe cuagn', 'cul', 'gl es gud dx'])} 73 <sk> ${b.call} de ${a.call} ee`,
+  ];
+};
+
+// Running-station view of a contest: each line is a caller's call and exchange
+const generateContest = (random: Random, kind: PracticeTextKind, lineCount: number): string[] => {
+  const lines: string[] = [];
+  let serial = randomInt(random, 1, 300);
+  // State exchanges only exist for stations that have one
+  const rules = kind === 'contest-state' ? PREFIX_RULES.filter(r => r.states) : PREFIX_RULES;
+
+  for (let i = 0; i < lineCount; i++) {
+    const station = generateStation(random, rules);
+    let exchange: string;
+    if (kind === 'contest-serial') {
+      exchange = String(serial).padStart(3, '0');
+      serial += randomInt(random, 1, 3);
+    } else if (kind === 'contest-zone') {
+      exchange = String(pick(random, station.rule.cqZones)).padStart(2, '0');
+    } else {
+      exchange = pick(random, station.rule.states!);
+    }
+    lines.push(`${station.call} 5nn ${exchange}`);
+  }
+  return lines;
+};
+
+const WORDS_PER_LINE: [number, number] = [3, 5];
+const CALLS_PER_LINE: [number, number] = [3, 4];
+
+/**
+ * Practice material made locally from the seed, so the same request always gives the same
+ * text. QSOs are one script of their natural length; the other kinds give lineCount lines.
+ */
+export const generatePracticeLines = (request: PracticeTextRequest): string => {
+  const { kind, seed, lineCount = 20, userCallsign } = request;
+  const random = createRandom(seed);
+
+  const repeat = (count: [number, number], item: () => string) => {
+    const lines: string[] = [];
+    for (let i = 0; i < lineCount; i++) {
+      const n = randomInt(random, count[0], count[1]);
+      lines.push(Array.from({ length: n }, item).join(' '));
+    }
+    return lines;
+  };
+
+  switch (kind) {
+    case 'callsigns':
+      return repeat(CALLS_PER_LINE, () => generateCallsign(random)).join('\n');
+    case 'qso':
+      return generateQso(random, userCallsign?.trim() || undefined).join('\n');
+    case 'words':
+      return repeat(WORDS_PER_LINE, () => pick(random, COMMON_WORDS)).join('\n');
+    default:
+      return generateContest(random, kind, lineCount).join('\n');
+  }
+};
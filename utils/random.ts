@@ -0,0 +1,41 @@
+// Small seeded PRNG (mulberry32) so generated practice material can be reproduced from its seed
+export type Random = () => number;
+
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomInt = (random: Random, min: number, max: number): number => {
+  return min + Math.floor(random() * (max - min + 1));
+};
+
+export const pick = <T>(random: Random, items: readonly T[]): T => {
+  return items[Math.floor(random() * items.length)];
+};
+
+export const weightedPick = <T>(random: Random, items: readonly T[], weight: (item: T) => number): T => {
+  const total = items.reduce((sum, item) => sum + weight(item), 0);
+  let r = random() * total;
+  for (const item of items) {
+    r -= weight(item);
+    if (r <= 0) return item;
+  }
+  return items[items.length - 1];
+};
+
+// Fisher-Yates, returns a new array
+export const shuffle = <T>(random: Random, items: readonly T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
@@ -0,0 +1,50 @@
+import { AlphabetId, CopyRecord, DiffOp, MorseChar, ReceiveCharStat } from '../types';
+import { tokenizeText } from './morseUtils';
+import { diffSequences } from './textDiff';
+
+// Typed copy against the played line. Compared by code like the sending decoder, so typing
+// + for <AR> counts; anything typed that has no Morse code reads as a word break.
+export const diffCopy = (lineText: string, typed: string, alphabet: AlphabetId): DiffOp<MorseChar>[] =>
+  diffSequences(tokenizeText(lineText, alphabet), tokenizeText(typed, alphabet), (a, b) => a.code === b.code);
+
+// Share of characters copied right; extra characters count against it like missed ones
+export const copyScore = (ops: DiffOp<MorseChar>[]): number => {
+  const isChar = (c: MorseChar | undefined) => c !== undefined && c.char !== ' ';
+  const expected = ops.filter(op => isChar(op.expected)).length;
+  const extra = ops.filter(op => op.type === 'extra' && isChar(op.actual)).length;
+  const correct = ops.filter(op => op.type === 'match' && isChar(op.expected)).length;
+  const total = expected + extra;
+  return total > 0 ? Math.round((correct / total) * 100) : 0;
+};
+
+// Per-character copy error rate across records, with what each character was mistaken for
+// ('' = missed). Weakest first.
+export const aggregateReceiveStats = (records: CopyRecord[]): ReceiveCharStat[] => {
+  const acc = new Map<string, { seen: number; errors: number; confusions: Map<string, number> }>();
+
+  records.forEach(record => {
+    diffCopy(record.lineText, record.typed, record.alphabet).forEach(op => {
+      if (!op.expected || op.expected.char === ' ') return;
+      const entry = acc.get(op.expected.char) ?? { seen: 0, errors: 0, confusions: new Map<string, number>() };
+      entry.seen++;
+      if (op.type !== 'match') {
+        entry.errors++;
+        const as = op.type === 'wrong' && op.actual && op.actual.char !== ' ' ? op.actual.char : '';
+        entry.confusions.set(as, (entry.confusions.get(as) ?? 0) + 1);
+      }
+      acc.set(op.expected.char, entry);
+    });
+  });
+
+  return Array.from(acc.entries())
+    .map(([key, e]) => ({
+      key,
+      seen: e.seen,
+      errors: e.errors,
+      errorRate: e.errors / e.seen,
+      confusions: Array.from(e.confusions.entries())
+        .map(([char, count]) => ({ char, count }))
+        .sort((a, b) => b.count - a.count),
+    }))
+    .sort((a, b) => b.errorRate - a.errorRate || b.seen - a.seen);
+};
@@ -0,0 +1,80 @@
+import { calculateDotLength } from '../constants';
+import { AlignedPair, SignalInterval } from '../types';
+import { classifyElements } from './morseDecoder';
+
+// Cost of leaving an element unmatched. Slightly above the cost of matching a dit with a dah
+// (|ln 3| ≈ 1.1) so a mis-sent element is still paired, while a genuinely inserted or dropped
+// element is cheaper to skip than to force every later element out of place.
+const SKIP_COST = 1.2;
+
+// Indices of the intervals between the first and last mark (inclusive)
+const markSpan = (signals: SignalInterval[]): number[] => {
+  const first = signals.findIndex(s => s.state === 'on');
+  if (first === -1) return [];
+  let last = signals.length - 1;
+  while (last > first && signals[last].state !== 'on') last--;
+  const indices: number[] = [];
+  for (let i = first; i <= last; i++) indices.push(i);
+  return indices;
+};
+
+// Edit-distance alignment of ideal and user elements (marks and gaps). Durations are compared
+// in dit units, the user's measured against the decoder's running dit estimate so that gradual
+// tempo drift doesn't push every later element out of place. Marks only ever pair with marks and
+// gaps with gaps; inserted or dropped elements come back with a null index on the other side.
+export const alignSignals = (
+  idealSignals: SignalInterval[],
+  userSignals: SignalInterval[],
+  wpm: number
+): AlignedPair[] => {
+  const idealIdx = markSpan(idealSignals);
+  const userIdx = markSpan(userSignals);
+  if (idealIdx.length === 0 || userIdx.length === 0) return [];
+
+  const idealUnit = calculateDotLength(wpm) / 1000;
+  const unitByIndex = new Map<number, number>();
+  classifyElements(userSignals, wpm).forEach(c => unitByIndex.set(c.index, c.unit));
+
+  const idealUnits = idealIdx.map(i => idealSignals[i].duration / idealUnit);
+  const userUnits = userIdx.map(i => userSignals[i].duration / (unitByIndex.get(i) ?? idealUnit));
+
+  const matchCost = (a: number, b: number) => {
+    if (idealSignals[idealIdx[a]].state !== userSignals[userIdx[b]].state) return Infinity;
+    return Math.abs(Math.log(Math.max(userUnits[b], 1e-3) / idealUnits[a]));
+  };
+
+  const n = idealIdx.length;
+  const m = userIdx.length;
+  const cost: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = 1; i <= n; i++) cost[i][0] = i * SKIP_COST;
+  for (let j = 1; j <= m; j++) cost[0][j] = j * SKIP_COST;
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + matchCost(i - 1, j - 1),
+        cost[i - 1][j] + SKIP_COST,
+        cost[i][j - 1] + SKIP_COST
+      );
+    }
+  }
+
+  const pairs: AlignedPair[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + matchCost(i - 1, j - 1)) {
+      pairs.push({ idealIndex: idealIdx[i - 1], userIndex: userIdx[j - 1] });
+      i--;
+      j--;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + SKIP_COST) {
+      pairs.push({ idealIndex: idealIdx[i - 1], userIndex: null });
+      i--;
+    } else {
+      pairs.push({ idealIndex: null, userIndex: userIdx[j - 1] });
+      j--;
+    }
+  }
+
+  return pairs.reverse();
+};
@@ -0,0 +1,42 @@
+import { PARIS_UNITS_PER_WORD, calculateWpm } from '../constants';
+import { ClassifiedElement, ElementClass, SignalInterval, SpeedEstimate } from '../types';
+import { classifyElements } from './morseDecoder';
+
+// Standard PARIS length of each element class in dit units
+const STANDARD_UNITS: Record<Exclude<ElementClass, 'end'>, number> = {
+  '.': 1,
+  '-': 3,
+  intra: 1,
+  char: 3,
+  word: 7,
+};
+
+// Estimates the speed an attempt was actually sent at. Character speed comes from the element
+// timing alone (dits, dahs and element gaps); effective speed counts the standard PARIS units of
+// everything sent, spacing included, against the time it took.
+export const estimateSpeed = (signals: SignalInterval[], wpm: number): SpeedEstimate | null => {
+  const classified = classifyElements(signals, wpm)
+    .filter((c): c is ClassifiedElement & { cls: Exclude<ElementClass, 'end'> } => c.cls !== 'end');
+  if (!classified.some(c => c.cls === '.' || c.cls === '-')) return null;
+
+  const unitSamples: number[] = [];
+  let standardUnits = 0;
+  let elapsed = 0;
+
+  classified.forEach(c => {
+    const duration = signals[c.index].duration;
+    standardUnits += STANDARD_UNITS[c.cls];
+    elapsed += duration;
+    if (c.cls === '.' || c.cls === 'intra') unitSamples.push(duration);
+    if (c.cls === '-') unitSamples.push(duration / 3);
+  });
+
+  const unit = unitSamples.reduce((a, b) => a + b, 0) / unitSamples.length;
+  const words = standardUnits / PARIS_UNITS_PER_WORD;
+
+  return {
+    characterWpm: calculateWpm(unit * 1000),
+    effectiveWpm: elapsed > 0 ? words / (elapsed / 60) : 0,
+    unit,
+  };
+};
@@ -0,0 +1,50 @@
+import { DiffOp } from '../types';
+
+// Edit-distance alignment of two sequences. Substitutions are reported as 'wrong',
+// deletions from the expected sequence as 'missing' and insertions as 'extra'.
+export const diffSequences = <T>(
+  expected: T[],
+  actual: T[],
+  equals: (a: T, b: T) => boolean = (a, b) => a === b
+): DiffOp<T>[] => {
+  const n = expected.length;
+  const m = actual.length;
+
+  // dist[i][j] = edit distance between expected[0..i) and actual[0..j)
+  const dist: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = 0; i <= n; i++) dist[i][0] = i;
+  for (let j = 0; j <= m; j++) dist[0][j] = j;
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const sub = dist[i - 1][j - 1] + (equals(expected[i - 1], actual[j - 1]) ? 0 : 1);
+      dist[i][j] = Math.min(sub, dist[i - 1][j] + 1, dist[i][j - 1] + 1);
+    }
+  }
+
+  // Backtrack from the end, preferring matches/substitutions so that "ET" for "A"
+  // reads as one wrong character plus one extra rather than three separate edits.
+  const ops: DiffOp<T>[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const same = equals(expected[i - 1], actual[j - 1]);
+      if (dist[i][j] === dist[i - 1][j - 1] + (same ? 0 : 1)) {
+        ops.push({ type: same ? 'match' : 'wrong', expected: expected[i - 1], actual: actual[j - 1] });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && dist[i][j] === dist[i - 1][j] + 1) {
+      ops.push({ type: 'missing', expected: expected[i - 1] });
+      i--;
+    } else {
+      ops.push({ type: 'extra', actual: actual[j - 1] });
+      j--;
+    }
+  }
+
+  return ops.reverse();
+};
@@ -0,0 +1,164 @@
+import { COMMON_WORDS } from '../constants';
+import { PracticeLine, TextSet } from '../types';
+import { parseCsv } from './csv';
+import { generatePracticeLines } from './practiceText';
+
+const PHRASES = `tnx for the call
+ant is 3el yagi
+at 55 feet
+up and down
+xray wont hurt
+kiss and tell
+easy as pie
+rag tag dog wag
+wx is cldy
+temp is 15C
+temp here is 70F
+make CW QSOs
+the oak tree
+hope to cu agn
+sun spots
+your RST is
+the tall tree
+best QSO ever
+cold ice rink
+120 volt amp
+rf coax loss
+been to the zoo?
+CWA has been fun
+rf burn
+know them well
+have a fun time
+a crew cut
+be safe and well
+name is rick
+I like SOTA
+head copy
+blue jay way
+from me to you
+when im 64
+best of my love`;
+
+const NUMBERS = `# Digits, reports and contest serials
+1 2 3 4 5
+6 7 8 9 0
+12 34 56 78 90
+599 579 559
+5nn 001
+5nn 042
+5nn 317
+73 88
+1296 mhz
+pwr 100w
+temp 21c
+14025 khz
+7030 khz
+qth 1600 ft asl
+rig ic7300
+call 2e0abc`;
+
+const PUNCTUATION = `# Every punctuation mark in the international set
+hello, world.
+r u ok?
+qth: boston
+73 / gl
+name = bob
+it's fb!
+(cw) is fun
+5+5=10
+a-ok
+see u @ 8
+say "qrz"
+up; down
+snake_case
+$5 fee
+rock & roll`;
+
+const WORDS_PER_LINE = 5;
+
+const chunkWords = (words: string[]) => {
+  const lines: string[] = [];
+  for (let i = 0; i < words.length; i += WORDS_PER_LINE) lines.push(words.slice(i, i + WORDS_PER_LINE).join(' '));
+  return lines.join('\n');
+};
+
+export const DEFAULT_TEXT_SET_ID = 'builtin:phrases';
+
+export const BUILTIN_TEXT_SETS: TextSet[] = [
+  { id: DEFAULT_TEXT_SET_ID, name: 'Phrases', text: PHRASES, builtin: true },
+  { id: 'builtin:words', name: 'Common words', text: chunkWords(COMMON_WORDS), builtin: true },
+  // A fixed seed keeps the built-in list the same on every load
+  { id: 'builtin:callsigns', name: 'Callsigns', text: generatePracticeLines({ kind: 'callsigns', seed: 1 }), builtin: true },
+  { id: 'builtin:numbers', name: 'Numbers', text: NUMBERS, builtin: true },
+  { id: 'builtin:punctuation', name: 'Punctuation', text: PUNCTUATION, builtin: true },
+];
+
+const parseSpeed = (value: string | undefined): number | undefined => {
+  const v = value !== undefined ? parseFloat(value) : NaN;
+  return Number.isFinite(v) && v > 0 ? v : undefined;
+};
+
+/**
+ * Splits source text into practice lines. '#' starts a comment (it has no Morse code, so
+ * nothing sendable is lost) and blank lines are skipped. Settings for a line follow a '|':
+ *
+ *   cq cq de w1aw | wpm=20 ewpm=12
+ *
+ * wpm sets the character speed and ewpm the effective (Farnsworth/Wordsworth) speed.
+ * Unknown keys are ignored.
+ */
+export const parsePracticeLines = (text: string): PracticeLine[] => {
+  const lines: PracticeLine[] = [];
+  text.split('\n').forEach(raw => {
+    const [body, meta = ''] = raw.replace(/#.*$/, '').split('|', 2);
+    const lineText = body.trim();
+    if (lineText.length === 0) return;
+
+    const settings = new Map<string, string>();
+    meta.split(/[\s,]+/).forEach(pair => {
+      const [key, value] = pair.split('=');
+      if (key && value !== undefined) settings.set(key.toLowerCase(), value);
+    });
+    const wpm = parseSpeed(settings.get('wpm'));
+    const effectiveWpm = parseSpeed(settings.get('ewpm'));
+    lines.push({
+      text: lineText,
+      ...(wpm !== undefined ? { wpm } : {}),
+      ...(effectiveWpm !== undefined ? { effectiveWpm } : {}),
+    });
+  });
+  return lines;
+};
+
+// CSV import: a "text" column if there is a header naming one (with optional "wpm" and "ewpm"
+// columns), otherwise the first column as text and a numeric second column as wpm
+const textFromCsv = (content: string): string => {
+  const rows = parseCsv(content);
+  if (rows.length === 0) return '';
+  const header = rows[0].map(h => h.trim().toLowerCase());
+  const textColumn = header.indexOf('text');
+  const column = (name: string) => (textColumn !== -1 ? header.indexOf(name) : name === 'wpm' ? 1 : -1);
+  const wpmColumn = column('wpm');
+  const ewpmColumn = column('ewpm');
+
+  return rows.slice(textColumn !== -1 ? 1 : 0)
+    .map(row => {
+      const text = (row[Math.max(0, textColumn)] ?? '').trim();
+      if (!text) return null;
+      const settings = [
+        ['wpm', parseSpeed(row[wpmColumn])],
+        ['ewpm', parseSpeed(row[ewpmColumn])],
+      ].filter(([, v]) => v !== undefined).map(([k, v]) => `${k}=${v}`);
+      return settings.length > 0 ? `${text} | ${settings.join(' ')}` : text;
+    })
+    .filter((line): line is string => line !== null)
+    .join('\n');
+};
+
+// A set from an imported .txt or .csv file, named after the file
+export const textSetFromFile = (fileName: string, content: string): Omit<TextSet, 'id'> => {
+  const name = fileName.replace(/\.[^.]+$/, '') || 'Imported';
+  const text = /\.csv$/i.test(fileName) ? textFromCsv(content) : content.replace(/\r\n?/g, '\n');
+  if (parsePracticeLines(text).length === 0) throw new Error('no practice lines found');
+  return { name, text };
+};
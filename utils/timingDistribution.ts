@@ -0,0 +1,58 @@
+import { calculateDotLength } from '../constants';
+import { ElementClass, SignalInterval } from '../types';
+import { classifyElements } from './morseDecoder';
+
+// One keyed interval, as plotted in the timing charts
+export interface TimingSample {
+  state: 'on' | 'off';
+  cls: ElementClass; // How the decoder read it
+  units: number;     // Duration in dits of the attempt's configured speed
+  time: number;      // Seconds from the attempt's first mark
+  fraction: number;  // Position in the attempt: 0 = first mark, 1 = end of the last mark
+}
+
+export interface TrendLine {
+  slope: number;     // Units per x unit
+  intercept: number;
+}
+
+/**
+ * Every interval between the first and last mark of an attempt, in dit units of the
+ * configured speed (so a whole session at different speeds still lines up at 1/3/7).
+ * Silence before the first and after the last mark isn't part of the keying.
+ */
+export const collectTimingSamples = (signals: SignalInterval[], wpm: number): TimingSample[] => {
+  const first = signals.findIndex(s => s.state === 'on');
+  if (first === -1) return [];
+  let last = signals.length - 1;
+  while (signals[last].state !== 'on') last--;
+
+  const dot = calculateDotLength(wpm) / 1000;
+  const start = signals[first].startTime;
+  const span = signals[last].startTime + signals[last].duration - start;
+
+  return classifyElements(signals, wpm)
+    .filter(c => c.index <= last)
+    .map(c => {
+      const s = signals[c.index];
+      return {
+        state: s.state,
+        cls: c.cls,
+        units: s.duration / dot,
+        time: s.startTime - start,
+        fraction: span > 0 ? (s.startTime - start) / span : 0,
+      };
+    });
+};
+
+// Least-squares line through the points, or null with fewer than two distinct x values
+export const fitTrend = (points: Array<[number, number]>): TrendLine | null => {
+  if (points.length < 2) return null;
+  const meanX = points.reduce((a, [x]) => a + x, 0) / points.length;
+  const meanY = points.reduce((a, [, y]) => a + y, 0) / points.length;
+  const sxx = points.reduce((a, [x]) => a + (x - meanX) ** 2, 0);
+  if (sxx === 0) return null;
+  const sxy = points.reduce((a, [x, y]) => a + (x - meanX) * (y - meanY), 0);
+  const slope = sxy / sxx;
+  return { slope, intercept: meanY - slope * meanX };
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { SignalInterval, ToneDetectionConfig } from '../types';
+import { ToneKeyingDetector } from './toneDetector';
+import { createRandom } from './random';
+
+const SAMPLE_RATE = 48000;
+const BLOCK = 128;
+const THRESHOLD = 0.2;
+const HYSTERESIS = 0.6;
+
+// A keyed segment: `level` is the tone amplitude (0 = silence)
+interface Segment {
+  seconds: number;
+  level: number;
+  frequency?: number;
+}
+
+// Keyed sine tone plus optional seeded white noise and a steady interfering tone
+const synthesize = (
+  segments: Segment[],
+  { noise = 0, interference }: { noise?: number; interference?: { frequency: number; level: number } } = {}
+): Float32Array => {
+  const total = Math.round(segments.reduce((sum, s) => sum + s.seconds, 0) * SAMPLE_RATE);
+  const samples = new Float32Array(total);
+  const random = createRandom(1);
+  let i = 0;
+  segments.forEach(segment => {
+    const end = i + Math.round(segment.seconds * SAMPLE_RATE);
+    for (; i < end; i++) {
+      const t = i / SAMPLE_RATE;
+      let v = segment.level * Math.sin(2 * Math.PI * (segment.frequency ?? 600) * t);
+      if (noise > 0) v += noise * (random() * 2 - 1);
+      if (interference) v += interference.level * Math.sin(2 * Math.PI * interference.frequency * t);
+      samples[i] = v;
+    }
+  });
+  return samples;
+};
+
+// Feeds the buffer block by block, like the worklet does, then commits the open segment
+const runToneDetector = (samples: Float32Array, config: ToneDetectionConfig) => {
+  const tone = new ToneKeyingDetector(config, SAMPLE_RATE);
+  for (let offset = 0; offset < samples.length; offset += BLOCK) {
+    tone.process(samples.subarray(offset, offset + BLOCK), offset / SAMPLE_RATE, THRESHOLD, HYSTERESIS);
+  }
+  tone.flush(THRESHOLD, HYSTERESIS);
+  tone.detector.finish(samples.length / SAMPLE_RATE);
+  return tone;
+};
+
+const marks = (signals: SignalInterval[]) => signals.filter(s => s.state === 'on');
+
+// Envelope attack and release move the edges by a few milliseconds
+const EDGE_TOLERANCE = 0.003;
+
+describe('ToneKeyingDetector', () => {
+  const keyed: Segment[] = [
+    { seconds: 0.05, level: 0 },
+    { seconds: 0.3, level: 0.5 },
+    { seconds: 0.1, level: 0 },
+    { seconds: 0.1, level: 0.5 },
+    { seconds: 0.2, level: 0 },
+  ];
+  const interference = { frequency: 1500, level: 0.4 };
+  const autoPitch: ToneDetectionConfig = { mode: 'tone', pitch: 600, bandwidth: 100, autoPitch: true };
+
+  it('band-passes away a steady tone at another pitch', () => {
+    const tone = runToneDetector(synthesize(keyed, { interference }), { mode: 'tone', pitch: 600, bandwidth: 100, autoPitch: false });
+    const found = marks(tone.detector.signals);
+
+    expect(found).toHaveLength(2);
+    expect(Math.abs(found[0].duration - 0.3)).toBeLessThan(EDGE_TOLERANCE);
+    expect(Math.abs(found[1].duration - 0.1)).toBeLessThan(EDGE_TOLERANCE);
+  });
+
+  it('in broadband mode the interfering tone keeps the signal on', () => {
+    const tone = runToneDetector(synthesize(keyed, { interference }), { mode: 'broadband', pitch: 600, bandwidth: 100, autoPitch: false });
+
+    expect(marks(tone.detector.signals)).toHaveLength(1);
+  });
+
+  it('locks onto the keyed pitch and keeps the elements heard during the search', () => {
+    const at700 = keyed.map(s => ({ ...s, frequency: 700 }));
+    const tone = runToneDetector(synthesize(at700, { noise: 0.02 }), autoPitch);
+
+    expect(tone.pitch).not.toBeNull();
+    expect(Math.abs(tone.pitch! - 700)).toBeLessThanOrEqual(10);
+    const found = marks(tone.detector.signals);
+    expect(found).toHaveLength(2);
+    expect(found[0].startTime).toBeCloseTo(0.05, 2);
+  });
+
+  it('still searches when keying starts long after the start', () => {
+    const late = [{ seconds: 4, level: 0 }, ...keyed.map(s => ({ ...s, frequency: 700 }))];
+    const tone = runToneDetector(synthesize(late, { noise: 0.02 }), autoPitch);
+
+    expect(Math.abs(tone.pitch! - 700)).toBeLessThanOrEqual(10);
+    const found = marks(tone.detector.signals);
+    expect(found).toHaveLength(2);
+    expect(found[0].startTime).toBeCloseTo(4.05, 2);
+  });
+});
@@ -0,0 +1,224 @@
+import { ToneDetectionConfig } from '../types';
+import { KeyingDetector } from './keyingDetector';
+
+// Range and resolution of the automatic pitch search
+const SEARCH_MIN_HZ = 300;
+const SEARCH_MAX_HZ = 1500;
+const SEARCH_STEP_HZ = 5;
+
+// The search looks at short windows and locks once enough of them agree on the pitch
+const SEARCH_WINDOW_SECONDS = 0.05;
+const LOCK_WINDOWS = 4;
+// The strongest bin must stand this far above the average bin, and be audible at all
+const MIN_PROMINENCE = 8;
+const MIN_TONE_AMPLITUDE = 0.01;
+// Without a lock after this much audio since the first loud block, fall back to the configured pitch
+const MAX_SEARCH_SECONDS = 3;
+
+/**
+ * Band-pass biquad (RBJ cookbook, 0 dB peak gain), so a tone at the center
+ * frequency keeps its amplitude and the threshold means the same as in broadband mode.
+ */
+export class BandpassFilter {
+  private b0: number;
+  private b2: number;
+  private a1: number;
+  private a2: number;
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  constructor(frequency: number, bandwidth: number, sampleRate: number) {
+    const w0 = 2 * Math.PI * frequency / sampleRate;
+    const q = frequency / Math.max(1, bandwidth);
+    const alpha = Math.sin(w0) / (2 * q);
+    const a0 = 1 + alpha;
+    this.b0 = alpha / a0;
+    this.b2 = -alpha / a0;
+    this.a1 = -2 * Math.cos(w0) / a0;
+    this.a2 = (1 - alpha) / a0;
+  }
+
+  process(input: Float32Array): Float32Array {
+    const output = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      const x = input[i];
+      const y = this.b0 * x + this.b2 * this.x2 - this.a1 * this.y1 - this.a2 * this.y2;
+      this.x2 = this.x1;
+      this.x1 = x;
+      this.y2 = this.y1;
+      this.y1 = y;
+      output[i] = y;
+    }
+    return output;
+  }
+}
+
+// Amplitude of a single frequency component over the whole buffer (Goertzel)
+export const goertzelAmplitude = (samples: Float32Array, frequency: number, sampleRate: number): number => {
+  const coeff = 2 * Math.cos(2 * Math.PI * frequency / sampleRate);
+  let s1 = 0;
+  let s2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const s = samples[i] + coeff * s1 - s2;
+    s2 = s1;
+    s1 = s;
+  }
+  const power = Math.max(0, s1 * s1 + s2 * s2 - coeff * s1 * s2);
+  return 2 * Math.sqrt(power) / samples.length;
+};
+
+// Strongest tone in the search range, or null if nothing stands out from the noise
+export const findStrongestTone = (samples: Float32Array, sampleRate: number): number | null => {
+  let best = 0;
+  let bestFreq = 0;
+  let total = 0;
+  let bins = 0;
+  for (let f = SEARCH_MIN_HZ; f <= SEARCH_MAX_HZ; f += SEARCH_STEP_HZ) {
+    const amp = goertzelAmplitude(samples, f, sampleRate);
+    total += amp;
+    bins++;
+    if (amp > best) {
+      best = amp;
+      bestFreq = f;
+    }
+  }
+  if (best < MIN_TONE_AMPLITUDE || best < MIN_PROMINENCE * (total / bins)) return null;
+  return bestFreq;
+};
+
+interface PendingBlock {
+  samples: Float32Array;
+  time: number;
+}
+
+/**
+ * Keying detector with a frequency-selective front end. In tone mode the audio is
+ * band-passed around the sidetone pitch; with auto pitch, audio is held back until the
+ * strongest tone is found and then replayed through the filter, so no element is lost
+ * to the search. Broadband mode passes the audio straight to the detector.
+ */
+export class ToneKeyingDetector {
+  readonly detector = new KeyingDetector();
+  pitch: number | null = null; // Pitch in use; null while searching
+  private filter: BandpassFilter | null = null;
+  private pending: PendingBlock[] = [];
+  private pendingSamples = 0;
+  private heard = false; // A block loud enough to key has arrived during this search
+  private window: Float32Array;
+  private windowFill = 0;
+  private candidates: number[] = [];
+
+  constructor(private config: ToneDetectionConfig, private sampleRate: number) {
+    this.window = new Float32Array(Math.round(SEARCH_WINDOW_SECONDS * sampleRate));
+    this.configure(config);
+  }
+
+  // Applies new settings; changing to auto pitch starts a new search
+  configure(config: ToneDetectionConfig) {
+    this.config = config;
+    this.pending = [];
+    this.pendingSamples = 0;
+    this.heard = false;
+    this.windowFill = 0;
+    this.candidates = [];
+    if (config.mode === 'tone' && !config.autoPitch) this.lock(config.pitch);
+    else if (config.mode === 'tone') this.pitch = null;
+    else {
+      this.pitch = null;
+      this.filter = null;
+    }
+  }
+
+  // Forgets pending audio for a new attempt, keeping a pitch that's already locked
+  reset() {
+    this.detector.reset();
+    this.pending = [];
+    this.pendingSamples = 0;
+    this.heard = false;
+    this.windowFill = 0;
+    this.candidates = [];
+  }
+
+  get isSearching(): boolean {
+    return this.config.mode === 'tone' && this.pitch === null;
+  }
+
+  /**
+   * Processes one block. Returns the peak level the detector saw (the raw level while
+   * searching, so the meter still moves).
+   */
+  process(samples: Float32Array, blockTime: number, threshold: number, hysteresis: number): number {
+    if (this.config.mode === 'broadband') {
+      return this.detector.process(samples, this.sampleRate, blockTime, threshold, hysteresis);
+    }
+
+    if (this.isSearching) {
+      const peak = samples.reduce((max, s) => Math.max(max, Math.abs(s)), 0);
+      // Quiet audio before the first element can't key, so it isn't held back and doesn't
+      // run down the search time: keying that starts late still gets its pitch found
+      if (peak > threshold) this.heard = true;
+      if (!this.heard) {
+        this.pending = [];
+        this.pendingSamples = 0;
+      }
+      this.pending.push({ samples: new Float32Array(samples), time: blockTime });
+      this.pendingSamples += samples.length;
+      const found = this.search(samples);
+      if (found !== null) this.lock(found);
+      else if (this.pendingSamples >= MAX_SEARCH_SECONDS * this.sampleRate) this.lock(this.config.pitch);
+      else return peak;
+      return this.replayPending(threshold, hysteresis);
+    }
+
+    return this.detector.process(this.filter!.process(samples), this.sampleRate, blockTime, threshold, hysteresis);
+  }
+
+  // At the end of the audio: gives up a search in progress and processes what was held back
+  flush(threshold: number, hysteresis: number) {
+    if (!this.isSearching) return;
+    this.lock(this.config.pitch);
+    this.replayPending(threshold, hysteresis);
+  }
+
+  // Runs the held-back audio through the freshly locked filter
+  private replayPending(threshold: number, hysteresis: number): number {
+    const held = this.pending;
+    this.pending = [];
+    this.pendingSamples = 0;
+    let peak = 0;
+    held.forEach(block => {
+      peak = Math.max(peak, this.detector.process(this.filter!.process(block.samples), this.sampleRate, block.time, threshold, hysteresis));
+    });
+    return peak;
+  }
+
+  private lock(pitch: number) {
+    this.pitch = pitch;
+    this.filter = new BandpassFilter(pitch, this.config.bandwidth, this.sampleRate);
+  }
+
+  // Feeds the search windows; returns the pitch once enough windows agree
+  private search(samples: Float32Array): number | null {
+    let offset = 0;
+    while (offset < samples.length) {
+      const take = Math.min(samples.length - offset, this.window.length - this.windowFill);
+      this.window.set(samples.subarray(offset, offset + take), this.windowFill);
+      this.windowFill += take;
+      offset += take;
+      if (this.windowFill < this.window.length) break;
+      this.windowFill = 0;
+
+      // Windows without a clear tone (the gaps between elements) neither count nor break the run
+      const tone = findStrongestTone(this.window, this.sampleRate);
+      if (tone === null) continue;
+      const agrees = this.candidates.length === 0 || Math.abs(tone - this.candidates[0]) <= this.config.bandwidth / 2;
+      this.candidates = agrees ? [...this.candidates, tone] : [tone];
+      if (this.candidates.length >= LOCK_WINDOWS) {
+        return Math.round(this.candidates.reduce((a, b) => a + b, 0) / this.candidates.length);
+      }
+    }
+    return null;
+  }
+}
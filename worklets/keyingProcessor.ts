@@ -0,0 +1,131 @@
+import { KeyingControlMessage, KeyingEvent, KeyingLevels } from '../types';
+import { DEFAULT_HYSTERESIS, KEYING_PROCESSOR_NAME } from '../utils/keyingDetector';
+import { ToneKeyingDetector } from '../utils/toneDetector';
+import { LEVEL_BLOCK_FRAMES, LevelTracker } from '../utils/calibration';
+
+// AudioWorkletGlobalScope, which the DOM typings don't describe
+declare const sampleRate: number;
+declare const currentTime: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(name: string, processorCtor: typeof AudioWorkletProcessor): void;
+
+// Level updates for the meter every few render quanta (~10 ms at 48 kHz)
+const LEVEL_FRAMES = LEVEL_BLOCK_FRAMES;
+// While tracking the noise floor, the adapted levels are reported this often (seconds)
+const LEVELS_REPORT_SECONDS = 0.5;
+// Raw audio goes back to the main thread in chunks of this many frames
+const AUDIO_CHUNK_FRAMES = 4096;
+
+class KeyingProcessor extends AudioWorkletProcessor {
+  private tone: ToneKeyingDetector;
+  private startTime = currentTime;
+  private epoch = 0;
+  private threshold: number;
+  private hysteresis: number;
+  private tracker: LevelTracker | null = null;
+  private sinceLevelsReport = 0;
+  private reportedLevels: KeyingLevels | null = null;
+  private pitch: number | null | undefined = undefined; // undefined until announced for this epoch
+  private peak = 0;
+  private levelFrames = 0;
+  private audio = new Float32Array(AUDIO_CHUNK_FRAMES);
+  private audioFrames = 0;
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    this.threshold = options?.processorOptions?.threshold ?? 0;
+    this.hysteresis = options?.processorOptions?.hysteresis ?? DEFAULT_HYSTERESIS;
+    const tracking = options?.processorOptions?.tracking;
+    if (tracking) this.tracker = new LevelTracker(tracking);
+    this.tone = new ToneKeyingDetector(options?.processorOptions?.detection, sampleRate);
+    this.port.onmessage = (e: MessageEvent<KeyingControlMessage>) => {
+      const msg = e.data;
+      if (msg.type === 'threshold') {
+        this.threshold = msg.threshold;
+        this.hysteresis = msg.hysteresis;
+        // Thresholds moved by hand: the tracker carries on from there. Echoes of its own
+        // reports come back from the main thread and are ignored.
+        const reported = this.reportedLevels;
+        const isEcho = reported !== null && reported.threshold === msg.threshold && reported.hysteresis === msg.hysteresis;
+        if (this.tracker && !isEcho) {
+          this.tracker.reset({ ...this.tracker.levels, threshold: msg.threshold, hysteresis: msg.hysteresis });
+        }
+      } else if (msg.type === 'tracking') {
+        this.tracker = msg.levels ? new LevelTracker(msg.levels) : null;
+        this.sinceLevelsReport = 0;
+        this.reportedLevels = null;
+      } else if (msg.type === 'detection') {
+        this.tone.configure(msg.config);
+      } else if (msg.type === 'reset') {
+        this.tone.reset();
+        this.startTime = msg.startTime;
+        this.epoch = msg.epoch;
+        this.audioFrames = 0;
+        // Announced again under the new epoch, since the main thread drops the earlier one
+        this.pitch = undefined;
+      }
+    };
+  }
+
+  private post(msg: KeyingEvent, transfer: Transferable[] = []) {
+    this.port.postMessage({ ...msg, epoch: this.epoch }, transfer);
+  }
+
+  private trackLevels(peak: number, isOn: boolean, seconds: number) {
+    const levels = this.tracker!.update(peak, isOn, seconds);
+    this.threshold = levels.threshold;
+    this.hysteresis = levels.hysteresis;
+    this.sinceLevelsReport += seconds;
+    if (this.sinceLevelsReport >= LEVELS_REPORT_SECONDS) {
+      this.post({ type: 'levels', levels });
+      this.reportedLevels = levels;
+      this.sinceLevelsReport = 0;
+    }
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0]?.[0];
+    if (!input) return true; // Nothing connected yet
+
+    // A held-back search replay can commit several segments at once, so compare
+    // everything that identifies the detector's committed state
+    const detector = this.tone.detector;
+    const before = [detector.isOn, detector.signals.length, detector.lastChangeTime];
+    const peak = this.tone.process(input, currentTime - this.startTime, this.threshold, this.hysteresis);
+    const after = [detector.isOn, detector.signals.length, detector.lastChangeTime];
+    if (before.some((v, i) => v !== after[i])) {
+      this.post({ type: 'transition', ...detector.snapshot() });
+    }
+
+    if (this.tone.pitch !== this.pitch) {
+      this.pitch = this.tone.pitch;
+      this.post({ type: 'pitch', pitch: this.pitch });
+    }
+
+    this.peak = Math.max(this.peak, peak);
+    this.levelFrames += input.length;
+    if (this.levelFrames >= LEVEL_FRAMES) {
+      this.post({ type: 'level', peak: this.peak });
+      if (this.tracker) this.trackLevels(this.peak, detector.isOn, this.levelFrames / sampleRate);
+      this.peak = 0;
+      this.levelFrames = 0;
+    }
+
+    // Render quanta divide the chunk size, so a block never straddles a chunk boundary
+    this.audio.set(input, this.audioFrames);
+    this.audioFrames += input.length;
+    if (this.audioFrames >= AUDIO_CHUNK_FRAMES) {
+      const samples = this.audio;
+      this.post({ type: 'audio', samples }, [samples.buffer]);
+      this.audio = new Float32Array(AUDIO_CHUNK_FRAMES);
+      this.audioFrames = 0;
+    }
+
+    return true;
+  }
+}
+
+registerProcessor(KEYING_PROCESSOR_NAME, KeyingProcessor);